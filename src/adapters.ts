@@ -0,0 +1,438 @@
+import { splitTopLevel } from './cParser';
+import { CEnumDeclaration, CFunctionDeclaration, CParameter } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Which DMIU config attribute an adapter feeds */
+export type AdapterRole = 'memory' | 'dataset' | 'alternative';
+
+/** How a user function reports its value */
+export type ValueKind = 'string' | 'integer' | 'boolean' | 'enum' | 'pointer';
+
+/** Open question that must be answered before an adapter can be generated */
+export type AdapterQuestion = 'role' | 'valueKind' | 'booleanLevel' | 'enumMapping' | 'arguments';
+
+/** Answers given by the user, they take precedence over anything inferred from the signature */
+export interface AdapterAnswers {
+	role?: AdapterRole;
+	valueKind?: ValueKind;
+	booleanLevel?: 1 | 2;
+	/** Enum members for Debug Level 1 and 2, in that order */
+	enumMembers?: [string, string];
+	/** C expressions for the input parameters, in declaration order */
+	arguments?: string[];
+}
+
+/** State of a running /adapter request, stored in the conversation state between chat turns */
+export interface AdapterSession {
+	functionName: string;
+	declaration?: CFunctionDeclaration;
+	/** Enums referenced by the declaration */
+	enums: CEnumDeclaration[];
+	answers: AdapterAnswers;
+	/** Question the next chat message answers */
+	pending?: AdapterQuestion;
+}
+
+/** Everything needed to render an adapter */
+export interface AdapterSpec {
+	role: AdapterRole;
+	functionName: string;
+	valueKind: ValueKind;
+	/** Return type of the user function */
+	returnType: string;
+	/** The value is delivered through this pointer parameter instead of the return value */
+	outParameter?: { index: number; type: string };
+	/** Argument expressions for all non-out parameters, in declaration order */
+	arguments: string[];
+	booleanLevel?: 1 | 2;
+	enumLevels?: { level1?: string; level2?: string };
+}
+
+/** Result of matching a signature against the adapter requirements */
+export interface AdapterInference {
+	spec?: AdapterSpec;
+	questions: AdapterQuestion[];
+	/** Set when the function cannot serve the requested role at all */
+	error?: string;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const TARGET_MEMORY_TYPE = 'Dt_RECORD_DebugUnlockingStruct_DMIU';
+
+/** Strings recognized by string-returning functions */
+const LEVEL_STRINGS = { level1: 'debug_level_1', level2: 'debug_level_2' };
+
+/** Name of the generated adapter function per role, matching dmiu_integration.c */
+export const ADAPTER_FUNCTION_NAMES: Record<AdapterRole, string> = {
+	memory: 'DmiuInt_GetTargetMemory',
+	dataset: 'DmiuInt_DatasetRead',
+	alternative: 'DmiuInt_DebugLevelOverride'
+};
+
+/**********************************************************************************************************************
+ *  TYPE CLASSIFICATION
+ *********************************************************************************************************************/
+
+/** Classifies a normalized C type, using known enums to recognize project enum typedefs */
+export function classifyType(type: string, enums: CEnumDeclaration[] = []): ValueKind | undefined {
+	const bare = type.replace(/\b(const|volatile)\b/g, '').replace(/\s+/g, ' ').trim();
+
+	if (/^((unsigned|signed) )?char\s*\*$|^char_t\s*\*$/.test(bare)) {
+		return 'string';
+	}
+	if (/\*$/.test(bare)) {
+		return 'pointer';
+	}
+	if (/^(bool|boolean|_Bool)$/.test(bare)) {
+		return 'boolean';
+	}
+	if (/^(enum\s+\w+|e_\w+)$/.test(bare) || enums.some(e => e.name === bare)) {
+		return 'enum';
+	}
+	if (/^((unsigned|signed) )?(char|short|int|long|long long)( int)?$|^(unsigned|signed)$|^u?int(8|16|32|64)(_t)?$|^[su]int(8|16|32|64)$|^uint$/.test(bare)) {
+		return 'integer';
+	}
+	return undefined;
+}
+
+/** Returns the pointee of a single-level pointer type (`uint32*` → `uint32`) */
+function pointee(type: string): string {
+	return type.replace(/\*$/, '').trim();
+}
+
+/**********************************************************************************************************************
+ *  INFERENCE
+ *********************************************************************************************************************/
+
+/**
+ * Works out how to adapt a user function to a DMIU config attribute.
+ * The signature decides as much as possible; only what stays ambiguous is returned as questions.
+ * Without a declaration, the role and value kind have to be asked and the function is assumed to take no arguments.
+ */
+export function inferAdapter(
+	functionName: string,
+	declaration: CFunctionDeclaration | undefined,
+	answers: AdapterAnswers,
+	enums: CEnumDeclaration[] = []
+): AdapterInference {
+	const returnType = declaration?.returnType ?? '';
+	const parameters = declaration?.parameters ?? [];
+	const returnKind = declaration ? classifyType(returnType, enums) : undefined;
+
+	// Pointers (other than strings) can only be target memory
+	let role = answers.role;
+	if (!role && returnKind === 'pointer') {
+		role = 'memory';
+	}
+	if (!role) {
+		return { questions: ['role'] };
+	}
+
+	if (role === 'memory') {
+		if (declaration && returnKind !== 'pointer') {
+			return { questions: [], error: `${functionName}() returns \`${returnType}\`, but the memory adapter needs a pointer to ${TARGET_MEMORY_TYPE}` };
+		}
+		return withArguments({ role, functionName, valueKind: 'pointer', returnType: returnType || 'void*', arguments: [] }, parameters, answers);
+	}
+
+	// Value delivered by return value or by the single writable pointer parameter
+	let valueKind = answers.valueKind;
+	let valueType = returnType;
+	let outParameter: AdapterSpec['outParameter'];
+	if (returnKind && returnKind !== 'pointer') {
+		valueKind = valueKind ?? returnKind;
+	} else {
+		const outCandidates = parameters
+			.map((parameter, index) => ({ parameter, index }))
+			.filter(({ parameter }) => isOutParameter(parameter, enums));
+		if (outCandidates.length === 1) {
+			outParameter = { index: outCandidates[0].index, type: outCandidates[0].parameter.type };
+			valueType = pointee(outParameter.type);
+			valueKind = valueKind ?? classifyType(valueType, enums);
+		}
+	}
+
+	if (!valueKind || valueKind === 'pointer') {
+		return { questions: ['valueKind'] };
+	}
+
+	// Without a declaration the return type follows from the answered value kind
+	const fallbackReturnType = { string: 'const char*', boolean: 'boolean', integer: 'uint32', enum: 'uint32' }[valueKind];
+	const spec: AdapterSpec = { role, functionName, valueKind, returnType: returnType || fallbackReturnType, outParameter, arguments: [] };
+	const questions: AdapterQuestion[] = [];
+
+	if (valueKind === 'boolean') {
+		spec.booleanLevel = answers.booleanLevel;
+		if (!spec.booleanLevel) {
+			questions.push('booleanLevel');
+		}
+	}
+
+	if (valueKind === 'enum') {
+		const members = enums.find(e => e.name === valueType.replace(/^enum\s+/, ''))?.members ?? [];
+		spec.enumLevels = answers.enumMembers
+			? { level1: answers.enumMembers[0], level2: answers.enumMembers[1] }
+			: matchEnumLevels(members);
+		if (!spec.enumLevels.level1 || !spec.enumLevels.level2) {
+			questions.push('enumMapping');
+		}
+	}
+
+	const withArgs = withArguments(spec, parameters, answers);
+	return { spec: withArgs.spec, questions: [...questions, ...withArgs.questions] };
+}
+
+/** Finds the enum members that denote Debug Level 1 and 2 by their names */
+export function matchEnumLevels(members: string[]): { level1?: string; level2?: string } {
+	const find = (level: 1 | 2) => members.find(member => new RegExp(`(LE?VE?L|DEBUG|DBG)_?${level}(?!\\d)`, 'i').test(member));
+	return { level1: find(1), level2: find(2) };
+}
+
+function isOutParameter(parameter: CParameter, enums: CEnumDeclaration[]): boolean {
+	// Writable char buffers are strings, not integers passed by reference
+	if (!/\*$/.test(parameter.type) || /\bconst\b/.test(parameter.type) || classifyType(parameter.type) === 'string') {
+		return false;
+	}
+	const kind = classifyType(pointee(parameter.type), enums);
+	return kind === 'integer' || kind === 'boolean' || kind === 'enum';
+}
+
+function withArguments(spec: AdapterSpec, parameters: CParameter[], answers: AdapterAnswers): AdapterInference {
+	const inputCount = parameters.filter((_, index) => index !== spec.outParameter?.index).length;
+	if (inputCount === 0) {
+		return { spec, questions: [] };
+	}
+	if (answers.arguments && answers.arguments.length === inputCount) {
+		return { spec: { ...spec, arguments: answers.arguments }, questions: [] };
+	}
+	return { spec, questions: ['arguments'] };
+}
+
+/**
+ * Applies the user's reply to a pending question.
+ * @returns The updated answers, or undefined if the reply does not answer the question.
+ */
+export function applyAdapterAnswer(question: AdapterQuestion, reply: string, answers: AdapterAnswers): AdapterAnswers | undefined {
+	const text = reply.trim();
+	const lower = text.toLowerCase();
+
+	switch (question) {
+		case 'role': {
+			const roles: Record<string, AdapterRole> = { '1': 'memory', '2': 'dataset', '3': 'alternative' };
+			const role = roles[lower] ?? (['memory', 'dataset', 'alternative'] as AdapterRole[]).find(r => lower.startsWith(r));
+			return role ? { ...answers, role } : undefined;
+		}
+		case 'valueKind': {
+			const kinds: [RegExp, ValueKind][] = [[/^str/, 'string'], [/^int|^uint|^num/, 'integer'], [/^bool/, 'boolean'], [/^enum/, 'enum']];
+			const kind = kinds.find(([pattern]) => pattern.test(lower))?.[1];
+			return kind ? { ...answers, valueKind: kind } : undefined;
+		}
+		case 'booleanLevel': {
+			const level = /\b([12])\b/.exec(lower)?.[1];
+			return level ? { ...answers, booleanLevel: level === '2' ? 2 : 1 } : undefined;
+		}
+		case 'enumMapping': {
+			const members = text.split(/[\s,]+/).filter(member => /^[A-Za-z_]\w*$/.test(member));
+			return members.length === 2 ? { ...answers, enumMembers: [members[0], members[1]] } : undefined;
+		}
+		case 'arguments': {
+			const args = splitArguments(text);
+			return args.length > 0 ? { ...answers, arguments: args } : undefined;
+		}
+	}
+}
+
+/** Splits a comma-separated argument list, ignoring commas inside parentheses and string literals */
+export function splitArguments(text: string): string[] {
+	return splitTopLevel(text, ',').map(arg => arg.trim()).filter(arg => arg !== '');
+}
+
+/** Input parameters of a declaration, i.e. everything except the detected out-parameter */
+export function inputParameters(spec: AdapterSpec | undefined, declaration: CFunctionDeclaration | undefined): CParameter[] {
+	return (declaration?.parameters ?? []).filter((_, index) => index !== spec?.outParameter?.index);
+}
+
+/**********************************************************************************************************************
+ *  RENDERING
+ *********************************************************************************************************************/
+
+/** Renders a compilable static adapter function for dmiu_integration.c */
+export function renderAdapter(spec: AdapterSpec): string {
+	switch (spec.role) {
+		case 'memory':
+			return renderMemoryAdapter(spec);
+		case 'dataset':
+			return renderLevelAdapter(spec, 'uint32', 'magicFlag', {
+				safe: 'DMIU_INT_MAGIC_FLAG_SAFE',
+				level1: 'DMIU_INT_MAGIC_FLAG_LEVEL_1',
+				level2: 'DMIU_INT_MAGIC_FLAG_LEVEL_2'
+			});
+		case 'alternative':
+			return renderLevelAdapter(spec, 'e_Dmiu_Debug_Level', 'level', {
+				safe: 'DMIU_DEBUG_LEVEL_SAFE',
+				level1: 'DMIU_DEBUG_LEVEL_1',
+				level2: 'DMIU_DEBUG_LEVEL_2'
+			});
+	}
+}
+
+/** Extra includes an adapter needs on top of dmiu_integration.h */
+export function adapterIncludes(spec: AdapterSpec): string[] {
+	return spec.valueKind === 'string' ? ['#include <string.h>'] : [];
+}
+
+function callExpression(spec: AdapterSpec, valueVariable: string): string {
+	const args = [...spec.arguments];
+	if (spec.outParameter) {
+		args.splice(spec.outParameter.index, 0, `&${valueVariable}`);
+	}
+	return `${spec.functionName}(${args.join(', ')})`;
+}
+
+function renderMemoryAdapter(spec: AdapterSpec): string {
+	const call = callExpression(spec, '');
+	const needsCast = pointee(spec.returnType.replace(/\bconst\b/g, '').trim()) !== TARGET_MEMORY_TYPE;
+	const body = needsCast
+		? `    /* MISRA C:2012 Rule 11.5 deviation: ${spec.functionName}() returns \`${spec.returnType}\` pointing to a region reserved
+     * for ${TARGET_MEMORY_TYPE}. */
+    return (${TARGET_MEMORY_TYPE}*)${call};`
+		: `    return ${call};`;
+
+	return `/**
+ * \\brief   Memory adapter: provides the target memory holding MagicFlagA/MagicFlagB.
+ * \\details Wraps the project function ${spec.functionName}().
+ */
+static ${TARGET_MEMORY_TYPE}* ${ADAPTER_FUNCTION_NAMES.memory}(void)
+{
+${body}
+}
+`;
+}
+
+function renderLevelAdapter(
+	spec: AdapterSpec,
+	resultType: string,
+	resultVariable: string,
+	values: { safe: string; level1: string; level2: string }
+): string {
+	const { acquire, guard, conditions, description } = describeValue(spec);
+	const assign = (value: string, indent: string) => `${indent}${resultVariable} = ${value};`;
+
+	// Level 2 is tested first so a source reporting both never ends up at the lower level
+	const branches: string[] = [];
+	if (conditions.level2) {
+		branches.push(`if (${conditions.level2})`, '{', assign(values.level2, '    '), '}');
+	}
+	if (conditions.level1) {
+		branches.push(`${branches.length > 0 ? 'else ' : ''}if (${conditions.level1})`, '{', assign(values.level1, '    '), '}');
+	}
+	branches.push('else', '{', '    /* Safe Level for any other value */', '}');
+
+	const indent = guard ? '        ' : '    ';
+	const chain = branches.map(line => indent + line).join('\n');
+	const decision = guard ? `    if (${guard})\n    {\n${chain}\n    }` : chain;
+
+	const target = spec.role === 'dataset' ? 'a magic flag' : 'e_Dmiu_Debug_Level';
+	const outNote = spec.outParameter
+		? `\n *          The value is delivered through parameter ${spec.outParameter.index + 1} (\`${spec.outParameter.type}\`).`
+		: '';
+	const orNote = spec.role === 'alternative'
+		? '\n *          The DMIU core combines this level with the dataset using OR logic.'
+		: '';
+
+	return `/**
+ * \\brief   ${spec.role === 'dataset' ? 'Dataset' : 'Alternative'} adapter: converts the result of ${spec.functionName}() to ${target}.
+ * \\details ${description}${outNote}${orNote}
+ */
+static ${resultType} ${ADAPTER_FUNCTION_NAMES[spec.role]}(void)
+{
+    ${resultType} ${resultVariable} = ${values.safe};
+${acquire}
+${decision}
+
+    return ${resultVariable};
+}
+`;
+}
+
+/** Produces the code fetching the value and the conditions identifying Level 1 and 2 */
+function describeValue(spec: AdapterSpec): {
+	acquire: string;
+	guard?: string;
+	conditions: { level1?: string; level2?: string };
+	description: string;
+} {
+	const valueType = spec.outParameter ? pointee(spec.outParameter.type) : spec.returnType;
+
+	let acquire: string;
+	let guard: string | undefined;
+	if (spec.outParameter) {
+		const initial = spec.valueKind === 'boolean' ? 'FALSE' : spec.valueKind === 'integer' ? '0U' : `(${valueType})0`;
+		acquire = `    ${valueType} value = ${initial};\n`;
+		const call = callExpression(spec, 'value');
+		if (spec.returnType === 'void') {
+			acquire += `    ${call};\n`;
+		} else if (spec.returnType === 'Std_ReturnType') {
+			acquire += `    const Std_ReturnType status = ${call};\n`;
+			guard = 'status == E_OK';
+		} else if (classifyType(spec.returnType) === 'boolean') {
+			acquire += `    const boolean status = ${call};\n`;
+			guard = 'status == TRUE';
+		} else {
+			acquire += `    (void)${call};\n`;
+		}
+	} else if (spec.valueKind === 'integer') {
+		acquire = `    const uint32 value = (uint32)${callExpression(spec, '')};\n`;
+	} else {
+		const constType = valueType.startsWith('const ') ? valueType : `const ${valueType}`;
+		acquire = `    ${constType} value = ${callExpression(spec, '')};\n`;
+	}
+
+	switch (spec.valueKind) {
+		case 'string':
+			return {
+				acquire,
+				guard: 'value != NULL_PTR',
+				conditions: {
+					level1: `strcmp(value, "${LEVEL_STRINGS.level1}") == 0`,
+					level2: `strcmp(value, "${LEVEL_STRINGS.level2}") == 0`
+				},
+				description: `${spec.functionName}() reports "${LEVEL_STRINGS.level1}", "${LEVEL_STRINGS.level2}" or any other string (Safe Level).`
+			};
+		case 'boolean':
+			return {
+				acquire,
+				guard,
+				conditions: spec.booleanLevel === 2 ? { level2: 'value == TRUE' } : { level1: 'value == TRUE' },
+				description: `${spec.functionName}() reports TRUE to unlock Debug Level ${spec.booleanLevel ?? 1}, FALSE for the Safe Level.`
+			};
+		case 'enum':
+			return {
+				acquire,
+				guard,
+				conditions: {
+					level1: spec.enumLevels?.level1 && `value == ${spec.enumLevels.level1}`,
+					level2: spec.enumLevels?.level2 && `value == ${spec.enumLevels.level2}`
+				},
+				description: `${spec.functionName}() reports ${valueType}: ${spec.enumLevels?.level1} (Debug Level 1), ${spec.enumLevels?.level2} (Debug Level 2), anything else is the Safe Level.`
+			};
+		default: {
+			const value = spec.outParameter && valueType !== 'uint32' ? '(uint32)value' : 'value';
+			return {
+				acquire,
+				guard,
+				conditions: {
+					level1: `(${value} == 1U) || (${value} == DMIU_INT_MAGIC_FLAG_LEVEL_1)`,
+					level2: `(${value} == 2U) || (${value} == DMIU_INT_MAGIC_FLAG_LEVEL_2)`
+				},
+				description: `${spec.functionName}() reports 1/2 or the matching magic flag for Debug Level 1/2, anything else is the Safe Level.`
+			};
+		}
+	}
+}
@@ -0,0 +1,258 @@
+import { load } from 'js-yaml';
+import { applyConfiguration, findConfiguration, GENERIC_CONFIGURATION } from './configurations';
+import { findPathPlaceholders, resolvePathPlaceholders, validatePlaceholderValue } from './paths';
+import { ANSWER_FIELDS, AnswerField } from './session';
+import { ConversationState, MotionWiseConfiguration } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Complete wizard answers for one integration, as taken by the `dfu_generateIntegrationFiles` tool */
+export interface IntegrationAnswers {
+	platform?: 'posix' | 'autosar';
+	/** MotionWise configuration id, selects integration path and platform */
+	configuration?: string;
+	memoryFunction: string;
+	datasetFunction: string;
+	alternativeFunction?: string;
+}
+
+/** Answers that may be given at the top level of an answers file or per configuration */
+export interface AnswerSet {
+	platform?: 'posix' | 'autosar';
+	memory?: string;
+	dataset?: string;
+	alternative?: string;
+	/** Values for `[PLACEHOLDER]`s in integration paths, e.g. `PLATFORM` */
+	placeholders?: Record<string, string>;
+	/** Answers of single ECUs of multi-ECU configurations (`ecu2`, ...), the other answers apply to every ECU */
+	ecus?: Record<string, EcuAnswerSet>;
+}
+
+/** Answers that differ for one ECU */
+export interface EcuAnswerSet {
+	memory?: string;
+	dataset?: string;
+	alternative?: string;
+}
+
+/** Parsed answers file of the `dfu-integrate` CLI */
+export interface AnswersFile extends AnswerSet {
+	/** Configuration id, list of ids, or `all` for every registered configuration */
+	configuration?: string | string[];
+	/** Overrides `dfu.bazel.dependencies` */
+	bazelDependencies?: string[];
+	/** Answers that differ for single configurations, merged over the top-level answers */
+	overrides?: Record<string, AnswerSet>;
+}
+
+/** One configuration to generate in a batch, or why it cannot be generated */
+export type BatchTarget =
+	| { configuration: string; state: ConversationState; integrationPath: string }
+	| { configuration: string; error: string };
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const ECU_ANSWER_SET_KEYS = ['memory', 'dataset', 'alternative'];
+const ANSWER_SET_KEYS = [...ECU_ANSWER_SET_KEYS, 'platform', 'placeholders', 'ecus'];
+const ANSWERS_FILE_KEYS = [...ANSWER_SET_KEYS, 'configuration', 'bazelDependencies', 'overrides'];
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Parses a JSON (`.json`) or YAML answers file.
+ * @throws Error naming the file and the first problem found.
+ */
+export function parseAnswersFile(text: string, fileName: string): AnswersFile {
+	let parsed: unknown;
+	try {
+		parsed = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : load(text, { filename: fileName });
+	} catch (error) {
+		throw new Error(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	const problem = validateAnswersFile(parsed);
+	if (problem) {
+		throw new Error(`${fileName}: ${problem}`);
+	}
+	return parsed as AnswersFile;
+}
+
+/**
+ * Builds a completed wizard state from answers, exactly as the wizard would after the last question.
+ * @throws Error if the configuration is not registered.
+ */
+export function buildIntegrationState(answers: IntegrationAnswers, configurations: MotionWiseConfiguration[]): ConversationState {
+	const state: ConversationState = {
+		step: 'complete',
+		platform: answers.platform ?? 'posix',
+		integrationPath: GENERIC_CONFIGURATION.integrationPath,
+		memoryFunction: answers.memoryFunction,
+		datasetFunction: answers.datasetFunction,
+		alternativeFunction: answers.alternativeFunction ?? 'none'
+	};
+
+	if (answers.configuration) {
+		const config = findConfiguration(answers.configuration, configurations);
+		if (!config) {
+			throw new Error(`Unknown MotionWise configuration "${answers.configuration}", known: ${configurations.map(c => c.id).join(', ')}`);
+		}
+		applyConfiguration(state, config);
+		// An explicit platform wins over the configuration's default
+		state.platform = answers.platform ?? config.platform;
+	}
+	return state;
+}
+
+/**
+ * Resolves the configurations an answers file asks for into wizard states and integration paths.
+ * `selection` (from the command line) replaces the file's `configuration`; `all` means every registered
+ * configuration except the generic one. Without any selection the generic configuration is used.
+ */
+export function planBatch(file: AnswersFile, configurations: MotionWiseConfiguration[], selection?: string[]): BatchTarget[] {
+	const requested = selection ?? (file.configuration === undefined ? [GENERIC_CONFIGURATION.id] : [file.configuration].flat());
+	const ids = requested.some(id => id.toLowerCase() === 'all')
+		? configurations.filter(config => config.id !== GENERIC_CONFIGURATION.id).map(config => config.id)
+		: requested;
+
+	return ids.map(id => {
+		const config = findConfiguration(id, configurations);
+		if (!config) {
+			return { configuration: id, error: `unknown configuration, known: ${configurations.map(c => c.id).join(', ')}` };
+		}
+
+		const override = Object.entries(file.overrides ?? {}).find(([key]) => key.toLowerCase() === config.id.toLowerCase())?.[1] ?? {};
+		const answers: AnswerSet = { ...file, ...override, placeholders: { ...file.placeholders, ...override.placeholders }, ecus: { ...file.ecus, ...override.ecus } };
+		const missing = (['memory', 'dataset'] as AnswerField[]).filter(field => !answers[field]?.trim());
+		if (missing.length > 0) {
+			return { configuration: config.id, error: `missing answer${missing.length > 1 ? 's' : ''} ${missing.map(field => `"${field}"`).join(', ')}` };
+		}
+
+		const state = buildIntegrationState({
+			platform: answers.platform,
+			configuration: config.id,
+			memoryFunction: answers.memory!,
+			datasetFunction: answers.dataset!,
+			alternativeFunction: answers.alternative
+		}, configurations);
+		const ecuProblem = applyEcuAnswers(state, answers.ecus ?? {});
+		if (ecuProblem) {
+			return { configuration: config.id, error: ecuProblem };
+		}
+
+		const values = answers.placeholders ?? {};
+		const placeholders = findPathPlaceholders(config.integrationPath);
+		const unresolved = placeholders.filter(name => values[name] === undefined);
+		if (unresolved.length > 0) {
+			return { configuration: config.id, error: `no value for ${unresolved.map(name => `[${name}]`).join(', ')} in ${config.integrationPath}, add it under "placeholders"` };
+		}
+		for (const name of placeholders) {
+			const problem = validatePlaceholderValue(values[name]);
+			if (problem) {
+				return { configuration: config.id, error: `placeholder [${name}]: ${problem}` };
+			}
+		}
+		return { configuration: config.id, state, integrationPath: resolvePathPlaceholders(config.integrationPath, values) };
+	});
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Stores the per-ECU answers in the state's ECUs, returns an error message for ECUs the configuration lacks */
+function applyEcuAnswers(state: ConversationState, answers: Record<string, EcuAnswerSet>): string | undefined {
+	for (const [name, ecuAnswers] of Object.entries(answers)) {
+		const ecu = state.ecus?.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+		if (!ecu) {
+			return state.ecus
+				? `unknown ECU "${name}", known: ${state.ecus.map(candidate => candidate.name).join(', ')}`
+				: `ECU answers for "${name}", but the configuration has a single ECU`;
+		}
+		// The top-level answers are those of the first ECU, as in the wizard
+		const target = ecu === state.ecus![0] ? state : ecu;
+		for (const [field, value] of Object.entries(ecuAnswers) as [AnswerField, string][]) {
+			target[ANSWER_FIELDS[field]] = value;
+		}
+	}
+	return undefined;
+}
+
+/**********************************************************************************************************************
+ *  VALIDATION
+ *********************************************************************************************************************/
+
+/** Returns an error message for a malformed answers file */
+function validateAnswersFile(value: unknown): string | undefined {
+	const problem = validateAnswerSet(value, ANSWERS_FILE_KEYS);
+	if (problem) {
+		return problem;
+	}
+	const candidate = value as { [key: string]: unknown };
+	const configuration = candidate.configuration;
+	if (configuration !== undefined && !isNonEmptyString(configuration)
+		&& !(Array.isArray(configuration) && configuration.length > 0 && configuration.every(isNonEmptyString))) {
+		return '"configuration" must be a configuration id, a list of ids or "all"';
+	}
+	if (candidate.bazelDependencies !== undefined && !(Array.isArray(candidate.bazelDependencies) && candidate.bazelDependencies.every(isNonEmptyString))) {
+		return '"bazelDependencies" must be an array of Bazel labels';
+	}
+	if (candidate.overrides !== undefined) {
+		if (!isPlainObject(candidate.overrides)) {
+			return '"overrides" must map configuration ids to answers';
+		}
+		for (const [id, answers] of Object.entries(candidate.overrides)) {
+			const overrideProblem = validateAnswerSet(answers, ANSWER_SET_KEYS);
+			if (overrideProblem) {
+				return `overrides.${id}: ${overrideProblem}`;
+			}
+		}
+	}
+	return undefined;
+}
+
+function validateAnswerSet(value: unknown, allowedKeys: string[]): string | undefined {
+	if (!isPlainObject(value)) {
+		return 'expected an object';
+	}
+	if (value.platform !== undefined && value.platform !== 'posix' && value.platform !== 'autosar') {
+		return '"platform" must be "posix" or "autosar"';
+	}
+	for (const key of ['memory', 'dataset', 'alternative']) {
+		if (value[key] !== undefined && !isNonEmptyString(value[key])) {
+			return `"${key}" must be a non-empty string`;
+		}
+	}
+	if (value.placeholders !== undefined && !(isPlainObject(value.placeholders) && Object.values(value.placeholders).every(isNonEmptyString))) {
+		return '"placeholders" must map placeholder names to non-empty strings';
+	}
+	if (value.ecus !== undefined) {
+		if (!isPlainObject(value.ecus)) {
+			return '"ecus" must map ECU names to answers';
+		}
+		for (const [name, answers] of Object.entries(value.ecus)) {
+			const ecuProblem = validateAnswerSet(answers, ECU_ANSWER_SET_KEYS);
+			if (ecuProblem) {
+				return `ecus.${name}: ${ecuProblem}`;
+			}
+		}
+	}
+	const unknown = Object.keys(value).filter(key => !allowedKeys.includes(key));
+	if (unknown.length > 0) {
+		return `unknown field "${unknown[0]}"`;
+	}
+	return undefined;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === 'string' && value.trim() !== '';
+}
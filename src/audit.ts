@@ -0,0 +1,317 @@
+import { lineAt, splitTopLevel, stripComments } from './cParser';
+import { GENERATED_MARKER } from './templates';
+import { SourceFile } from './types';
+import { ValidationFinding } from './validation';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A call of Dmiu_IsDebugLevel1Active()/Dmiu_IsDebugLevel2Active() */
+export interface DebugLevelCheck {
+	level: 1 | 2;
+	/** Directory that owns the file, e.g. `logging` for `2100-Diag/logging/src/log.c` */
+	component: string;
+	/** Enclosing function, or `(file scope)` */
+	feature: string;
+	path: string;
+	/** 1-based line number */
+	line: number;
+	/** Source line of the call, trimmed */
+	code: string;
+}
+
+/** A suspicious use of the client API or the magic flags */
+export interface AuditFinding extends ValidationFinding {
+	kind: 'level2-without-level1' | 'safe-level-reachable' | 'magic-flag-read';
+	path: string;
+	line: number;
+	component: string;
+	feature: string;
+}
+
+/** Result of auditing the workspace sources */
+export interface AuditReport {
+	checks: DebugLevelCheck[];
+	findings: AuditFinding[];
+	scannedFiles: number;
+	/** DMIU core, integration and generated files, which are allowed to touch the magic flags */
+	skippedFiles: number;
+}
+
+/** Features gated per level in one component */
+export interface ComponentUsage {
+	component: string;
+	level1: string[];
+	level2: string[];
+}
+
+export type AuditTableFormat = 'markdown' | 'csv';
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Client API calls; prototypes are filtered out separately */
+const CLIENT_API_CALL = /\bDmiu_IsDebugLevel([12])Active\s*\(\s*(?:void\s*)?\)/g;
+
+/** Whether an expression contains a client API call */
+const CLIENT_API_NAME = /\bDmiu_IsDebugLevel[12]Active\b/;
+
+/** Accesses to the magic flags that bypass the client API */
+const MAGIC_FLAG_ACCESS = /\b(MagicFlag[AB]|Dt_RECORD_DebugUnlockingStruct_DMIU|DMIU_INT_MAGIC_FLAG_\w+)\b|\b0[xX][dD][eE][bB]0000[12](?![0-9A-Fa-f])/g;
+
+/** Quick filter for files worth parsing */
+const RELEVANT_TEXT = /Dmiu_IsDebugLevel[12]Active|MagicFlag[AB]|DebugUnlockingStruct|DMIU_INT_MAGIC_FLAG|0[xX][dD][eE][bB]0000[12]/;
+
+/** Directories that say nothing about the component, skipped when naming it */
+const GENERIC_DIRECTORIES = /^(src|source|inc|include|api|impl|private|public|code)$/i;
+
+const C_KEYWORDS = new Set(['if', 'else', 'while', 'for', 'switch', 'do', 'return', 'sizeof']);
+
+const FILE_SCOPE = '(file scope)';
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Finds all client API checks in the workspace sources and flags suspicious patterns: components that only check
+ * Level 2, checks whose result does not gate anything or is OR-ed with other conditions (so debug code runs in
+ * the Safe Level), and direct reads of the magic flags outside DMIU itself.
+ */
+export function auditDebugUsage(files: SourceFile[]): AuditReport {
+	const report: AuditReport = { checks: [], findings: [], scannedFiles: files.length, skippedFiles: 0 };
+
+	for (const file of files) {
+		if (!mentionsDebugApi(file.text)) {
+			continue;
+		}
+		const text = stripComments(file.text);
+		const lines = file.text.split('\n');
+		const spans = functionSpans(text);
+		const component = componentOf(file.path);
+		const locate = (index: number) => {
+			const line = lineAt(text, index);
+			return { path: file.path, line, component, feature: spans.find(s => s.start <= index && index <= s.end)?.name ?? FILE_SCOPE };
+		};
+
+		for (const match of text.matchAll(CLIENT_API_CALL)) {
+			if (isPrototype(text, match.index)) {
+				continue;
+			}
+			const check: DebugLevelCheck = { level: Number(match[1]) as 1 | 2, ...locate(match.index), code: lines[lineAt(text, match.index) - 1].trim() };
+			report.checks.push(check);
+
+			const problem = safeLevelProblem(text, match.index, match[0].length);
+			if (problem) {
+				report.findings.push({ kind: 'safe-level-reachable', severity: 'warning', message: problem, ...locate(match.index) });
+			}
+		}
+
+		if (isDmiuFile(file)) {
+			report.skippedFiles++;
+			continue;
+		}
+		const reported = new Set<number>();
+		for (const match of text.matchAll(MAGIC_FLAG_ACCESS)) {
+			const location = locate(match.index);
+			if (!reported.has(location.line)) {
+				reported.add(location.line);
+				report.findings.push({
+					kind: 'magic-flag-read',
+					severity: 'error',
+					message: `\`${match[0]}\` accesses the magic flags directly, use Dmiu_IsDebugLevel1Active()/Dmiu_IsDebugLevel2Active() instead`,
+					...location
+				});
+			}
+		}
+	}
+
+	for (const usage of summarizeComponents(report.checks)) {
+		const first = report.checks.find(check => check.component === usage.component && check.level === 2);
+		if (usage.level1.length === 0 && first) {
+			report.findings.push({
+				kind: 'level2-without-level1',
+				severity: 'warning',
+				message: `${usage.component} checks Dmiu_IsDebugLevel2Active() but never Dmiu_IsDebugLevel1Active(), so Level 1 unlocks nothing here`,
+				path: first.path,
+				line: first.line,
+				component: first.component,
+				feature: first.feature
+			});
+		}
+	}
+
+	report.findings.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+	return report;
+}
+
+/** Whether a source mentions the client API or the magic flags, i.e. is worth auditing */
+export function mentionsDebugApi(text: string): boolean {
+	return RELEVANT_TEXT.test(text);
+}
+
+/** Groups the checks by component, listing the gated features per level */
+export function summarizeComponents(checks: DebugLevelCheck[]): ComponentUsage[] {
+	const byComponent = new Map<string, ComponentUsage>();
+	for (const check of checks) {
+		const usage = byComponent.get(check.component) ?? { component: check.component, level1: [], level2: [] };
+		const features = check.level === 1 ? usage.level1 : usage.level2;
+		if (!features.includes(check.feature)) {
+			features.push(check.feature);
+		}
+		byComponent.set(check.component, usage);
+	}
+	return [...byComponent.values()].sort((a, b) => a.component.localeCompare(b.component));
+}
+
+/**
+ * Renders the audit as one table: a row per check, plus a row per direct magic flag access.
+ * Findings on the same line are listed in the notes column.
+ */
+export function renderAuditTable(report: AuditReport, format: AuditTableFormat): string {
+	const header = ['Component', 'Feature', 'Level', 'File', 'Line', 'Notes'];
+	const notesAt = (path: string, line: number) => report.findings
+		.filter(finding => finding.path === path && finding.line === line)
+		.map(finding => finding.message)
+		.join('; ');
+
+	const rows = [
+		...report.checks.map(check => [check.component, check.feature, `Level ${check.level}`, check.path, String(check.line), notesAt(check.path, check.line)]),
+		...report.findings
+			.filter(finding => finding.kind === 'magic-flag-read')
+			.map(finding => [finding.component, finding.feature, 'Direct read', finding.path, String(finding.line), finding.message])
+	].sort((a, b) => a[0].localeCompare(b[0]) || a[3].localeCompare(b[3]) || Number(a[4]) - Number(b[4]));
+
+	if (format === 'csv') {
+		return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+	}
+	return [
+		`| ${header.join(' | ')} |`,
+		`|${header.map(() => '---').join('|')}|`,
+		...rows.map(row => `| ${row.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`)
+	].join('\n') + '\n';
+}
+
+/** Component owning a file: its nearest directory that is not a generic `src`/`include`/... folder */
+export function componentOf(path: string): string {
+	const directories = path.split('/').slice(0, -1);
+	while (directories.length > 1 && GENERIC_DIRECTORIES.test(directories[directories.length - 1])) {
+		directories.pop();
+	}
+	return directories[directories.length - 1] ?? '(workspace root)';
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/**
+ * Explains why the code behind a check may also run in the Safe Level, if it does:
+ * the result is thrown away, or the condition is OR-ed with something that is not a client API check.
+ */
+function safeLevelProblem(text: string, index: number, length: number): string | undefined {
+	const lineStart = text.lastIndexOf('\n', index) + 1;
+	const before = text.slice(lineStart, index);
+	const after = text.slice(index + length);
+	if (/^\s*(\(\s*void\s*\)\s*)?$/.test(before) && /^\s*;/.test(after)) {
+		return 'The result of the check is discarded, the code after it runs in every level including Safe Level';
+	}
+
+	const condition = enclosingCondition(text, index);
+	if (!condition) {
+		return undefined;
+	}
+	const operands = splitTopLevel(condition, '||');
+	const ungated = operands.filter(operand => !CLIENT_API_NAME.test(operand));
+	if (operands.length > 1 && ungated.length > 0) {
+		return `The check is OR-ed with \`${ungated[0].trim()}\`, which enables the debug code in Safe Level`;
+	}
+	return undefined;
+}
+
+/** Condition of the `if`/`while` whose parentheses contain the index */
+function enclosingCondition(text: string, index: number): string | undefined {
+	let depth = 0;
+	for (let i = index - 1; i >= 0; i--) {
+		const char = text[i];
+		if (char === ')') {
+			depth++;
+		} else if (char === '(') {
+			if (depth > 0) {
+				depth--;
+				continue;
+			}
+			if (/\b(if|while)\s*$/.test(text.slice(Math.max(0, i - 10), i))) {
+				const end = matchingParen(text, i);
+				return end === undefined ? undefined : text.slice(i + 1, end);
+			}
+		} else if (char === ';' || char === '{' || char === '}') {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+function matchingParen(text: string, open: number): number | undefined {
+	let depth = 0;
+	for (let i = open; i < text.length; i++) {
+		if (text[i] === '(') {
+			depth++;
+		} else if (text[i] === ')' && --depth === 0) {
+			return i;
+		}
+	}
+	return undefined;
+}
+
+/** Function definitions with the offsets of their bodies */
+function functionSpans(text: string): { name: string; start: number; end: number }[] {
+	const spans: { name: string; start: number; end: number }[] = [];
+	let depth = 0;
+	let statementStart = 0;
+	let current: { name: string; start: number } | undefined;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === '{') {
+			if (depth === 0) {
+				const head = /(\w+)\s*\((?:[^()]|\([^()]*\))*\)\s*$/.exec(text.slice(statementStart, i));
+				current = head && !C_KEYWORDS.has(head[1]) ? { name: head[1], start: i } : undefined;
+			}
+			depth++;
+		} else if (char === '}' && depth > 0) {
+			depth--;
+			if (depth === 0) {
+				if (current) {
+					spans.push({ ...current, end: i });
+				}
+				current = undefined;
+				statementStart = i + 1;
+			}
+		} else if (char === ';' && depth === 0) {
+			statementStart = i + 1;
+		} else if (char === '#' && depth === 0) {
+			// Preprocessor lines are not part of a function head
+			statementStart = text.indexOf('\n', i) + 1 || text.length;
+		}
+	}
+	return spans;
+}
+
+/** A declaration has a type (or an AUTOSAR `FUNC(...)` macro) directly before the name */
+function isPrototype(text: string, index: number): boolean {
+	const lineStart = text.lastIndexOf('\n', index) + 1;
+	const before = text.slice(lineStart, index);
+	return /(\b(?!return\b)[A-Za-z_]\w*\s*\**|\bFUNC\s*\([^)]*\))\s*$/.test(before);
+}
+
+/** DMIU core, generated integration and DMIU-owned directories may handle the magic flags */
+function isDmiuFile(file: SourceFile): boolean {
+	return file.text.includes(GENERATED_MARKER) || file.path.split('/').slice(0, -1).some(directory => /^dmiu/i.test(directory));
+}
+
+function csvCell(value: string): string {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
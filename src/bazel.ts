@@ -0,0 +1,175 @@
+import { lineAt } from './cParser';
+import { DAEMON_TARGET, GENERATED_MARKER, LIBRARY_TARGET } from './templates';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A proposed change to a top-level build file */
+export interface BuildFileEdit {
+	/** Complete new file content */
+	text: string;
+	/** 1-based line of the inserted reference */
+	line: number;
+	/** Target whose `deps` got the reference, undefined when an alias was added */
+	target?: string;
+}
+
+/** What identifies the top-level target that deploys the integration */
+export interface BuildReferenceOptions {
+	/** Target named by the configuration (`buildTarget`) */
+	target?: string;
+	/** Configuration id; without a named target, a deployment target whose name contains it is taken */
+	configuration?: string;
+	/** ECU of a multi-ECU integration, every ECU gets its own alias (`dmiu_ecu1`) */
+	ecu?: string;
+}
+
+/** A top-level rule call of a build file */
+interface BuildRule {
+	kind: string;
+	name?: string;
+	start: number;
+	end: number;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Top-level build of a MotionWise workspace, see MOTIONWISE_CONTEXT */
+export const TOP_LEVEL_BUILD_GLOB = '**/1500-build/{BUILD,BUILD.bazel}';
+
+/** MotionWise repository directory names such as `1800-ecu-int-rdb2-cp-a` or `1710-handwritten-config-sv62` */
+const REPOSITORY_SEGMENT = /^\d{4}-[a-z0-9_-]+$/;
+
+/** Rule kinds that deploy something; libraries and tests never get the integration as a dependency */
+const DEPLOYMENT_RULE = /binary|image|deploy|package|pkg|bundle/i;
+
+/**********************************************************************************************************************
+ *  LABELS
+ *********************************************************************************************************************/
+
+/**
+ * Bazel package label of a workspace-relative directory.
+ * Directories inside a MotionWise repository are addressed through that repository
+ * (`@1800-ecu-int-rdb2-cp-a//core/development/dmiu`), anything else relative to the workspace root.
+ */
+export function bazelPackageLabel(directory: string): string {
+	const segments = directory.split('/').filter(segment => segment !== '');
+	for (let i = segments.length - 1; i >= 0; i--) {
+		if (REPOSITORY_SEGMENT.test(segments[i])) {
+			return `@${segments[i]}//${segments.slice(i + 1).join('/')}`;
+		}
+	}
+	return `//${segments.join('/')}`;
+}
+
+/** Label of the target the top-level build should depend on: the daemon for POSIX, the library for AUTOSAR */
+export function integrationTargetLabel(integrationPath: string, platform: 'posix' | 'autosar'): string {
+	return `${bazelPackageLabel(integrationPath)}:${platform === 'posix' ? DAEMON_TARGET : LIBRARY_TARGET}`;
+}
+
+/** Whether a build file refers to the package, either through its repository or from the workspace root */
+export function referencesPackage(buildText: string, directory: string): boolean {
+	const labels = [bazelPackageLabel(directory), `//${directory.replace(/^\/+|\/+$/g, '')}`];
+	return labels.some(label => new RegExp(`["']${escapeRegExp(label)}(?=[:"'])`).test(buildText));
+}
+
+/**********************************************************************************************************************
+ *  TOP-LEVEL BUILD EDIT
+ *********************************************************************************************************************/
+
+/**
+ * Adds a dependency on the integration target to a top-level build file. The label goes into the `deps` list of the
+ * target deploying the configuration: the one the configuration names, else a deployment rule whose name contains
+ * the configuration id. Without such a target, or if it has no `deps` list, a small alias target is added instead.
+ * Returns undefined when the file already references the integration package.
+ */
+export function proposeBuildReference(buildText: string, integrationPath: string, label: string, options: BuildReferenceOptions = {}): BuildFileEdit | undefined {
+	if (referencesPackage(buildText, integrationPath)) {
+		return undefined;
+	}
+
+	const rule = findDeploymentRule(buildText, options);
+	const deps = rule && /\bdeps\s*=\s*\[/.exec(buildText.slice(rule.start, rule.end));
+	if (!rule || !deps) {
+		const separator = buildText === '' || buildText.endsWith('\n') ? '' : '\n';
+		const name = options.ecu ? `dmiu_${options.ecu.replace(/\W/g, '_')}` : 'dmiu';
+		const prefix = `${buildText}${separator}\n# ${GENERATED_MARKER}\nalias(\n    name = "${name}",\n`;
+		return {
+			text: `${prefix}    actual = "${label}",\n)\n`,
+			line: lineAt(prefix, prefix.length)
+		};
+	}
+
+	const depsIndex = rule.start + deps.index;
+	const listStart = depsIndex + deps[0].length;
+	const listEnd = buildText.indexOf(']', listStart);
+	const content = buildText.slice(listStart, listEnd);
+
+	if (!content.includes('\n')) {
+		// Single-line list: deps = [] or deps = ["//a"]
+		const insert = content.trim() === '' ? `"${label}"` : `${content.trimEnd().replace(/,$/, '')}, "${label}"`;
+		return {
+			text: buildText.slice(0, listStart) + insert + buildText.slice(listEnd),
+			line: lineAt(buildText, listStart),
+			target: rule.name
+		};
+	}
+
+	// Multi-line list: new entry on its own line before the closing bracket, indented like the attribute + 4
+	const closingLineStart = buildText.lastIndexOf('\n', listEnd) + 1;
+	const indent = /^[ \t]*/.exec(buildText.slice(buildText.lastIndexOf('\n', depsIndex) + 1))![0];
+	const entry = `${indent}    "${label}",\n`;
+	const beforeClosing = buildText.slice(0, closingLineStart);
+	const previousEntry = beforeClosing.replace(/([^\s,[])(\s*)$/, '$1,$2');
+	return {
+		text: previousEntry + entry + buildText.slice(closingLineStart),
+		line: lineAt(buildText, closingLineStart),
+		target: rule.name
+	};
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** The rule the configuration names, else the first deployment rule whose name contains the configuration id */
+function findDeploymentRule(buildText: string, options: BuildReferenceOptions): BuildRule | undefined {
+	const rules = parseRules(buildText);
+	if (options.target) {
+		return rules.find(rule => rule.name === options.target);
+	}
+	if (!options.configuration) {
+		return undefined;
+	}
+	const words = (name: string) => `_${name.toLowerCase().replace(/-/g, '_')}_`;
+	return rules.find(rule => DEPLOYMENT_RULE.test(rule.kind) && !/_test$/.test(rule.kind)
+		&& rule.name !== undefined && words(rule.name).includes(words(options.configuration!)));
+}
+
+/** Top-level rule calls (`kind(` at the start of a line) up to their closing parenthesis, strings and comments skipped */
+function parseRules(buildText: string): BuildRule[] {
+	const rules: BuildRule[] = [];
+	for (const call of buildText.matchAll(/^([A-Za-z_]\w*)\s*\(/gm)) {
+		const start = call.index;
+		let depth = 0;
+		let end = buildText.length;
+		for (const token of buildText.slice(start).matchAll(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|#[^\n]*|[()]/g)) {
+			if (token[0] === '(') {
+				depth++;
+			} else if (token[0] === ')' && --depth === 0) {
+				end = start + token.index + 1;
+				break;
+			}
+		}
+		const text = buildText.slice(start, end);
+		rules.push({ kind: call[1], name: /\bname\s*=\s*["']([^"']+)["']/.exec(text)?.[1], start, end });
+	}
+	return rules;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,304 @@
+import { CEnumDeclaration, CFunctionDeclaration, CParameter, CTypedefDeclaration } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Declarations found in a single C file */
+export interface ParsedCFile {
+	functions: CFunctionDeclaration[];
+	enums: CEnumDeclaration[];
+	typedefs: CTypedefDeclaration[];
+}
+
+/** A top-level statement: everything up to `;`, or a function definition up to its closing brace */
+interface TopLevelStatement {
+	/** Text before the first top-level `{` (or the whole statement) */
+	head: string;
+	/** Text between the outermost braces, if any */
+	body?: string;
+	/** Text after the closing brace up to `;` (typedef names) */
+	tail: string;
+	/** Offset of the statement in the stripped file text */
+	offset: number;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+/** A string literal starting at `lastIndex` */
+const STRING_LITERAL = /"(?:\\.|[^"\\])*"/y;
+
+/** Words that can precede a call or expression but never form a return type */
+const NON_TYPE_KEYWORDS = new Set(['return', 'if', 'while', 'for', 'switch', 'sizeof', 'else', 'case', 'do', 'goto', 'typedef']);
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Extracts function prototypes/definitions, enums and typedefs from C source text.
+ * This is a lightweight scanner, not a full C parser: macros are not expanded apart from the AUTOSAR
+ * compiler abstraction (FUNC, P2VAR, P2CONST, VAR, CONST), which is common in our headers.
+ */
+export function parseCFile(text: string, path?: string): ParsedCFile {
+	const stripped = normalizeCompilerAbstraction(stripPreprocessor(stripComments(text)));
+	const result: ParsedCFile = { functions: [], enums: [], typedefs: [] };
+
+	for (const statement of splitStatements(stripped)) {
+		const enumDeclaration = parseEnum(statement, stripped, path);
+		if (enumDeclaration) {
+			result.enums.push(enumDeclaration);
+			continue;
+		}
+		const typedef = parseTypedef(statement, stripped, path);
+		if (typedef) {
+			result.typedefs.push(typedef);
+			continue;
+		}
+		// Definitions have a body directly after the parameter list, prototypes have none
+		if (statement.body === undefined || statement.tail.trim() === '') {
+			const fn = parseFunctionHead(statement.head, statement.offset, stripped, path);
+			if (fn) {
+				result.functions.push(fn);
+			}
+		}
+	}
+
+	return result;
+}
+
+/** Finds the declaration of a named function in C source text */
+export function findFunctionDeclaration(text: string, functionName: string, path?: string): CFunctionDeclaration | undefined {
+	return parseCFile(text, path).functions.find(fn => fn.name === functionName);
+}
+
+/**
+ * Replaces comments and string literals with spaces so matches inside them are ignored; `keepStrings` keeps the
+ * literals for callers that read them. Newlines are kept, so offsets and line numbers stay valid.
+ */
+export function stripComments(text: string, options: { keepStrings?: boolean } = {}): string {
+	return text.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:\\.|[^"\\\n])*"/g, match =>
+		options.keepStrings && match.startsWith('"') ? match : match.replace(/[^\n]/g, ' '));
+}
+
+/** Blanks preprocessor lines (including continuations) while keeping line numbers, so braces in macros are not counted */
+export function stripPreprocessor(text: string): string {
+	return text.replace(/^[ \t]*#(?:[^\n\\]|\\[\s\S])*/gm, match => match.replace(/[^\n]/g, ' '));
+}
+
+/** Splits an expression at a separator outside of parentheses and string literals, e.g. call arguments at `,` */
+export function splitTopLevel(expression: string, separator: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+	for (let i = 0; i < expression.length; i++) {
+		const char = expression[i];
+		if (char === '"') {
+			STRING_LITERAL.lastIndex = i;
+			i = STRING_LITERAL.test(expression) ? STRING_LITERAL.lastIndex - 1 : i;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+		} else if (depth === 0 && expression.startsWith(separator, i)) {
+			parts.push(expression.slice(start, i));
+			start = i + separator.length;
+			i += separator.length - 1;
+		}
+	}
+	parts.push(expression.slice(start));
+	return parts;
+}
+
+/** 1-based line of an offset in a text */
+export function lineAt(text: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset && i < text.length; i++) {
+		if (text[i] === '\n') {
+			line++;
+		}
+	}
+	return line;
+}
+
+/** Normalizes a C type: single spaces, pointer stars attached, storage-class keywords removed */
+export function normalizeType(type: string): string {
+	return type
+		.replace(/\b(extern|static|inline|__inline|register|STATIC|INLINE|LOCAL_INLINE)\b/g, ' ')
+		.replace(/\s*\*\s*/g, '*')
+		.replace(/\s+/g, ' ')
+		.replace(/\*(?=[A-Za-z_])/g, '* ')
+		.trim();
+}
+
+/**********************************************************************************************************************
+ *  SCANNING
+ *********************************************************************************************************************/
+
+/**
+ * Rewrites the AUTOSAR compiler abstraction into plain C, keeping offsets stable by padding with spaces.
+ * FUNC(rettype, memclass) → rettype, P2VAR(type, ...) → type*, P2CONST(type, ...) → const type*, VAR/CONST(type, ...) → type
+ */
+function normalizeCompilerAbstraction(text: string): string {
+	const pad = (original: string, replacement: string) => replacement.padEnd(original.length, ' ');
+	return text
+		.replace(/\b(FUNC|VAR)\s*\(\s*([^,()]+?)\s*,[^()]*\)/g, (m, _macro, type: string) => pad(m, type))
+		.replace(/\bCONST\s*\(\s*([^,()]+?)\s*,[^()]*\)/g, (m, type: string) => pad(m, `const ${type}`))
+		.replace(/\bP2VAR\s*\(\s*([^,()]+?)\s*,[^()]*\)/g, (m, type: string) => pad(m, `${type}*`))
+		.replace(/\bP2CONST\s*\(\s*([^,()]+?)\s*,[^()]*\)/g, (m, type: string) => pad(m, `const ${type}*`));
+}
+
+function splitStatements(text: string): TopLevelStatement[] {
+	const statements: TopLevelStatement[] = [];
+	let start = 0;
+	let depth = 0;
+	let bodyStart = -1;
+	let bodyEnd = -1;
+
+	const emit = (end: number) => {
+		const statement: TopLevelStatement = bodyStart < 0
+			? { head: text.slice(start, end), tail: '', offset: start }
+			: {
+				head: text.slice(start, bodyStart),
+				body: text.slice(bodyStart + 1, bodyEnd),
+				tail: text.slice(bodyEnd + 1, end),
+				offset: start
+			};
+		if (statement.head.trim() || statement.body !== undefined) {
+			statements.push(statement);
+		}
+		start = end + 1;
+		bodyStart = -1;
+		bodyEnd = -1;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (ch === '{') {
+			if (depth === 0 && bodyStart < 0) {
+				bodyStart = i;
+			}
+			depth++;
+		} else if (ch === '}') {
+			depth = Math.max(0, depth - 1);
+			if (depth === 0 && bodyStart >= 0 && bodyEnd < 0) {
+				bodyEnd = i;
+				// A function definition ends at its closing brace, everything else at the next semicolon
+				if (/\)\s*$/.test(text.slice(start, bodyStart))) {
+					emit(i);
+				}
+			}
+		} else if (ch === ';' && depth === 0) {
+			emit(i);
+		}
+	}
+
+	return statements;
+}
+
+/**********************************************************************************************************************
+ *  DECLARATIONS
+ *********************************************************************************************************************/
+
+function parseFunctionHead(head: string, offset: number, text: string, path?: string): CFunctionDeclaration | undefined {
+	const match = /^([\s\S]*?)\b([A-Za-z_]\w*)\s*\(([^()]*)\)\s*$/.exec(head);
+	if (!match) {
+		return undefined;
+	}
+
+	const returnType = normalizeType(match[1]);
+	const firstWord = returnType.split(/[\s*]/)[0];
+	if (!returnType || /[()=,[\]{}]/.test(returnType) || NON_TYPE_KEYWORDS.has(firstWord)) {
+		return undefined;
+	}
+
+	const parameters = parseParameters(match[3]);
+	if (!parameters) {
+		return undefined;
+	}
+
+	const nameOffset = offset + match.index + match[1].length;
+	return { name: match[2], returnType, parameters, path, line: lineAt(text, nameOffset) };
+}
+
+function parseParameters(list: string): CParameter[] | undefined {
+	const trimmed = list.trim();
+	if (trimmed === '' || trimmed === 'void') {
+		return [];
+	}
+
+	const parameters: CParameter[] = [];
+	for (const raw of trimmed.split(',')) {
+		let declaration = raw.trim();
+		if (declaration === '...') {
+			continue;
+		}
+		// Array parameters decay to pointers
+		let arraySuffix = '';
+		declaration = declaration.replace(/\s*\[[^\]]*\]\s*$/, () => {
+			arraySuffix = '*';
+			return '';
+		});
+
+		const match = /^([\s\S]*?[\s*])([A-Za-z_]\w*)$/.exec(declaration);
+		if (match && normalizeType(match[1]) && !/^(const|volatile|unsigned|signed)$/.test(normalizeType(match[1]))) {
+			parameters.push({ type: normalizeType(match[1]) + arraySuffix, name: match[2] });
+		} else if (IDENTIFIER.test(declaration) || /\*$/.test(declaration) || /^(const|unsigned|signed)\s/.test(declaration)) {
+			// Unnamed parameter such as `uint32*` or `const char*`
+			parameters.push({ type: normalizeType(declaration) + arraySuffix, name: '' });
+		} else {
+			return undefined;
+		}
+	}
+	return parameters;
+}
+
+function parseEnum(statement: TopLevelStatement, text: string, path?: string): CEnumDeclaration | undefined {
+	if (statement.body === undefined) {
+		return undefined;
+	}
+	const head = /^\s*(typedef\s+)?enum\b\s*([A-Za-z_]\w*)?\s*$/.exec(statement.head);
+	if (!head) {
+		return undefined;
+	}
+
+	const typedefName = /([A-Za-z_]\w*)\s*$/.exec(statement.tail.trim())?.[1];
+	const name = head[1] ? typedefName : head[2];
+	if (!name) {
+		return undefined;
+	}
+
+	const members = statement.body
+		.split(',')
+		.map(member => member.split('=')[0].trim())
+		.filter(member => IDENTIFIER.test(member));
+
+	const nameOffset = typedefName && head[1]
+		? statement.offset + statement.head.length + statement.body.length + 2 + statement.tail.lastIndexOf(typedefName)
+		: statement.offset + statement.head.indexOf(name);
+	return { name, members, path, line: lineAt(text, nameOffset) };
+}
+
+function parseTypedef(statement: TopLevelStatement, text: string, path?: string): CTypedefDeclaration | undefined {
+	if (statement.body !== undefined) {
+		const struct = /^\s*typedef\s+(struct|union)\b/.exec(statement.head);
+		const name = /([A-Za-z_]\w*)\s*$/.exec(statement.tail.trim())?.[1];
+		if (!struct || !name) {
+			return undefined;
+		}
+		const nameOffset = statement.offset + statement.head.length + statement.body.length + 2 + statement.tail.lastIndexOf(name);
+		return { name, type: struct[1], path, line: lineAt(text, nameOffset) };
+	}
+
+	// Function pointer typedefs contain parentheses and are not useful for type resolution
+	const match = /^(\s*typedef\s+)([^()]+?[\s*])([A-Za-z_]\w*)\s*$/.exec(statement.head);
+	if (!match) {
+		return undefined;
+	}
+	const nameOffset = statement.offset + match[1].length + match[2].length;
+	return { name: match[3], type: normalizeType(match[2]), path, line: lineAt(text, nameOffset) };
+}
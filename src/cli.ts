@@ -0,0 +1,264 @@
+#!/usr/bin/env node
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { AnswersFile, parseAnswersFile, planBatch } from './answers';
+import { integrationTargetLabel, proposeBuildReference } from './bazel';
+import { buildConfigurationRegistry, CONFIGURATIONS_FILE, ConfigurationSource } from './configurations';
+import { generateIntegrationDirectories } from './ecus';
+import { BASE_SNAPSHOT_FILE, parseBaseSnapshot, preserveUserRegions, renderBaseSnapshot, updateBaseSnapshot } from './regeneration';
+import { classifyTarget, TargetStatus } from './templates';
+import { ConversationState, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Where the CLI reports to, the console unless a test captures it */
+export interface CliOutput {
+	log(line: string): void;
+	error(line: string): void;
+}
+
+interface CliOptions {
+	workspace: string;
+	configurations?: string[];
+	registry?: string;
+	dryRun: boolean;
+	check: boolean;
+	force: boolean;
+	updateBuild: boolean;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const USAGE = `Usage: dfu-integrate <answers.yaml|answers.json> [options]
+
+Generates the DMIU integration files from an answers file, without VS Code.
+
+Options:
+  -w, --workspace <dir>       Workspace root, default: current directory
+  -c, --configuration <id>    Configuration to generate, repeatable; replaces the answers file's "configuration"
+      --all                   Generate every registered configuration
+      --registry <file>       Configuration registry, default: <workspace>/${CONFIGURATIONS_FILE}
+      --dry-run               Report what would be written, write nothing
+      --check                 Like --dry-run, but exit with 1 if any file is missing or differs
+      --force                 Also overwrite handwritten files (files without the generator marker)
+      --update-build          Add the integration target to 1500-build/BUILD.bazel
+  -h, --help                  Show this help
+
+Exit codes: 0 success, 1 generation failed or --check found differences, 2 usage error`;
+
+/** What happens to a file of each target status */
+const ACTIONS: Record<TargetStatus, string> = {
+	new: 'created',
+	unchanged: 'unchanged',
+	generated: 'updated',
+	handwritten: 'skipped'
+};
+
+/** Candidates for the top-level build file, relative to the workspace root */
+const TOP_LEVEL_BUILD_FILES = ['1500-build/BUILD.bazel', '1500-build/BUILD'];
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Runs the `dfu-integrate` command line: reads an answers file and writes the integration files of every requested
+ * configuration, with the same generator and overwrite rules as the `@dfu` wizard. Handwritten files are only
+ * replaced with `--force`; nothing is asked interactively.
+ * @returns The process exit code.
+ */
+export async function runCli(args: string[], output: CliOutput = console): Promise<number> {
+	let answersPath: string;
+	let options: CliOptions;
+	try {
+		const parsed = parseArgs({
+			args,
+			allowPositionals: true,
+			options: {
+				'workspace': { type: 'string', short: 'w' },
+				'configuration': { type: 'string', short: 'c', multiple: true },
+				'all': { type: 'boolean' },
+				'registry': { type: 'string' },
+				'dry-run': { type: 'boolean' },
+				'check': { type: 'boolean' },
+				'force': { type: 'boolean' },
+				'update-build': { type: 'boolean' },
+				'help': { type: 'boolean', short: 'h' }
+			}
+		});
+		if (parsed.values.help) {
+			output.log(USAGE);
+			return 0;
+		}
+		if (parsed.positionals.length !== 1) {
+			throw new Error(parsed.positionals.length === 0 ? 'Missing answers file' : 'Expected exactly one answers file');
+		}
+		if (parsed.values.all && parsed.values.configuration) {
+			throw new Error('--all and --configuration exclude each other');
+		}
+		answersPath = parsed.positionals[0];
+		options = {
+			workspace: path.resolve(parsed.values.workspace ?? '.'),
+			configurations: parsed.values.all ? ['all'] : parsed.values.configuration?.flatMap(value => value.split(',')).map(id => id.trim()),
+			registry: parsed.values.registry,
+			dryRun: !!parsed.values['dry-run'] || !!parsed.values.check,
+			check: !!parsed.values.check,
+			force: !!parsed.values.force,
+			updateBuild: !!parsed.values['update-build']
+		};
+	} catch (error) {
+		output.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+		return 2;
+	}
+
+	let answers: AnswersFile;
+	let sources: ConfigurationSource[];
+	try {
+		answers = parseAnswersFile(await readFile(answersPath, 'utf8'), answersPath);
+		sources = await readRegistrySources(options);
+	} catch (error) {
+		output.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+		return 1;
+	}
+
+	const registry = buildConfigurationRegistry(sources);
+	registry.errors.forEach(error => output.error(`⚠ Ignored configuration: ${error}`));
+
+	let failed = false;
+	for (const target of planBatch(answers, registry.configurations, options.configurations)) {
+		if ('error' in target) {
+			output.error(`✗ ${target.configuration}: ${target.error}`);
+			failed = true;
+			continue;
+		}
+		output.log(`${target.configuration} (${target.state.platform}) → ${target.integrationPath}`);
+		const ok = await writeTarget(target.state, target.integrationPath, answers, options, output);
+		failed = failed || !ok;
+	}
+	return failed ? 1 : 0;
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Reads the registry file; a missing default file means only the built-in configurations are used */
+async function readRegistrySources(options: CliOptions): Promise<ConfigurationSource[]> {
+	const file = options.registry ?? path.join(options.workspace, CONFIGURATIONS_FILE);
+	let text: string;
+	try {
+		text = await readFile(file, 'utf8');
+	} catch (error) {
+		if (!options.registry && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+	try {
+		return [{ name: path.relative(options.workspace, file) || file, entries: JSON.parse(text) }];
+	} catch (error) {
+		throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Generates and writes the files of one configuration, for multi-ECU configurations the shared library and every
+ * ECU's integration, then checks the top-level build reference of each integration.
+ * @returns False if a file was skipped or, with `--check`, is missing or differs.
+ */
+async function writeTarget(
+	state: ConversationState,
+	integrationPath: string,
+	answers: AnswersFile,
+	options: CliOptions,
+	output: CliOutput
+): Promise<boolean> {
+	let ok = true;
+	for (const directory of generateIntegrationDirectories({ ...state, integrationPath }, { bazelDependencies: answers.bazelDependencies })) {
+		ok = await writeDirectory(directory.path, directory.files, options, output) && ok;
+		if (directory.state) {
+			await checkBuildReference(directory.path, directory.state, options, output);
+		}
+	}
+	return ok;
+}
+
+/**
+ * Writes the files of one integration directory, keeping user regions and recording the base snapshot for `/upgrade`.
+ * @returns False if a file was skipped or, with `--check`, is missing or differs.
+ */
+async function writeDirectory(directoryPath: string, files: GeneratedFile[], options: CliOptions, output: CliOutput): Promise<boolean> {
+	let ok = true;
+	const recorded: GeneratedFile[] = [];
+	for (const file of files) {
+		const relativePath = path.posix.join(directoryPath, file.relativePath);
+		const target = path.join(options.workspace, relativePath);
+		const existing = await readFile(target, 'utf8').catch(() => undefined);
+		const content = preserveUserRegions(existing, file.content);
+		const status = classifyTarget(existing, content);
+		const overwrite = status === 'new' || status === 'generated' || (status === 'handwritten' && options.force);
+
+		if (overwrite && !options.dryRun) {
+			await mkdir(path.dirname(target), { recursive: true });
+			await writeFile(target, content, 'utf8');
+		}
+		if (overwrite || status === 'unchanged') {
+			recorded.push(file);
+		}
+		if (status === 'handwritten' && !options.force) {
+			output.error(`  ${ACTIONS[status].padEnd(10)} ${relativePath} (handwritten, use --force to overwrite)`);
+			ok = false;
+		} else {
+			const action = status === 'handwritten' ? 'overwritten' : ACTIONS[status];
+			output.log(`  ${(options.dryRun && overwrite ? `would be ${action}` : action).padEnd(10)} ${relativePath}`);
+		}
+		if (options.check && status !== 'unchanged') {
+			ok = false;
+		}
+	}
+
+	if (!options.dryRun) {
+		const snapshotFile = path.join(options.workspace, directoryPath, BASE_SNAPSHOT_FILE);
+		const previous = await readFile(snapshotFile, 'utf8').then(parseBaseSnapshot, () => undefined);
+		await writeFile(snapshotFile, renderBaseSnapshot(updateBaseSnapshot(previous, recorded)), 'utf8');
+	}
+	return ok;
+}
+
+/** Reports, or with `--update-build` adds, a missing dependency of the top-level build on the integration target */
+async function checkBuildReference(integrationPath: string, state: ConversationState, options: CliOptions, output: CliOutput): Promise<void> {
+	for (const buildPath of TOP_LEVEL_BUILD_FILES) {
+		const buildFile = path.join(options.workspace, buildPath);
+		const text = await readFile(buildFile, 'utf8').catch(() => undefined);
+		if (text === undefined) {
+			continue;
+		}
+
+		const label = integrationTargetLabel(integrationPath, state.platform ?? 'posix');
+		const proposal = proposeBuildReference(text, integrationPath, label, { target: state.buildTarget, configuration: state.motionwiseConfig, ecu: state.ecu });
+		if (!proposal) {
+			return;
+		}
+		if (options.updateBuild && !options.dryRun) {
+			await writeFile(buildFile, proposal.text, 'utf8');
+			output.log(`  ${'updated'.padEnd(10)} ${buildPath} (added ${label} ${proposal.target ? `to ${proposal.target}` : 'as alias'} at line ${proposal.line})`);
+		} else {
+			output.log(`  note: ${buildPath} does not depend on ${label}, use --update-build to add it`);
+		}
+		return;
+	}
+}
+
+if (require.main === module) {
+	runCli(process.argv.slice(2)).then(code => {
+		process.exitCode = code;
+	}).catch(error => {
+		console.error(error instanceof Error ? error.message : error);
+		process.exitCode = 1;
+	});
+}
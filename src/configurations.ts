@@ -0,0 +1,221 @@
+import { createEcus } from './ecus';
+import { ConversationState, MotionWiseConfig, MotionWiseConfiguration } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Raw configuration entries from one source (workspace file or settings) */
+export interface ConfigurationSource {
+	/** Shown in error messages, e.g. `.vscode/dfu-configurations.json` */
+	name: string;
+	entries: unknown;
+}
+
+/** Merged registry and the problems found while reading its sources */
+export interface ConfigurationRegistry {
+	configurations: MotionWiseConfiguration[];
+	errors: string[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Default location of the workspace configuration registry (overridable via `dfu.motionwise.configurationsFile`) */
+export const CONFIGURATIONS_FILE = '.vscode/dfu-configurations.json';
+
+/** Configuration offered when none of the known layouts applies; always listed last */
+export const GENERIC_CONFIGURATION: MotionWiseConfiguration = {
+	id: 'generic',
+	label: 'Generic/custom configuration',
+	integrationPath: '1800-EcuIntegration/[PLATFORM]/core/development/dmiu',
+	detect: [],
+	platform: 'posix',
+	ecuCount: 1
+};
+
+/** Configurations known without any workspace file or settings */
+export const BUILTIN_CONFIGURATIONS: MotionWiseConfiguration[] = [
+	{
+		id: 'cp-rdb2',
+		label: 'CP on RDB2 board',
+		board: 'RDB2',
+		integrationPath: '1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu',
+		detect: ['**/1800-ecu-int-rdb2-cp-a/**'],
+		platform: 'posix',
+		ecuCount: 1
+	},
+	{
+		id: 'cp-rdb3',
+		label: 'CP on RDB3 board',
+		board: 'RDB3',
+		integrationPath: '1800-EcuIntegration/RDB3/1800-ecu-int-rdb3-cp-a/core/development/dmiu',
+		detect: ['**/1800-ecu-int-rdb3-cp-a/**'],
+		platform: 'posix',
+		ecuCount: 1
+	},
+	{
+		id: 'sv62',
+		label: 'SV62 (HCP2MEJ) on RDB2',
+		board: 'RDB2',
+		integrationPath: '1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu',
+		detect: ['**/1710-handwritten-config-sv62/**'],
+		platform: 'posix',
+		ecuCount: 1
+	},
+	{
+		id: 's324sdv',
+		label: 's324sdv (SDV) on RDB2',
+		board: 'RDB2',
+		integrationPath: '1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu',
+		detect: ['**/1710-handwritten-config-s324sdv/**'],
+		platform: 'posix',
+		ecuCount: 2
+	},
+	{
+		id: 'ch63_2',
+		label: 'CH63_2 configuration',
+		integrationPath: 'configs/projects/CH63_2/deployments/1710-handwritten-config-ch63_2/core/development/dmiu',
+		detect: ['**/1710-handwritten-config-ch63_2/**'],
+		platform: 'posix',
+		ecuCount: 1
+	}
+];
+
+const CONFIGURATION_ID = /^[A-Za-z0-9_.-]+$/;
+
+/**********************************************************************************************************************
+ *  REGISTRY
+ *********************************************************************************************************************/
+
+/**
+ * Merges configuration sources over the built-in configurations, later sources taking precedence.
+ * An entry with a known id only overrides the fields it sets; an entry with a new id needs an `integrationPath`.
+ * A source may be an array of entries or an object with a `configurations` array. Invalid entries are skipped
+ * and reported in `errors`.
+ */
+export function buildConfigurationRegistry(sources: ConfigurationSource[]): ConfigurationRegistry {
+	const configurations = [...BUILTIN_CONFIGURATIONS, GENERIC_CONFIGURATION].map(config => ({ ...config }));
+	const errors: string[] = [];
+
+	for (const source of sources) {
+		const entries = Array.isArray(source.entries) ? source.entries : (source.entries as { configurations?: unknown })?.configurations;
+		if (!Array.isArray(entries)) {
+			errors.push(`${source.name}: expected an array of configurations`);
+			continue;
+		}
+
+		entries.forEach((entry, i) => {
+			const error = validateConfigurationEntry(entry);
+			if (error) {
+				errors.push(`${source.name}: entry ${i + 1}: ${error}`);
+				return;
+			}
+			const override = entry as Partial<MotionWiseConfiguration> & { id: string };
+			const existing = configurations.find(config => config.id === override.id);
+			if (existing) {
+				Object.assign(existing, override);
+			} else if (override.integrationPath === undefined) {
+				errors.push(`${source.name}: entry ${i + 1}: new configuration "${override.id}" needs an integrationPath`);
+			} else {
+				configurations.push({ label: override.id, detect: [], platform: 'posix', ecuCount: 1, ...override, integrationPath: override.integrationPath });
+			}
+		});
+	}
+
+	// Generic stays the last menu entry, whatever the sources add
+	const generic = configurations.findIndex(config => config.id === GENERIC_CONFIGURATION.id);
+	configurations.push(...configurations.splice(generic, 1));
+	return { configurations, errors };
+}
+
+/** Maps a menu number or configuration id to a configuration */
+export function selectConfiguration(input: string, configurations: MotionWiseConfiguration[]): MotionWiseConfiguration | undefined {
+	const trimmed = input.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return configurations[Number(trimmed) - 1];
+	}
+	return findConfiguration(trimmed, configurations);
+}
+
+/** Looks up a configuration by id (case-insensitive) */
+export function findConfiguration(id: MotionWiseConfig, configurations: MotionWiseConfiguration[]): MotionWiseConfiguration | undefined {
+	return configurations.find(config => config.id.toLowerCase() === id.toLowerCase());
+}
+
+/**
+ * Takes over the integration path, default platform, ECUs and build target of a configuration into the wizard state.
+ * Answers of ECUs of the previous configuration are dropped.
+ */
+export function applyConfiguration(state: ConversationState, config: MotionWiseConfiguration): ConversationState {
+	state.motionwiseConfig = config.id;
+	state.integrationPath = config.integrationPath;
+	state.platform = config.platform;
+	if (config.buildTarget) {
+		state.buildTarget = config.buildTarget;
+	} else {
+		delete state.buildTarget;
+	}
+	delete state.currentEcu;
+	if (config.ecuCount > 1) {
+		state.ecus = createEcus(config.ecuCount);
+	} else {
+		delete state.ecus;
+	}
+	return state;
+}
+
+/** Markdown table of the configurations and their integration paths (the generic fallback is omitted) */
+export function renderConfigurationTable(configurations: MotionWiseConfiguration[]): string {
+	const rows = configurations
+		.filter(config => config.id !== GENERIC_CONFIGURATION.id)
+		.map(config => `| ${config.id} | ${config.board ?? '-'} | ${config.platform.toUpperCase()} | ${config.ecuCount} | \`${config.integrationPath}\` |`);
+	const multiEcu = configurations.filter(config => config.ecuCount > 1).map(config => config.id);
+
+	return [
+		'### DMIU Integration Paths by Configuration',
+		'',
+		'| Configuration | Board | Platform | ECUs | Integration Path |',
+		'|--------------|-------|----------|------|------------------|',
+		...rows,
+		...(multiEcu.length > 0 ? ['', `**Note:** ${multiEcu.join(', ')} deploy${multiEcu.length === 1 ? 's' : ''} more than one ECU, every ECU gets its own integration below the integration path.`] : [])
+	].join('\n');
+}
+
+/**********************************************************************************************************************
+ *  VALIDATION
+ *********************************************************************************************************************/
+
+/** Returns an error message for a malformed configuration entry */
+function validateConfigurationEntry(entry: unknown): string | undefined {
+	if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+		return 'expected an object';
+	}
+	const candidate = entry as { [key: string]: unknown };
+	if (typeof candidate.id !== 'string' || !CONFIGURATION_ID.test(candidate.id)) {
+		return '"id" must be a non-empty string of letters, digits, "_", "." or "-"';
+	}
+	for (const key of ['label', 'board', 'integrationPath', 'buildTarget'] as const) {
+		if (candidate[key] !== undefined && (typeof candidate[key] !== 'string' || candidate[key] === '')) {
+			return `"${key}" must be a non-empty string`;
+		}
+	}
+	if (candidate.detect !== undefined && !(Array.isArray(candidate.detect) && candidate.detect.every(glob => typeof glob === 'string'))) {
+		return '"detect" must be an array of glob strings';
+	}
+	if (candidate.markers !== undefined && !(Array.isArray(candidate.markers) && candidate.markers.every(marker => typeof marker === 'string' && marker !== ''))) {
+		return '"markers" must be an array of non-empty strings';
+	}
+	if (candidate.platform !== undefined && candidate.platform !== 'posix' && candidate.platform !== 'autosar') {
+		return '"platform" must be "posix" or "autosar"';
+	}
+	if (candidate.ecuCount !== undefined && !(Number.isInteger(candidate.ecuCount) && (candidate.ecuCount as number) >= 1)) {
+		return '"ecuCount" must be a positive integer';
+	}
+	const unknown = Object.keys(candidate).filter(key => !['id', 'label', 'board', 'integrationPath', 'detect', 'markers', 'platform', 'ecuCount', 'buildTarget'].includes(key));
+	if (unknown.length > 0) {
+		return `unknown field "${unknown[0]}"`;
+	}
+	return undefined;
+}
@@ -0,0 +1,219 @@
+import { AdapterRole, classifyType, inferAdapter, matchEnumLevels, ValueKind } from './adapters';
+import { ParsedCFile } from './cParser';
+import { CEnumDeclaration, CFunctionDeclaration, CTypedefDeclaration } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A function suggested for a wizard step, with the reasons it was ranked */
+export interface FunctionCandidate {
+	declaration: CFunctionDeclaration;
+	score: number;
+	reasons: string[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** DMIU core and generated integration functions are never candidates for their own adapters */
+const EXCLUDED_FUNCTIONS = /^(DMIU_|Dmiu_|DmiuInt_|DmiuDaemon_)/;
+
+/** Minimum score for a function to be suggested */
+const MIN_SCORE: Record<AdapterRole, number> = { memory: 5, dataset: 5, alternative: 5 };
+
+/** Typedef chains longer than this are treated as unresolvable (guards against cycles) */
+const MAX_TYPEDEF_DEPTH = 8;
+
+/**********************************************************************************************************************
+ *  DECLARATION INDEX
+ *********************************************************************************************************************/
+
+/**
+ * Index of the C declarations found in the workspace headers, keyed by file so single files can be updated.
+ */
+export class DeclarationIndex {
+	private readonly files = new Map<string, ParsedCFile>();
+
+	/** Adds or replaces the declarations of one file */
+	setFile(path: string, parsed: ParsedCFile): void {
+		this.files.set(path, parsed);
+	}
+
+	deleteFile(path: string): void {
+		this.files.delete(path);
+	}
+
+	get fileCount(): number {
+		return this.files.size;
+	}
+
+	get functions(): CFunctionDeclaration[] {
+		return [...this.files.values()].flatMap(file => file.functions);
+	}
+
+	get enums(): CEnumDeclaration[] {
+		return [...this.files.values()].flatMap(file => file.enums);
+	}
+
+	get typedefs(): CTypedefDeclaration[] {
+		return [...this.files.values()].flatMap(file => file.typedefs);
+	}
+
+	findFunction(name: string): CFunctionDeclaration | undefined {
+		return this.functions.find(fn => fn.name === name);
+	}
+
+	/**
+	 * Enums referenced by a declaration's return type or parameter types, after resolving typedefs.
+	 * Enum typedefs are returned under the name used in the declaration so adapters can match them.
+	 */
+	enumsFor(declaration: CFunctionDeclaration): CEnumDeclaration[] {
+		const enums = this.enums;
+		const result: CEnumDeclaration[] = [];
+		for (const type of [declaration.returnType, ...declaration.parameters.map(p => p.type)]) {
+			const name = baseTypeName(type);
+			const target = baseTypeName(this.resolveType(name));
+			const found = enums.find(e => e.name === target);
+			if (found && !result.some(e => e.name === name)) {
+				result.push({ ...found, name });
+			}
+		}
+		return result;
+	}
+
+	/** Follows typedefs (keeping pointers and qualifiers) until a builtin, enum or struct type is reached */
+	resolveType(type: string): string {
+		const typedefs = this.typedefs;
+		const enums = this.enums;
+		let resolved = type;
+
+		for (let depth = 0; depth < MAX_TYPEDEF_DEPTH; depth++) {
+			const name = baseTypeName(resolved);
+			if (enums.some(e => e.name === name)) {
+				break;
+			}
+			const typedef = typedefs.find(t => t.name === name);
+			if (!typedef || typedef.type === 'struct' || typedef.type === 'union') {
+				break;
+			}
+			resolved = resolved.replace(new RegExp(`\\b${name}\\b`), typedef.type);
+		}
+		return resolved;
+	}
+
+	/** Classifies a type after typedef resolution */
+	classify(type: string): ValueKind | undefined {
+		return classifyType(this.resolveType(type), this.enums);
+	}
+
+	/** Suggests functions for a wizard step, best match first */
+	rankCandidates(role: AdapterRole, limit = 5): FunctionCandidate[] {
+		const seen = new Set<string>();
+		const candidates: FunctionCandidate[] = [];
+
+		for (const declaration of this.functions) {
+			if (EXCLUDED_FUNCTIONS.test(declaration.name) || seen.has(declaration.name)) {
+				continue;
+			}
+			seen.add(declaration.name);
+
+			const candidate = role === 'memory' ? this.scoreMemory(declaration) : this.scoreLevelSource(declaration, role);
+			if (candidate.score >= MIN_SCORE[role]) {
+				candidates.push(candidate);
+			}
+		}
+
+		return candidates
+			.sort((a, b) => b.score - a.score || a.declaration.name.localeCompare(b.declaration.name))
+			.slice(0, limit);
+	}
+
+	private scoreMemory(declaration: CFunctionDeclaration): FunctionCandidate {
+		const candidate: FunctionCandidate = { declaration, score: 0, reasons: [] };
+		const returnType = this.resolveType(declaration.returnType);
+		if (classifyType(returnType, this.enums) !== 'pointer') {
+			return candidate;
+		}
+
+		if (baseTypeName(returnType) === 'Dt_RECORD_DebugUnlockingStruct_DMIU') {
+			addReason(candidate, 10, 'returns Dt_RECORD_DebugUnlockingStruct_DMIU*');
+		} else if (/^(const )?void\*$/.test(returnType)) {
+			addReason(candidate, 4, 'returns void*');
+		} else {
+			addReason(candidate, 1, `returns ${declaration.returnType}`);
+		}
+		if (/shm|map|alloc|mem|region|buffer|ptr/i.test(declaration.name)) {
+			addReason(candidate, 3, 'name suggests memory mapping');
+		}
+		if (/dmiu|dfu|debug|unlock/i.test(declaration.name)) {
+			addReason(candidate, 3, 'name refers to DMIU/debug');
+		}
+		if (declaration.parameters.length === 0) {
+			addReason(candidate, 1, 'takes no arguments');
+		}
+		return candidate;
+	}
+
+	private scoreLevelSource(declaration: CFunctionDeclaration, role: 'dataset' | 'alternative'): FunctionCandidate {
+		const candidate: FunctionCandidate = { declaration, score: 0, reasons: [] };
+		const resolved: CFunctionDeclaration = {
+			...declaration,
+			returnType: this.resolveType(declaration.returnType),
+			parameters: declaration.parameters.map(p => ({ ...p, type: this.resolveType(p.type) }))
+		};
+		const inference = inferAdapter(declaration.name, resolved, { role }, this.enums);
+		if (inference.error || inference.questions.includes('role') || inference.questions.includes('valueKind') || !inference.spec) {
+			return candidate;
+		}
+
+		const spec = inference.spec;
+		addReason(candidate, 2, spec.outParameter ? `reports ${spec.valueKind} via out-parameter` : `returns ${spec.valueKind}`);
+
+		const members = this.enums.find(e => e.name === baseTypeName(spec.outParameter ? spec.outParameter.type : resolved.returnType))?.members ?? [];
+		const levels = matchEnumLevels(members);
+		const returnsLevel = baseTypeName(resolved.returnType) === 'e_Dmiu_Debug_Level' || (levels.level1 !== undefined && levels.level2 !== undefined);
+
+		if (role === 'dataset') {
+			if (/read|get|load/i.test(declaration.name)) {
+				addReason(candidate, 2, 'name suggests reading');
+			}
+			if (/DS|NvM|Nvm/.test(declaration.name) || /dataset|per_|persist|element/i.test(declaration.name)) {
+				addReason(candidate, 3, 'reads a dataset element');
+			}
+			if (spec.outParameter && spec.returnType === 'Std_ReturnType') {
+				addReason(candidate, 1, 'reports success as Std_ReturnType');
+			}
+		} else {
+			if (returnsLevel) {
+				addReason(candidate, 4, 'returns a debug level');
+			}
+			if (/level|override|unlock/i.test(declaration.name)) {
+				addReason(candidate, 3, 'name suggests a debug level source');
+			}
+		}
+		if (/dmiu|dfu|debug/i.test(declaration.name)) {
+			addReason(candidate, 3, 'name refers to DMIU/debug');
+		}
+		if (inference.questions.includes('arguments')) {
+			addReason(candidate, -1, 'needs arguments');
+		}
+		return candidate;
+	}
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Strips qualifiers, `enum` and pointer stars: `const MyType_t*` → `MyType_t` */
+function baseTypeName(type: string): string {
+	return type.replace(/\b(const|volatile|enum)\b|\*/g, '').trim();
+}
+
+/** Adds a scored reason to a ranked candidate */
+export function addReason(candidate: { score: number; reasons: string[] }, score: number, reason: string): void {
+	candidate.score += score;
+	candidate.reasons.push(reason);
+}
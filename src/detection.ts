@@ -0,0 +1,125 @@
+import { GENERIC_CONFIGURATION } from './configurations';
+import { MotionWiseConfiguration } from './types';
+import { SourceFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Why a configuration is considered part of the workspace */
+export interface DetectionEvidence {
+	/** `bazel`: referenced by the top-level build, `sysdef`: has a 1900-sysdef input, `folder`: its repo is checked out */
+	source: 'bazel' | 'sysdef' | 'folder';
+	/** Workspace-relative path of the file or directory */
+	path: string;
+	/** 1-based line, for build file references */
+	line?: number;
+	/** The matching build file line or path */
+	text: string;
+}
+
+/** A configuration and the evidence found for it */
+export interface DetectedConfiguration {
+	configuration: MotionWiseConfiguration;
+	evidence: DetectionEvidence[];
+}
+
+/** Workspace facts used for detection */
+export interface DetectionInput {
+	/** Top-level build files, i.e. `1500-build/BUILD.bazel` */
+	buildFiles: SourceFile[];
+	/** Workspace-relative paths of files below `1900-sysdef` */
+	sysdefPaths: string[];
+	/** First file matched by a configuration's detection globs, by configuration id */
+	folderMatches: Record<string, string>;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Evidence sources from strongest to weakest; only the strongest source with matches decides */
+const SOURCE_ORDER: DetectionEvidence['source'][] = ['bazel', 'sysdef', 'folder'];
+
+/**********************************************************************************************************************
+ *  DETECTION
+ *********************************************************************************************************************/
+
+/**
+ * Determines which configurations are built in the workspace.
+ * A reference from the top-level Bazel build wins over a 1900-sysdef input, which wins over a checked-out repo
+ * folder. Several results mean the detection is ambiguous and the user has to choose.
+ */
+export function detectConfigurations(input: DetectionInput, configurations: MotionWiseConfiguration[]): DetectedConfiguration[] {
+	const detected = configurations
+		.filter(config => config.id !== GENERIC_CONFIGURATION.id)
+		.map(configuration => ({ configuration, evidence: collectEvidence(configuration, input) }))
+		.filter(result => result.evidence.length > 0);
+
+	for (const source of SOURCE_ORDER) {
+		const matches = detected.filter(result => result.evidence.some(evidence => evidence.source === source));
+		if (matches.length > 0) {
+			return matches;
+		}
+	}
+	return [];
+}
+
+/**
+ * Names that identify a configuration in build labels and sysdef paths: its id, its explicit markers and the
+ * repository names in its detection globs (e.g. `1800-ecu-int-rdb2-cp-a` from `**\/1800-ecu-int-rdb2-cp-a/**`).
+ */
+export function configurationMarkers(config: MotionWiseConfiguration): string[] {
+	const repositories = config.detect.flatMap(glob => glob.split('/').filter(segment => segment && !/[*?{}[\]]/.test(segment)));
+	return [...new Set([config.id, ...(config.markers ?? []), ...repositories].map(marker => marker.toLowerCase()))];
+}
+
+function collectEvidence(config: MotionWiseConfiguration, input: DetectionInput): DetectionEvidence[] {
+	const patterns = configurationMarkers(config).map(markerPattern);
+	const matches = (text: string) => patterns.some(pattern => pattern.test(text));
+	const evidence: DetectionEvidence[] = [];
+
+	for (const file of input.buildFiles) {
+		stripBazelComments(file.text).split('\n').forEach((line, i) => {
+			const strings = line.match(/"[^"\n]*"|'[^'\n]*'/g) ?? [];
+			if (strings.some(matches)) {
+				evidence.push({ source: 'bazel', path: file.path, line: i + 1, text: line.trim() });
+			}
+		});
+	}
+
+	// One sysdef entry is enough evidence, the matching directory is reported instead of every file in it
+	const sysdef = input.sysdefPaths.find(path => matches(afterSysdef(path)));
+	if (sysdef) {
+		const segments = sysdef.split('/');
+		const first = segments.indexOf('1900-sysdef') + 1;
+		const match = segments.findIndex((segment, i) => i >= first && matches(segment));
+		evidence.push({ source: 'sysdef', path: segments.slice(0, match + 1).join('/'), text: sysdef });
+	}
+
+	const folder = input.folderMatches[config.id];
+	if (folder) {
+		evidence.push({ source: 'folder', path: folder, text: folder });
+	}
+	return evidence;
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Matches a marker as a whole name, not as part of a longer identifier or repo name */
+function markerPattern(marker: string): RegExp {
+	return new RegExp(`(?<![\\w-])${marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`, 'i');
+}
+
+/** Blanks `#` comments outside string literals, keeping line numbers */
+function stripBazelComments(text: string): string {
+	return text.replace(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|#[^\n]*/g, match => match.startsWith('#') ? '' : match);
+}
+
+/** Path below the 1900-sysdef directory */
+function afterSysdef(path: string): string {
+	const index = path.indexOf('1900-sysdef/');
+	return index < 0 ? path : path.slice(index + '1900-sysdef/'.length);
+}
@@ -0,0 +1,266 @@
+import { lineAt } from './cParser';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A section of documentation that can answer a question on its own */
+export interface DocPassage {
+	/** Heading trail or documented symbol, e.g. `Initialization › Config struct` */
+	title: string;
+	text: string;
+	/** Workspace-relative file, undefined for the built-in knowledge */
+	path?: string;
+	/** 1-based line the passage starts on */
+	line: number;
+	/** Where the passage comes from, for the source list: the file path or e.g. `built-in DFU knowledge` */
+	source: string;
+}
+
+/** A passage selected for a question, with its relevance score */
+export interface RankedPassage {
+	passage: DocPassage;
+	score: number;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Markdown and Doxygen files of the DMIU core repository */
+export const CORE_DOCUMENTATION_GLOB = '**/1200-Core/**/dmiu/**/*.{md,markdown,dox,h}';
+
+/** Passages passed to the model for one question */
+export const MAX_PASSAGES = 5;
+
+/** Passages scoring below this share of the best passage only repeat a common word of the question */
+const MIN_RELATIVE_SCORE = 0.3;
+
+/** Passages longer than this are cut when rendered, the source link leads to the rest */
+const MAX_PASSAGE_LINES = 40;
+
+/** BM25 parameters: term frequency saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Heading and symbol words count as often as this many body words */
+const TITLE_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is',
+	'it', 'me', 'my', 'of', 'on', 'or', 'should', 'the', 'this', 'to', 'what', 'when', 'where', 'which', 'who', 'why',
+	'with', 'we', 'you'
+]);
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i;
+
+/** Doxygen blocks: `/** ... *\/` and `/*! ... *\/` (not `/*****` banners), or runs of `///` and `//!` lines */
+const DOXYGEN_COMMENT = /\/\*[*!](?![*/])([\s\S]*?)\*\/|(?:^[ \t]*\/\/[/!].*(?:\n|$))+/gm;
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/** Passages of a documentation file: sections of markdown files, Doxygen comments of everything else */
+export function parseDocumentation(text: string, path: string): DocPassage[] {
+	return MARKDOWN_EXTENSIONS.test(path) ? splitMarkdown(text, path, path) : extractDoxygen(text, path);
+}
+
+/**
+ * Splits markdown into one passage per section. A passage is titled with the trail of headings above it and
+ * sections without text of their own (only subsections) are left out; headings inside code blocks do not count.
+ */
+export function splitMarkdown(text: string, source: string, path?: string): DocPassage[] {
+	const passages: DocPassage[] = [];
+	const headings: string[] = [];
+	const lines = text.split('\n');
+	let body: string[] = [];
+	let start = 1;
+	let fence: string | undefined;
+
+	const flush = () => {
+		const content = body.join('\n').trim();
+		if (content) {
+			passages.push({ title: headings.filter(Boolean).join(' › ') || fileName(source), text: content, path, line: start, source });
+		}
+		body = [];
+	};
+
+	lines.forEach((line, i) => {
+		const fenceMatch = /^[ \t]*(```|~~~)/.exec(line);
+		if (fenceMatch) {
+			fence = fence === undefined ? fenceMatch[1] : fence === fenceMatch[1] ? undefined : fence;
+		}
+		const heading = fence === undefined && !fenceMatch ? /^(#{1,6})[ \t]+(.*?)[ \t#]*$/.exec(line) : null;
+		if (!heading) {
+			body.push(line);
+			return;
+		}
+		flush();
+		const level = heading[1].length;
+		headings.length = level;
+		headings[level - 1] = heading[2].replace(/[*_`]/g, '');
+		start = i + 1;
+	});
+	flush();
+	return passages;
+}
+
+/**
+ * Doxygen comments of a C header or `.dox` file. Each comment is titled with the page or section it opens, or the
+ * symbol declared below it; comments without text (e.g. banners) are left out.
+ */
+export function extractDoxygen(text: string, path: string): DocPassage[] {
+	const passages: DocPassage[] = [];
+	for (const match of text.matchAll(DOXYGEN_COMMENT)) {
+		const body = match[1] ?? match[0].replace(/^[ \t]*\/\/[/!]/gm, '');
+		const content = cleanComment(body.replace(/^<[ \t]*/, ''));
+		if (!/\w/.test(content.text)) {
+			continue;
+		}
+		// `/**<` documents the member in front of it, other comments the declaration below
+		const declaration = body.startsWith('<')
+			? text.slice(text.lastIndexOf('\n', match.index) + 1, match.index)
+			: text.slice(match.index + match[0].length).split('\n').find(line => line.trim() !== '') ?? '';
+		passages.push({
+			title: content.title ?? declaredSymbol(declaration) ?? fileName(path),
+			text: content.text,
+			path,
+			line: lineAt(text, match.index),
+			source: path
+		});
+	}
+	return passages;
+}
+
+/**
+ * Ranks passages for a question with BM25 over their words, heading words weighted higher. Identifiers are split
+ * into their words, so `Dmiu_IsDebugLevel2Active` matches "debug level 2". Only passages close to the best one are
+ * kept, at most `max`.
+ */
+export function rankPassages(question: string, passages: DocPassage[], max = MAX_PASSAGES): RankedPassage[] {
+	const terms = [...new Set(tokenize(question))];
+	if (terms.length === 0 || passages.length === 0) {
+		return [];
+	}
+
+	const documents = passages.map(passage => termCounts([
+		...tokenize(passage.text),
+		...Array<string[]>(TITLE_WEIGHT).fill(tokenize(passage.title)).flat()
+	]));
+	const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length;
+	const idf = new Map(terms.map(term => {
+		const frequency = documents.filter(document => document.counts.has(term)).length;
+		return [term, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5))];
+	}));
+
+	const ranked = passages
+		.map((passage, i) => {
+			const { counts, length } = documents[i];
+			const score = terms.reduce((sum, term) => {
+				const frequency = counts.get(term) ?? 0;
+				const saturation = frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+				return sum + idf.get(term)! * saturation;
+			}, 0);
+			return { passage, score };
+		})
+		.filter(candidate => candidate.score > 0)
+		.sort((a, b) => b.score - a.score);
+	const best = ranked[0]?.score ?? 0;
+	return ranked.filter(candidate => candidate.score >= best * MIN_RELATIVE_SCORE).slice(0, max);
+}
+
+/**
+ * Numbered passages as model knowledge, one `## ` section each so the least relevant ones are dropped first when
+ * the model's input limit is reached.
+ */
+export function renderPassages(ranked: RankedPassage[]): string {
+	return ranked.map(({ passage }, i) => `## [${i + 1}] ${passage.title} (${describeSource(passage)})\n\n${excerpt(passage)}\n`).join('\n');
+}
+
+/** `path:line` of a workspace passage, the source name of built-in ones */
+export function describeSource(passage: DocPassage): string {
+	return passage.path ? `${passage.path}:${passage.line}` : passage.source;
+}
+
+/** Passage text cut to `MAX_PASSAGE_LINES`, keeping code blocks closed */
+export function excerpt(passage: DocPassage): string {
+	const lines = passage.text.split('\n');
+	if (lines.length <= MAX_PASSAGE_LINES) {
+		return passage.text;
+	}
+	const kept = lines.slice(0, MAX_PASSAGE_LINES);
+	const openFence = kept.filter(line => /^[ \t]*(```|~~~)/.test(line)).length % 2 === 1;
+	return [...kept, ...(openFence ? ['```'] : []), '…'].join('\n');
+}
+
+/** Workspace-relative glob of the documentation files in an extra folder from the settings */
+export function documentationGlob(folder: string): string {
+	const base = folder.trim().replace(/\\/g, '/').replace(/^\.\/|\/+$/g, '');
+	return `${base}/**/*.{md,markdown,dox,h}`;
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/**
+ * Lowercase words of a text: identifiers are split at underscores, case changes and digits, plural `s` is removed
+ * and stop words are left out. Single digits are kept, they name the debug levels.
+ */
+function tokenize(text: string): string[] {
+	const words = text
+		.replace(/([a-z])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.replace(/([A-Za-z])(\d)/g, '$1 $2')
+		.replace(/(\d)([A-Za-z])/g, '$1 $2')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/);
+	return words
+		.filter(word => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word))
+		.map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+function termCounts(words: string[]): { counts: Map<string, number>; length: number } {
+	const counts = new Map<string, number>();
+	for (const word of words) {
+		counts.set(word, (counts.get(word) ?? 0) + 1);
+	}
+	return { counts, length: words.length };
+}
+
+/** Comment text without the leading `*` of each line; `\page`/`\section` titles and `\brief` markers are taken out */
+function cleanComment(body: string): { title?: string; text: string } {
+	let title: string | undefined;
+	const text = body
+		.split('\n')
+		.map(line => line.replace(/^[ \t]*\*?[ \t]?/, '').trimEnd())
+		.filter(line => {
+			const page = /^[\\@]mainpage\b[ \t]*(.*)$/.exec(line) ?? /^[\\@](?:page|section|subsection|defgroup)[ \t]+(\w+)[ \t]*(.*)$/.exec(line);
+			if (page) {
+				title ??= page.at(-1) || page[1];
+				return false;
+			}
+			return !/^[\\@](file|ingroup|addtogroup|\{|\})\b/.test(line);
+		})
+		.map(line => line
+			.replace(/[\\@](brief|details)[ \t]*/g, '')
+			.replace(/[\\@]param(?:\[[\w,]+\])?[ \t]+(\w+)/g, 'Parameter `$1`:')
+			.replace(/[\\@]returns?\b/g, 'Returns:'))
+		.join('\n')
+		.trim();
+	return { title, text };
+}
+
+/** Symbol declared on a line: macro, function, struct/enum/union tag or variable */
+function declaredSymbol(line: string): string | undefined {
+	const match = /^\s*#\s*define\s+(\w+)/.exec(line)
+		?? /(\w+)\s*\(/.exec(line)
+		?? /\b(?:struct|enum|union)\s+(\w+)/.exec(line)
+		?? /(\w+)\s*(?:\[[^\]]*\]\s*)?[;=]/.exec(line);
+	return match?.[1];
+}
+
+function fileName(path: string): string {
+	return path.slice(path.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,84 @@
+import { bazelPackageLabel } from './bazel';
+import { COMMON_LIBRARY_TARGET, generateCommonFiles, generateIntegrationFiles, GeneratorOptions } from './templates';
+import { ConversationState, EcuAnswers, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Generated files of one integration directory */
+export interface IntegrationDirectory {
+	/** Workspace-relative directory, the integration path or one of its ECU or `common` subdirectories */
+	path: string;
+	/** Subdirectory of the integration path (`common`, `ecu1`, ...), empty for single-ECU integrations */
+	subdirectory: string;
+	files: GeneratedFile[];
+	/** Completed state of the integration, undefined for the shared library (it has no target of its own in 1500-build) */
+	state?: ConversationState;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Directory below the integration path holding the code shared by the ECUs */
+export const COMMON_DIRECTORY = 'common';
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/** ECUs of a configuration deploying `count` ECUs, named `ecu1`, `ecu2`, ... */
+export function createEcus(count: number): EcuAnswers[] {
+	return Array.from({ length: count }, (_, i) => ({ name: `ecu${i + 1}` }));
+}
+
+/** Whether the state belongs to a configuration with more than one ECU */
+export function isMultiEcu(state: ConversationState): boolean {
+	return (state.ecus?.length ?? 0) > 1;
+}
+
+/**
+ * Splits a completed multi-ECU state into one state per ECU, each with its own integration directory below the
+ * integration path. Answers not given for an ECU are those of the first ECU.
+ */
+export function ecuStates(state: ConversationState): ConversationState[] {
+	const { ecus, currentEcu: _currentEcu, suggestions: _suggestions, adapter: _adapter, ...shared } = state;
+	const commonLibrary = `${bazelPackageLabel(`${state.integrationPath}/${COMMON_DIRECTORY}`)}:${COMMON_LIBRARY_TARGET}`;
+
+	return (ecus ?? []).map(ecu => ({
+		...shared,
+		integrationPath: `${state.integrationPath}/${ecu.name}`,
+		memoryFunction: ecu.memoryFunction ?? state.memoryFunction,
+		datasetFunction: ecu.datasetFunction ?? state.datasetFunction,
+		alternativeFunction: ecu.alternativeFunction ?? state.alternativeFunction,
+		ecu: ecu.name,
+		commonLibrary
+	}));
+}
+
+/**
+ * Renders every integration directory of a completed wizard state: the integration path itself, or for multi-ECU
+ * configurations the shared library in `common` and one integration per ECU.
+ */
+export function generateIntegrationDirectories(state: ConversationState, options: GeneratorOptions = {}): IntegrationDirectory[] {
+	const integrationPath = state.integrationPath ?? '';
+	if (!isMultiEcu(state)) {
+		return [{ path: integrationPath, subdirectory: '', files: generateIntegrationFiles(state, options), state }];
+	}
+
+	const commonPath = `${integrationPath}/${COMMON_DIRECTORY}`;
+	const common: ConversationState = { step: 'complete', platform: state.platform, motionwiseConfig: state.motionwiseConfig, integrationPath: commonPath };
+	return [
+		{ path: commonPath, subdirectory: COMMON_DIRECTORY, files: generateCommonFiles(common, options) },
+		...ecuStates(state).map(ecu => ({ path: ecu.integrationPath!, subdirectory: ecu.ecu!, files: generateIntegrationFiles(ecu, options), state: ecu }))
+	];
+}
+
+/** Files of all directories with paths relative to the integration path, e.g. `ecu2/src/dmiu_integration.c` */
+export function flattenDirectories(directories: IntegrationDirectory[]): GeneratedFile[] {
+	return directories.flatMap(directory => directory.files.map(file => ({
+		...file,
+		relativePath: directory.subdirectory ? `${directory.subdirectory}/${file.relativePath}` : file.relativePath
+	})));
+}
@@ -1,32 +1,30 @@
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from 'vscode';
-
-/**********************************************************************************************************************
- *  TYPES AND INTERFACES
- *********************************************************************************************************************/
-
-/** Conversation state for multi-turn interactions */
-interface ConversationState {
-	step: 'initial' | 'config' | 'memory' | 'dataset' | 'alternative' | 'complete';
-	platform?: 'posix' | 'autosar';
-	motionwiseConfig?: MotionWiseConfig;
-	integrationPath?: string;
-	memoryFunction?: string;
-	datasetFunction?: string;
-	alternativeFunction?: string;
-}
-
-/** Workspace analysis results */
-interface WorkspaceAnalysis {
-	detectedPlatform?: 'posix' | 'autosar';
-	detectedMotionWiseConfig?: MotionWiseConfig;
-	memoryFunctions: string[];
-	datasetFunctions: string[];
-	existingIntegrationFiles: string[];
-}
-
-/** MotionWise configuration types */
-type MotionWiseConfig = 'cp-rdb2' | 'cp-rdb3' | 'sv62' | 's324sdv' | 'ch63_2' | 'generic' | 'unknown';
+import { CEnumDeclaration, CFunctionDeclaration, ConversationState, GeneratedFile, MotionWiseConfiguration, SourceFile, WorkspaceAnalysis } from './types';
+import { buildContext, daemonServiceFile, daemonUnitName, formatMagicFlag, GENERATOR_VERSION } from './templates';
+import { applyConfiguration, buildConfigurationRegistry, ConfigurationRegistry, ConfigurationSource, CONFIGURATIONS_FILE, findConfiguration, GENERIC_CONFIGURATION, renderConfigurationTable, selectConfiguration } from './configurations';
+import { ADAPTER_FUNCTION_NAMES, AdapterAnswers, AdapterQuestion, AdapterRole, AdapterSession, ValueKind, adapterIncludes, applyAdapterAnswer, inferAdapter, inputParameters, renderAdapter } from './adapters';
+import { ParsedCFile, parseCFile } from './cParser';
+import { TOP_LEVEL_BUILD_GLOB } from './bazel';
+import { DeclarationIndex, FunctionCandidate } from './declarationIndex';
+import { DetectedConfiguration, DetectionEvidence, detectConfigurations } from './detection';
+import { ANSWER_FIELDS, AnswerField, askedEcu, DfuChatMetadata, describeAnswers, editAnswer, isAnswered, nextEcu, previousStep, resolveSuggestion, restoreState, SAME_ANSWER, setAnswer } from './session';
+import { CheckResult, groupIntegrationFiles, validateIntegration } from './validation';
+import { AuditReport, auditDebugUsage, mentionsDebugApi, summarizeComponents } from './audit';
+import { decodeMagicFlags, LEVEL_LABELS, parseMagicFlagPair, renderDecoding } from './magicFlags';
+import { hoverMarkdown } from './hover';
+import { ChatModel, describeModelError, ModelSelector, modelSelectors, requestWithFallback } from './languageModel';
+import { applyUpgrade, exportAuditReport, findIntegrationDirectories, GeneratedFilePreviewProvider, inspectIntegration, IntegrationUpgrade, PREVIEW_SCHEME, previewUpgrade, insertPreOsInitialization, readGeneratorOptions, writeIntegrationFiles, writeTestHarness } from './fileWriter';
+import { compareVersions, upgradeChanges, UpgradeStatus } from './regeneration';
+import { HARNESS_DIRECTORY, HarnessBuild, planHarnessBuilds } from './testHarness';
+import { HarnessRunResult, runHarness } from './harnessRunner';
+import { buildIntegrationState, IntegrationAnswers } from './answers';
+import { COMMON_DIRECTORY, ecuStates, flattenDirectories, generateIntegrationDirectories, isMultiEcu } from './ecus';
+import { IndexCollection, IndexFileSystem, WorkspaceIndex } from './workspaceIndex';
+import { NVM_ANSWER_PREFIX, NvmBlock, nvmAnswer, NvmCandidate, parseNvmBlocks, rankNvmBlocks } from './nvm';
+import { closestPreOsFile, describePreOsInsertion, proposePreOsInsertion } from './preOs';
+import { mapsSharedMemory, SHM_CONFIG_HEADER } from './sharedMemory';
+import { CORE_DOCUMENTATION_GLOB, describeSource, DocPassage, documentationGlob, excerpt, parseDocumentation, rankPassages, RankedPassage, renderPassages, splitMarkdown } from './documentation';
 
 /**********************************************************************************************************************
  *  DFU KNOWLEDGE BASE
@@ -90,30 +88,83 @@ const MOTIONWISE_CONTEXT = `## MotionWise Platform Architecture
 - **1700-Configuration**: Generated configuration output
 - **1800-EcuIntegration** or **1710-handwritten-config**: Handwritten platform-specific code
 
-### DMIU Integration Paths by Configuration
+### Multi-ECU Configurations
+- Configurations such as s324sdv deploy more than one ECU, each ECU gets its own integration (\`ecu1/\`, \`ecu2/\`, ...) below the integration path
+- Magic flag conversion and OR logic shared by the ECUs live in \`common/\`
+`;
+
+/** Built-in knowledge as passages for documentation questions, next to the workspace documentation */
+const BUILT_IN_DOCUMENTATION: DocPassage[] = [
+	...splitMarkdown(DFU_KNOWLEDGE, 'built-in DFU knowledge'),
+	...splitMarkdown(MOTIONWISE_CONTEXT, 'built-in MotionWise context')
+];
 
-| Configuration | Board | Integration Path |
-|--------------|-------|------------------|
-| CP | RDB2 | \`1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu\` |
-| CP | RDB3 | \`1800-EcuIntegration/RDB3/1800-ecu-int-rdb3-cp-a/core/development/dmiu\` |
-| SV62 (HCP2MEJ) | RDB2 | \`1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu\` |
-| s324sdv (SDV) | RDB2 | \`1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu\` |
-| CH63_2 | - | \`configs/projects/CH63_2/deployments/1710-handwritten-config-ch63_2/core/development/dmiu\` |
+/** Integration directories of all MotionWise layouts (1800-EcuIntegration and 1710-handwritten-config repos) */
+const INTEGRATION_FILES_GLOB = '**/{1800-EcuIntegration,1710-handwritten-config-*}/**/dmiu/**/*.{c,h}';
 
-**Note:** s324sdv has two ECU configurations (corner case).
-`;
+/** Bazel packages of the integration directories, including the ECU directories of multi-ECU configurations */
+const INTEGRATION_BUILD_GLOB = '**/{1800-EcuIntegration,1710-handwritten-config-*}/**/dmiu/**/{BUILD,BUILD.bazel}';
+
+/** Chat participant id, also used to find this participant's turns in the chat history */
+const PARTICIPANT_ID = 'dfu.assistant';
+
+/** Command behind the "Write Files to Workspace" chat button */
+const WRITE_FILES_COMMAND = 'dfu.writeIntegrationFiles';
+
+/** Command behind the "Write Test Harness" chat button */
+const WRITE_HARNESS_COMMAND = 'dfu.writeTestHarness';
+
+/** Command palette command decoding a MagicFlagA/MagicFlagB pair */
+const DECODE_MAGIC_FLAGS_COMMAND = 'dfu.decodeMagicFlags';
 
-/** Integration path mapping for MotionWise configs */
-const MOTIONWISE_PATHS: Record<MotionWiseConfig, string> = {
-	'cp-rdb2': '1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu',
-	'cp-rdb3': '1800-EcuIntegration/RDB3/1800-ecu-int-rdb3-cp-a/core/development/dmiu',
-	'sv62': '1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu',
-	's324sdv': '1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu',
-	'ch63_2': 'configs/projects/CH63_2/deployments/1710-handwritten-config-ch63_2/core/development/dmiu',
-	'generic': '1800-EcuIntegration/[PLATFORM]/core/development/dmiu',
-	'unknown': '1800-EcuIntegration/[PLATFORM]/core/development/dmiu'
+/** Command behind the "Export Table" button of `/audit` */
+const EXPORT_AUDIT_COMMAND = 'dfu.exportAuditReport';
+
+/** Commands behind the "Preview Merge" and "Apply Upgrade" buttons of `/upgrade` */
+const PREVIEW_UPGRADE_COMMAND = 'dfu.previewUpgrade';
+const APPLY_UPGRADE_COMMAND = 'dfu.applyUpgrade';
+
+/** Command behind the "Insert Initialization" button proposed for PreOS.c */
+const INSERT_PREOS_COMMAND = 'dfu.insertPreOsInitialization';
+
+/** Sources scanned by `/audit` */
+const AUDIT_SOURCE_GLOB = '**/*.{c,h,cc,cpp,hpp}';
+
+/** Left out of every workspace search */
+const EXCLUDE_GLOB = '**/node_modules/**';
+
+/** Workspace index collections; text collections keep the whole file */
+const INTEGRATION_SOURCES: IndexCollection<string> = { glob: INTEGRATION_FILES_GLOB, label: 'integration files', parse: text => text };
+const INTEGRATION_BUILD_FILES: IndexCollection<string> = { glob: INTEGRATION_BUILD_GLOB, label: 'integration build files', parse: text => text };
+const TOP_LEVEL_BUILD_FILES: IndexCollection<string> = { glob: TOP_LEVEL_BUILD_GLOB, label: '1500-build files', parse: text => text };
+const PREOS_SOURCES: IndexCollection<string> = { glob: '**/PreOS.c', label: 'PreOS.c files', parse: text => text };
+const HEADERS: IndexCollection<ParsedCFile> = { glob: '**/*.h', label: 'headers', parse: parseCFile };
+
+/** ARXML ECU configuration, reduced to its NvM block descriptors; only read for AUTOSAR integrations */
+const NVM_CONFIGURATIONS: IndexCollection<NvmBlock[]> = { glob: '**/*.arxml', label: 'ARXML files', parse: parseNvmBlocks };
+
+/** main.c files, reduced to whether they belong to a POSIX build */
+const MAIN_SOURCES: IndexCollection<boolean> = {
+	glob: '**/main.c',
+	label: 'main.c files',
+	parse: text => text.includes('PFSW_BUILD_OS_POSIX') || text.includes('ShmM')
 };
 
+/** Audited sources, only the text of files mentioning the client API or magic flags is kept */
+const AUDIT_SOURCES: IndexCollection<string> = { glob: AUDIT_SOURCE_GLOB, label: 'C/C++ sources', parse: text => mentionsDebugApi(text) ? text : '' };
+
+/** Sources of processes that may map the daemon's shared memory, only the text of files mapping a segment is kept */
+const SHM_CLIENT_SOURCES: IndexCollection<string> = { glob: '**/*.{c,cc,cpp}', label: 'shared memory clients', parse: text => mapsSharedMemory(text) ? text : '' };
+
+/** Markdown and Doxygen documentation of the DMIU core, split into passages */
+const CORE_DOCUMENTATION: IndexCollection<DocPassage[]> = { glob: CORE_DOCUMENTATION_GLOB, label: 'DMIU core documentation', parse: parseDocumentation };
+
+/** 1900-sysdef inputs, only their paths are used */
+const SYSDEF_GLOB = '**/1900-sysdef/**';
+
+/** Collections every command needs, indexed in the background after activation */
+const STARTUP_COLLECTIONS: IndexCollection<unknown>[] = [INTEGRATION_SOURCES, MAIN_SOURCES, INTEGRATION_BUILD_FILES, TOP_LEVEL_BUILD_FILES, PREOS_SOURCES, HEADERS];
+
 /**********************************************************************************************************************
  *  ACTIVATION
  *********************************************************************************************************************/
@@ -121,44 +172,103 @@ const MOTIONWISE_PATHS: Record<MotionWiseConfig, string> = {
 export function activate(context: vscode.ExtensionContext) {
 	console.log('DFU Chat Participant is now active!');
 
-	// Store conversation states by history length (simple session tracking)
-	const conversationStates = new Map<number, ConversationState>();
+	// Validation findings are published on the offending lines
+	const diagnostics = vscode.languages.createDiagnosticCollection('dfu');
+	context.subscriptions.push(diagnostics);
+
+	// Workspace files are indexed once in the background and kept up to date by file system watchers. A failure is
+	// logged to the output channel and shown in the next chat response
+	const output = vscode.window.createOutputChannel('DFU Integration Assistant');
+	const index = new WorkspaceIndex(createIndexFileSystem());
+	context.subscriptions.push(output, index);
+	let indexingError: string | undefined;
+	buildIndexInBackground(index, message => {
+		indexingError = message;
+		output.appendLine(`Indexing the workspace failed: ${message}`);
+	});
 
 	// Register chat participant
-	const participant = vscode.chat.createChatParticipant('dfu.assistant', async (
+	const participant = vscode.chat.createChatParticipant(PARTICIPANT_ID, async (
 		request: vscode.ChatRequest,
 		chatContext: vscode.ChatContext,
 		stream: vscode.ChatResponseStream,
 		token: vscode.CancellationToken
-	) => {
-		// Get or create conversation state based on history length
-		const sessionKey = chatContext.history.length;
-		let state = conversationStates.get(sessionKey) || conversationStates.get(sessionKey - 1);
-		if (!state) {
-			state = { step: 'initial' };
+	): Promise<vscode.ChatResult> => {
+		// Wizard state travels with the chat: rebuilt from the last response's metadata in this chat's history
+		let state = restoreState(chatContext.history, PARTICIPANT_ID);
+
+		if (indexingError !== undefined) {
+			stream.markdown(`⚠️ Indexing the workspace in the background failed: ${indexingError}. Commands search the workspace again when they need its files.\n\n`);
+			indexingError = undefined;
 		}
-		conversationStates.set(sessionKey + 1, state);
 
 		try {
 			// Handle slash commands
 			if (request.command === 'integrate') {
-				await handleIntegrateCommand(request, stream, state, token);
+				state = { step: 'initial' };
+				await handleIntegrateCommand(request, stream, state, index, token);
 			} else if (request.command === 'validate') {
-				await handleValidateCommand(stream, token);
+				await handleValidateCommand(stream, diagnostics, index, token);
+			} else if (request.command === 'test') {
+				await handleTestCommand(request, stream, state, token);
+			} else if (request.command === 'decode') {
+				handleDecodeCommand(request, stream);
+			} else if (request.command === 'audit') {
+				await handleAuditCommand(stream, index, token);
+			} else if (request.command === 'upgrade') {
+				await handleUpgradeCommand(stream, token);
 			} else if (request.command === 'adapter') {
-				await handleAdapterCommand(request, stream, token);
+				await handleAdapterCommand(request, stream, state, index, token);
+			} else if (request.command === 'back') {
+				state = await handleBackCommand(stream, state, index, token);
+			} else if (request.command === 'restart') {
+				state = handleRestartCommand(stream);
+			} else if (request.command === 'answers') {
+				handleAnswersCommand(stream, state);
+			} else if (request.command === 'edit') {
+				state = await handleEditCommand(request, stream, state, index, token);
 			} else {
 				// No command - continue conversation flow
-				await handleConversationFlow(request, chatContext, stream, state, token);
+				await handleConversationFlow(request, stream, state, index, token);
 			}
 		} catch (error) {
 			stream.markdown(`\n\n❌ Error: ${error instanceof Error ? error.message : String(error)}\n`);
 		}
+
+		const metadata: DfuChatMetadata = { command: request.command, state };
+		return { metadata };
 	});
 
 	// Set participant metadata
 	participant.iconPath = new vscode.ThemeIcon('circuit-board');
 
+	// Write generated files on request from the chat button, with diff previews of existing files
+	const previews = new GeneratedFilePreviewProvider();
+	context.subscriptions.push(
+		previews,
+		vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previews),
+		vscode.commands.registerCommand(WRITE_FILES_COMMAND, (state: ConversationState) => writeIntegrationFiles(state, previews)),
+		vscode.commands.registerCommand(WRITE_HARNESS_COMMAND, (state: ConversationState) => writeTestHarness(state, previews)),
+		vscode.commands.registerCommand(EXPORT_AUDIT_COMMAND, (report: AuditReport) => exportAuditReport(report)),
+		vscode.commands.registerCommand(PREVIEW_UPGRADE_COMMAND, (directory: string) => runUpgradeAction(directory, upgrade => previewUpgrade(upgrade, previews))),
+		vscode.commands.registerCommand(APPLY_UPGRADE_COMMAND, (directory: string) => runUpgradeAction(directory, applyUpgrade)),
+		vscode.commands.registerCommand(INSERT_PREOS_COMMAND, (path: string) => insertPreOsInitialization(path, previews))
+	);
+
+	// Magic flag decoding and inline documentation of the DMIU API in C sources
+	context.subscriptions.push(
+		vscode.commands.registerCommand(DECODE_MAGIC_FLAGS_COMMAND, decodeMagicFlagsCommand),
+		vscode.languages.registerHoverProvider([{ language: 'c' }, { language: 'cpp' }], {
+			provideHover(document, position) {
+				const markdown = hoverMarkdown(document.lineAt(position.line).text, position.character);
+				return markdown ? new vscode.Hover(new vscode.MarkdownString(markdown)) : undefined;
+			}
+		})
+	);
+
+	// The same capabilities as language model tools, for agent mode and other participants
+	registerTools(context, diagnostics, previews, index);
+
 	context.subscriptions.push(participant);
 }
 
@@ -170,6 +280,7 @@ async function handleIntegrateCommand(
 	request: vscode.ChatRequest,
 	stream: vscode.ChatResponseStream,
 	state: ConversationState,
+	index: WorkspaceIndex,
 	token: vscode.CancellationToken
 ): Promise<void> {
 	const input = request.prompt.trim().toLowerCase();
@@ -187,276 +298,1464 @@ async function handleIntegrateCommand(
 
 	state.platform = (input === 'posix' || input === 'autosar') ? input : 'posix';
 	
-	// Analyze workspace
-	const analysis = await analyzeWorkspace();
-	
 	stream.markdown(`## Starting ${input.toUpperCase()} Integration\n\n`);
 	
 	// If MotionWise, detect configuration
 	if (input === 'motionwise') {
-		stream.markdown(MOTIONWISE_CONTEXT + '\n\n');
+		const registry = await loadConfigurationRegistry(stream);
+		stream.markdown(MOTIONWISE_CONTEXT + '\n' + renderConfigurationTable(registry.configurations) + '\n\n');
 		
-		if (analysis.detectedMotionWiseConfig && analysis.detectedMotionWiseConfig !== 'unknown') {
-			state.motionwiseConfig = analysis.detectedMotionWiseConfig;
-			state.integrationPath = MOTIONWISE_PATHS[analysis.detectedMotionWiseConfig];
-			stream.markdown(`✅ Detected configuration: **${analysis.detectedMotionWiseConfig.toUpperCase()}**\n`);
+		stream.progress('Reading 1500-build and 1900-sysdef...');
+		const detected = await detectConfiguration(registry.configurations, index, token, stream);
+		if (token.isCancellationRequested) {
+			return;
+		}
+		if (detected.length === 1) {
+			const [{ configuration, evidence }] = detected;
+			applyConfiguration(state, configuration);
+			stream.markdown(`✅ Detected configuration: **${configuration.id.toUpperCase()}**\n\n`);
+			showDetectionEvidence(evidence, stream);
 			stream.markdown(`📁 Integration path: \`${state.integrationPath}\`\n\n`);
+			showEcuPlan(state, stream);
 			state.step = 'memory';
+		} else if (detected.length > 1) {
+			// Several configurations are built: let the user pick one of them by number or any configuration by name
+			state.step = 'config';
+			state.suggestions = detected.map(({ configuration }) => configuration.id);
+			stream.markdown('⚠️ **More than one configuration applies to this workspace:**\n\n');
+			detected.forEach(({ configuration, evidence }, i) => {
+				stream.markdown(`${i + 1}. \`${configuration.id}\` - ${configuration.label}\n`);
+				showDetectionEvidence(evidence, stream);
+			});
+			stream.markdown('💬 **Reply with a number or configuration name**\n');
+			return;
 		} else {
 			// Ask user to specify configuration
-			stream.markdown('### Which MotionWise configuration are you using?\n\n');
-			stream.markdown('Available configurations:\n');
-			stream.markdown('1. `cp-rdb2` - CP on RDB2 board\n');
-			stream.markdown('2. `cp-rdb3` - CP on RDB3 board\n');
-			stream.markdown('3. `sv62` - SV62 (HCP2MEJ) on RDB2\n');
-			stream.markdown('4. `s324sdv` - s324sdv (SDV) on RDB2\n');
-			stream.markdown('5. `ch63_2` - CH63_2 configuration\n');
-			stream.markdown('6. `generic` - Generic/custom configuration\n\n');
-			stream.markdown('💬 **Reply with configuration name** (e.g., "cp-rdb2")\n');
 			state.step = 'config';
+			await askStepQuestion(state, stream, index, token);
 			return;
 		}
 	} else {
 		state.step = 'memory';
-		state.integrationPath = '1800-EcuIntegration/[PLATFORM]/core/development/dmiu';
+		state.integrationPath = GENERIC_CONFIGURATION.integrationPath;
 	}
 
-	// Show file structure
-	stream.markdown('### Files to be created:\n\n');
-	stream.markdown('```\n');
-	stream.markdown(`${state.integrationPath}/\n`);
-	stream.markdown(`├── api/dmiu_integration.h\n`);
-	stream.markdown(`└── src/\n`);
-	stream.markdown(`    ├── dmiu_integration.c\n`);
-	if (state.platform === 'posix') {
-		stream.markdown(`    └── main.c\n`);
-	}
-	stream.markdown('```\n\n');
+	showPlannedFiles(state, stream);
 
 	// Ask first question
-	stream.markdown('### Step 1/3: Memory Allocation\n\n');
-	stream.markdown('Which function should I use for memory allocation?\n\n');
-	
-	if (analysis.memoryFunctions.length > 0) {
-		stream.markdown('**Found in workspace:**\n');
-		analysis.memoryFunctions.forEach((fn, i) => {
-			stream.markdown(`${i + 1}. \`${fn}\`\n`);
-		});
-		stream.markdown('\n');
+	await askStepQuestion(state, stream, index, token);
+}
+
+/** Files the templates generate for the state, before the questions are answered */
+function showPlannedFiles(state: ConversationState, stream: vscode.ChatResponseStream): void {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	const paths = (memoryFunction?: string) => flattenDirectories(generateIntegrationDirectories({ ...state, step: 'complete', memoryFunction }))
+		.map(file => file.relativePath);
+	const planned = paths();
+	// The shared memory header only comes with ShmM_MapOwner target memory, which the next question may choose
+	const optional = state.platform === 'posix' ? paths('ShmM_MapOwner').filter(path => !planned.includes(path)) : [];
+
+	stream.markdown('### Files to be created:\n\n');
+	if (folder && state.integrationPath) {
+		stream.filetree(toFileTree(planned), vscode.Uri.joinPath(folder.uri, state.integrationPath));
+	} else {
+		stream.markdown(planned.map(path => `- \`${path}\``).join('\n') + '\n');
 	}
-	
-	stream.markdown('**Options:**\n');
-	if (state.platform === 'posix') {
-		stream.markdown('- `ShmM_MapOwner` - Shared memory (recommended)\n');
+	if (optional.length > 0) {
+		stream.markdown(`\nWith \`ShmM_MapOwner\` as target memory also ${optional.map(path => `\`${path}\``).join(', ')}.\n`);
 	}
-	stream.markdown('- `static` - Static global variable\n');
-	stream.markdown('- Or provide your custom function name\n\n');
-	stream.markdown('💬 **Just reply with your choice**\n');
+	stream.markdown('\n');
 }
 
 async function handleValidateCommand(
 	stream: vscode.ChatResponseStream,
+	diagnostics: vscode.DiagnosticCollection,
+	index: WorkspaceIndex,
 	token: vscode.CancellationToken
 ): Promise<void> {
-	const analysis = await analyzeWorkspace();
-	
 	stream.markdown('## DMIU Integration Validation\n\n');
-	
-	if (analysis.existingIntegrationFiles.length === 0) {
+	const run = await runValidation(diagnostics, index, token, stream);
+	if (token.isCancellationRequested) {
+		stream.markdown('⏹️ Validation cancelled.\n');
+		return;
+	}
+	if (!run) {
 		stream.markdown('❌ No integration files found\n\n');
 		stream.markdown('Run `@dfu /integrate posix` or `@dfu /integrate autosar` to start.\n');
 		return;
 	}
 	
 	stream.markdown('### Found Integration Files:\n\n');
-	analysis.existingIntegrationFiles.forEach(file => {
-		stream.markdown(`✅ ${file}\n`);
+	run.files.forEach(file => {
+		stream.markdown(`- \`${file}\`\n`);
 	});
+	stream.markdown('\n');
+
+	// The ECUs of multi-ECU configurations are reported one by one
+	if (run.groups.length === 1) {
+		showGroupChecks(run.groups[0], stream);
+		return;
+	}
+	for (const group of run.groups) {
+		stream.markdown(`## ${group.ecu ? `ECU \`${group.ecu}\`` : 'Integration'}: \`${group.directory}\`\n\n`);
+		showGroupChecks(group, stream);
+		stream.markdown('\n');
+	}
+}
+
+/** Streams the platform, checks and findings of one integration directory */
+function showGroupChecks(group: GroupValidation, stream: vscode.ChatResponseStream): void {
+	stream.markdown(`**Platform:** ${group.platform ? group.platform.toUpperCase() : 'unknown (platform checks skipped)'}\n\n`);
+
+	const icons = { pass: '✅', warn: '⚠️', fail: '❌', skip: '➖' };
+
+	stream.markdown('### Checks:\n\n');
+	for (const check of group.checks) {
+		stream.markdown(`${icons[check.status]} **${check.title}**${check.status === 'skip' ? ' (not applicable)' : ''}\n\n`);
+		for (const finding of check.findings) {
+			stream.markdown(`- ${finding.message}`);
+			if (finding.path) {
+				const uri = toWorkspaceUri(finding.path);
+				stream.markdown(' — ');
+				stream.anchor(new vscode.Location(uri, new vscode.Position((finding.line ?? 1) - 1, 0)), `${finding.path}:${finding.line ?? 1}`);
+			}
+			stream.markdown('\n');
+		}
+		if (check.findings.length > 0) {
+			stream.markdown('\n');
+		}
+	}
+
+	const failed = group.checks.filter(check => check.status === 'fail').length;
+	const subject = group.ecu ? `ECU \`${group.ecu}\`` : 'Integration';
+	stream.markdown(failed === 0
+		? `\n✅ **${subject} looks complete.**\n`
+		: `\n❌ **${failed} check(s) failed${group.ecu ? ` for ECU \`${group.ecu}\`` : ''}.** Findings are also shown in the Problems panel.\n`);
+}
+
+async function handleTestCommand(
+	request: vscode.ChatRequest,
+	stream: vscode.ChatResponseStream,
+	state: ConversationState,
+	token: vscode.CancellationToken
+): Promise<void> {
+	if (state.step !== 'complete') {
+		stream.markdown('❌ The test harness is generated from a finished integration. Complete `@dfu /integrate` first.\n');
+		return;
+	}
+
+	const builds = planHarnessBuilds(state, readGeneratorOptions());
+	stream.markdown('## DMIU Integration Test Harness\n\n');
+	stream.markdown('Host unit tests for `dmiu_integration.c` with stubs for the memory, dataset and alternative functions. '
+		+ 'They cover every Safe/Level 1/Level 2 combination of both sources, corrupted flag values and magic flag pairs.'
+		+ (builds.length > 1 ? ` Every ECU gets its own harness, built with the magic flag conversion from \`${COMMON_DIRECTORY}/\`.` : '') + '\n\n');
+	for (const build of builds) {
+		const prefix = build.directory ? `${build.directory}/` : '';
+		stream.markdown(`### \`${prefix}${build.harness[0].relativePath}\`\n\n`);
+		stream.markdown('```c\n' + build.harness[0].content + '```\n\n');
+		stream.markdown(`Stubs: ${build.harness.slice(1).map(file => `\`${prefix}${file.relativePath}\``).join(', ')}\n\n`);
+	}
+	stream.button({
+		command: WRITE_HARNESS_COMMAND,
+		title: '$(beaker) Write Test Harness to Workspace',
+		arguments: [{ ...state }]
+	});
+
+	if (request.prompt.trim().toLowerCase() !== 'run') {
+		stream.markdown('\n▶️ Compile and run it with a local gcc: `@dfu /test run`\n');
+		return;
+	}
+
+	const compiler = vscode.workspace.getConfiguration('dfu.test').get<string>('compiler', 'gcc') || 'gcc';
+	stream.markdown('\n### Test Run\n\n');
+
+	const abort = new AbortController();
+	const cancellation = token.onCancellationRequested(() => abort.abort());
+	try {
+		for (const build of builds) {
+			if (build.ecu) {
+				stream.markdown(`#### ECU \`${build.ecu}\`\n\n`);
+			}
+			stream.progress(`Compiling${build.ecu ? ` the harness of ${build.ecu}` : ''} with ${compiler}...`);
+			const result = await runHarness(build.files, {
+				compiler,
+				compileArgs: build.compileArgs,
+				directory: build.directory,
+				signal: abort.signal,
+				onOutput: line => {
+					// Passing cases are only counted, failures are shown as they happen
+					if (line.startsWith('not ok')) {
+						stream.markdown(`- ❌ ${line.replace(/^not ok \d+ - /, '')}\n`);
+					}
+				}
+			});
+			reportHarnessRun(result, build, compiler, stream);
+			// Without a compiler or after cancelling, the other ECUs would end the same way
+			if (result.status === 'no-compiler' || result.status === 'cancelled') {
+				break;
+			}
+		}
+	} finally {
+		cancellation.dispose();
+	}
+}
+
+function reportHarnessRun(result: HarnessRunResult, build: HarnessBuild, compiler: string, stream: vscode.ChatResponseStream): void {
+	switch (result.status) {
+		case 'passed':
+			stream.markdown(`✅ **All ${result.summary.passed} test(s) passed.**\n\n`);
+			break;
+		case 'failed':
+			stream.markdown(`\n❌ **${result.summary.failed} of ${result.summary.passed + result.summary.failed} test(s) failed.**\n\n`);
+			break;
+		case 'compile-error':
+		case 'run-error':
+			stream.markdown(`❌ The harness could not be ${result.status === 'compile-error' ? 'compiled' : 'run'}:\n\n\`\`\`\n${result.output.trim()}\n\`\`\`\n\n`);
+			break;
+		case 'no-compiler':
+			stream.markdown(`ℹ️ \`${compiler}\` was not found. Install gcc or set \`dfu.test.compiler\`, or build the harness manually from the ${build.directory ? `\`${build.directory}/\` directory of the ` : ''}integration:\n\n\`\`\`\ngcc ${build.compileArgs.join(' ')}\n\`\`\`\n`);
+			break;
+		case 'cancelled':
+			stream.markdown('⏹️ Test run cancelled.\n');
+			break;
+		case 'timeout':
+			stream.markdown('❌ The test run timed out.\n\n');
+			break;
+	}
+}
+
+function handleDecodeCommand(request: vscode.ChatRequest, stream: vscode.ChatResponseStream): void {
+	const pair = parseMagicFlagPair(request.prompt);
+	if ('error' in pair) {
+		stream.markdown(`❌ ${pair.error}.\n\n`);
+		stream.markdown('Usage: `@dfu /decode 0xDEB00001 0xDEB00001` or a little-endian dump like `@dfu /decode 01 00 B0 DE 01 00 B0 DE`\n');
+		return;
+	}
+	stream.markdown('## Magic Flag Decoding\n\n');
+	stream.markdown(renderDecoding(decodeMagicFlags(pair.magicFlagA, pair.magicFlagB)) + '\n');
+}
+
+async function handleAuditCommand(stream: vscode.ChatResponseStream, index: WorkspaceIndex, token: vscode.CancellationToken): Promise<void> {
+	stream.markdown('## DMIU Client API Audit\n\n');
+	stream.progress('Scanning workspace sources for Dmiu_IsDebugLevel1Active/Dmiu_IsDebugLevel2Active...');
+
+	const report = auditDebugUsage(await readAuditSources(index, token, stream));
+	if (token.isCancellationRequested) {
+		stream.markdown('⏹️ Audit cancelled.\n');
+		return;
+	}
+	if (report.checks.length === 0 && report.findings.length === 0) {
+		stream.markdown(`ℹ️ Scanned ${report.scannedFiles} file(s): no client API calls and no magic flag accesses found.\n`);
+		return;
+	}
+
+	const usage = summarizeComponents(report.checks);
+	stream.markdown(`Scanned ${report.scannedFiles} file(s): **${report.checks.length}** check(s) in **${usage.length}** component(s).\n\n`);
+
+	if (usage.length > 0) {
+		stream.markdown('### Gated Features\n\n| Component | Level 1 | Level 2 |\n|---|---|---|\n');
+		const features = (names: string[]) => names.map(name => `\`${name}\``).join(', ') || '—';
+		for (const component of usage) {
+			stream.markdown(`| ${component.component} | ${features(component.level1)} | ${features(component.level2)} |\n`);
+		}
+		stream.markdown('\n');
+	}
+
+	const icons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+	stream.markdown('### Findings\n\n');
+	if (report.findings.length === 0) {
+		stream.markdown('✅ No suspicious patterns found.\n\n');
+	}
+	for (const finding of report.findings) {
+		stream.markdown(`${icons[finding.severity]} ${finding.message} — `);
+		stream.anchor(new vscode.Location(toWorkspaceUri(finding.path), new vscode.Position(finding.line - 1, 0)), `${finding.path}:${finding.line}`);
+		stream.markdown('\n\n');
+	}
+	if (report.skippedFiles > 0) {
+		stream.markdown(`_${report.skippedFiles} DMIU core or generated file(s) were not checked for direct magic flag accesses._\n\n`);
+	}
+
+	stream.button({
+		command: EXPORT_AUDIT_COMMAND,
+		title: '$(export) Export Table',
+		arguments: [report]
+	});
+}
+
+async function handleUpgradeCommand(stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<void> {
+	stream.markdown(`## Integration Upgrade\n\nCurrent template version: **${GENERATOR_VERSION}**\n\n`);
+	stream.progress('Looking for generated integrations...');
+
+	const directories = await findIntegrationDirectories(token);
+	if (directories.length === 0) {
+		stream.markdown('ℹ️ No integration found (`src/dmiu_integration.c`). Start one with `@dfu /integrate`.\n');
+		return;
+	}
+
+	const labels: Record<UpgradeStatus, string> = {
+		new: '➕ new',
+		unchanged: '✅ unchanged',
+		merged: '🔀 merged with your edits',
+		conflict: '⚠️ conflicts',
+		replaced: '♻️ regenerated, no base recorded: edits outside USER CODE regions are replaced',
+		handwritten: '✋ handwritten, left alone'
+	};
+	for (const directory of directories) {
+		if (token.isCancellationRequested) {
+			return;
+		}
+		stream.progress(`Merging ${directory}...`);
+		const upgrade = await inspectIntegration(directory);
+		if ('error' in upgrade) {
+			stream.markdown(`### \`${directory}\`\n\n❌ Cannot upgrade: ${upgrade.error}.\n\n`);
+			continue;
+		}
+
+		const changes = upgradeChanges(upgrade.files);
+		const outdated = compareVersions(upgrade.version, GENERATOR_VERSION) < 0;
+		if (changes.length === 0) {
+			stream.markdown(`### \`${directory}\`\n\n✅ Up to date (template version ${upgrade.version}).\n\n`);
+			continue;
+		}
+
+		stream.markdown(`### \`${directory}\`\n\n`);
+		stream.markdown(outdated
+			? `Template version **${upgrade.version}** → **${GENERATOR_VERSION}**\n\n`
+			: `Template version ${upgrade.version}; the generated files differ from the current output for these answers.\n\n`);
+		stream.markdown('Answers recorded in the generated files:\n');
+		for (const [label, value] of describeAnswers(upgrade.state)) {
+			stream.markdown(`- ${label}: \`${value}\`\n`);
+		}
+		stream.markdown('\n| File | Result |\n|---|---|\n');
+		for (const file of upgrade.files) {
+			const conflicts = file.conflicts > 0 ? ` (${file.conflicts})` : '';
+			const dropped = file.droppedRegions.length > 0 ? `; USER CODE ${file.droppedRegions.join(', ')} no longer exists and is dropped` : '';
+			stream.markdown(`| \`${file.relativePath}\` | ${labels[file.status]}${conflicts}${dropped} |\n`);
+		}
+		stream.markdown('\n');
+		stream.button({ command: PREVIEW_UPGRADE_COMMAND, title: '$(diff) Preview Merge', arguments: [directory] });
+		stream.button({ command: APPLY_UPGRADE_COMMAND, title: '$(check) Apply Upgrade', arguments: [directory] });
+	}
+}
+
+/** Re-inspects an integration when a button is clicked, so the merge reflects the files as they are now */
+async function runUpgradeAction(directory: string, action: (upgrade: IntegrationUpgrade) => Promise<unknown>): Promise<void> {
+	const upgrade = await inspectIntegration(directory);
+	if ('error' in upgrade) {
+		vscode.window.showErrorMessage(`DFU: Cannot upgrade ${directory}: ${upgrade.error}.`);
+		return;
+	}
+	await action(upgrade);
 }
 
 async function handleAdapterCommand(
 	request: vscode.ChatRequest,
 	stream: vscode.ChatResponseStream,
+	state: ConversationState,
+	index: WorkspaceIndex,
 	token: vscode.CancellationToken
 ): Promise<void> {
-	const functionName = request.prompt.trim();
+	const [functionName, roleArgument] = request.prompt.trim().split(/\s+/);
 	
 	if (!functionName) {
 		stream.markdown('Please provide a function name.\n\n');
-		stream.markdown('**Example:** `@dfu /adapter MyDatasetFunction`\n');
+		stream.markdown('**Example:** `@dfu /adapter MyDatasetFunction` or `@dfu /adapter MyDatasetFunction dataset`\n');
 		return;
 	}
 	
 	stream.markdown(`## Generating Adapter for \`${functionName}\`\n\n`);
-	stream.markdown('What does this function return?\n\n');
-	stream.markdown('- String (e.g., "debug_level_2")\n');
-	stream.markdown('- Integer (0/1/2)\n');
-	stream.markdown('- Boolean\n');
-	stream.markdown('- Compatible type\n');
+	stream.progress('Searching workspace headers for the declaration...');
+
+	const { declaration, enums } = await findFunctionInHeaders(functionName, index, token, stream);
+	if (token.isCancellationRequested) {
+		return;
+	}
+	if (declaration) {
+		const parameters = declaration.parameters.map(p => `${p.type}${p.name ? ' ' + p.name : ''}`).join(', ') || 'void';
+		stream.markdown(`🔎 Found \`${declaration.returnType} ${functionName}(${parameters})\` in `);
+		stream.anchor(new vscode.Location(toWorkspaceUri(declaration.path!), new vscode.Position(declaration.line - 1, 0)), `${declaration.path}:${declaration.line}`);
+		stream.markdown('\n\n');
+	} else {
+		stream.markdown('⚠️ No declaration found in workspace headers, I need a few details about the function.\n\n');
+	}
+
+	const answers: AdapterAnswers = {};
+	const role = roleArgument ? applyAdapterAnswer('role', roleArgument, answers) : undefined;
+	state.adapter = { functionName, declaration, enums, answers: role ?? answers };
+	continueAdapter(state, stream);
+}
+
+/** Applies a chat reply to the pending /adapter question and continues the adapter flow */
+function handleAdapterAnswer(userMessage: string, stream: vscode.ChatResponseStream, state: ConversationState): void {
+	const session = state.adapter!;
+	const answers = applyAdapterAnswer(session.pending!, userMessage, session.answers);
+	if (!answers) {
+		stream.markdown('❌ I could not use that answer.\n\n');
+		askAdapterQuestion(session, stream);
+		return;
+	}
+	session.answers = answers;
+	continueAdapter(state, stream);
+}
+
+/** Generates the adapter when nothing is ambiguous anymore, otherwise asks the next question */
+function continueAdapter(state: ConversationState, stream: vscode.ChatResponseStream): void {
+	const session = state.adapter!;
+	const inference = inferAdapter(session.functionName, session.declaration, session.answers, session.enums);
+
+	if (inference.error) {
+		stream.markdown(`❌ ${inference.error}\n`);
+		delete state.adapter;
+		return;
+	}
+
+	if (inference.questions.length > 0) {
+		session.pending = inference.questions[0];
+		askAdapterQuestion(session, stream);
+		return;
+	}
+
+	const spec = inference.spec!;
+	const includes = adapterIncludes(spec);
+	stream.markdown(`✅ ${describeAdapterRole(spec.role)}\n\n`);
+	stream.markdown('```c\n' + (includes.length > 0 ? includes.join('\n') + '\n\n' : '') + renderAdapter(spec) + '```\n\n');
+	stream.markdown(`Replace \`${ADAPTER_FUNCTION_NAMES[spec.role]}\` in \`src/dmiu_integration.c\` with this adapter; it uses the \`DMIU_INT_MAGIC_FLAG_*\` macros defined there.\n`);
+	delete state.adapter;
+
+	if (state.step !== 'initial' && state.step !== 'complete') {
+		stream.markdown('\n💬 The integration wizard is still waiting for your answer to the previous question.\n');
+	}
+}
+
+function askAdapterQuestion(session: AdapterSession, stream: vscode.ChatResponseStream): void {
+	const inference = inferAdapter(session.functionName, session.declaration, session.answers, session.enums);
+
+	switch (session.pending) {
+		case 'role':
+			stream.markdown('Which DMIU config attribute should this function feed?\n\n');
+			stream.markdown('1. `memory` - target memory (`Dt_RECORD_DebugUnlockingStruct_DMIU*`)\n');
+			stream.markdown('2. `dataset` - dataset read function (magic flags 0xDEB00001/0xDEB00002/0)\n');
+			stream.markdown('3. `alternative` - debug level override (`e_Dmiu_Debug_Level`, OR logic)\n\n');
+			break;
+		case 'valueKind':
+			stream.markdown(`What does \`${session.functionName}\` return?\n\n`);
+			stream.markdown('- `string` (e.g., "debug_level_2")\n');
+			stream.markdown('- `integer` (0/1/2 or magic flag)\n');
+			stream.markdown('- `boolean`\n');
+			stream.markdown('- `enum`\n\n');
+			break;
+		case 'booleanLevel':
+			stream.markdown(`\`${session.functionName}\` reports a boolean. Which level does TRUE unlock?\n\n`);
+			stream.markdown('- `1` - Debug Level 1\n');
+			stream.markdown('- `2` - Debug Level 2\n\n');
+			break;
+		case 'enumMapping': {
+			const members = session.enums.flatMap(e => e.members);
+			stream.markdown('Which enum members mean Debug Level 1 and Debug Level 2? Everything else maps to the Safe Level.\n\n');
+			if (members.length > 0) {
+				stream.markdown(`**Members:** ${members.map(m => `\`${m}\``).join(', ')}\n\n`);
+			}
+			stream.markdown('**Example:** `MY_LEVEL_1, MY_LEVEL_2`\n\n');
+			break;
+		}
+		case 'arguments': {
+			const parameters = inputParameters(inference.spec, session.declaration);
+			stream.markdown(`\`${session.functionName}\` takes input parameters. Which arguments should the adapter pass?\n\n`);
+			parameters.forEach((p, i) => stream.markdown(`${i + 1}. \`${p.type}${p.name ? ' ' + p.name : ''}\`\n`));
+			stream.markdown('\n**Example:** `DMIU_SHM_NAME, DMIU_SHM_SIZE`\n\n');
+			break;
+		}
+	}
+	stream.markdown('💬 **Just reply with your choice**\n');
+}
+
+function describeAdapterRole(role: AdapterRole): string {
+	const descriptions: Record<AdapterRole, string> = {
+		memory: 'Memory adapter returning `Dt_RECORD_DebugUnlockingStruct_DMIU*`',
+		dataset: 'Dataset adapter returning magic flags (0xDEB00001/0xDEB00002/0x00000000)',
+		alternative: 'Alternative adapter returning `e_Dmiu_Debug_Level`, combined with the dataset using OR logic'
+	};
+	return descriptions[role];
 }
 
 async function handleConversationFlow(
 	request: vscode.ChatRequest,
-	chatContext: vscode.ChatContext,
 	stream: vscode.ChatResponseStream,
 	state: ConversationState,
+	index: WorkspaceIndex,
 	token: vscode.CancellationToken
 ): Promise<void> {
 	const userMessage = request.prompt.trim();
 
-	if (state.step === 'initial') {
-		stream.markdown(DFU_KNOWLEDGE);
+	// An open /adapter question takes precedence over the wizard
+	if (state.adapter?.pending) {
+		handleAdapterAnswer(userMessage, stream, state);
+		return;
+	}
+
+	if (state.step === 'initial' || state.step === 'complete') {
+		// Questions are answered from the documentation, anything else gets the overview
+		const answered = userMessage !== '' && await answerDocumentationQuestion(userMessage, stream, index, token);
+		if (!answered) {
+			stream.markdown(DFU_KNOWLEDGE);
+		}
 		stream.markdown('\n\n💡 **Get started:** `@dfu /integrate posix` or `@dfu /integrate autosar` or `@dfu /integrate motionwise`\n');
+		if (state.step === 'complete') {
+			stream.markdown('\n📝 Your last integration answers are kept: `@dfu /answers` to show them, `@dfu /edit <step> <value>` to change one.\n');
+		}
 		return;
 	}
 
 	if (state.step === 'config') {
 		// User selected MotionWise configuration
-		const configMap: Record<string, MotionWiseConfig> = {
-			'1': 'cp-rdb2',
-			'2': 'cp-rdb3',
-			'3': 'sv62',
-			'4': 's324sdv',
-			'5': 'ch63_2',
-			'6': 'generic'
-		};
+		const { configurations } = await loadConfigurationRegistry(stream);
+		const selectedConfig = selectConfiguration(resolveSuggestion(state, userMessage), configurations);
 		
-		const selectedConfig = configMap[userMessage] || userMessage.toLowerCase() as MotionWiseConfig;
-		
-		if (selectedConfig && MOTIONWISE_PATHS[selectedConfig]) {
-			state.motionwiseConfig = selectedConfig;
-			state.integrationPath = MOTIONWISE_PATHS[selectedConfig];
+		if (selectedConfig) {
+			delete state.suggestions;
+			applyConfiguration(state, selectedConfig);
 			state.step = 'memory';
 			
-			stream.markdown(`✅ Configuration: **${selectedConfig}**\n\n`);
+			stream.markdown(`✅ Configuration: **${selectedConfig.id}**\n\n`);
 			stream.markdown(`📁 Integration path: \`${state.integrationPath}\`\n\n`);
-			stream.markdown('### Step 1/3: Memory Management\n\n');
-			stream.markdown('Which function provides memory pointer?\n\n');
-			stream.markdown('Requirements:\n');
-			stream.markdown('- Returns void* to memory region\n');
-			stream.markdown('- Persistent memory for DMIU config\n');
-			stream.markdown('- Compatible type\n\n');
-			stream.markdown('💬 **Reply with function name**\n');
+			showEcuPlan(state, stream);
+			await askStepQuestion(state, stream, index, token);
 		} else {
-			stream.markdown('❌ Invalid configuration. Please choose 1-6 or type the config name.\n');
+			stream.markdown(`❌ Invalid configuration. Please choose 1-${configurations.length} or type the config name.\n`);
 		}
 		return;
 	}
 
+	// Numbered replies pick one of the suggestions listed with the question
+	const answer = resolveSuggestion(state, userMessage);
+	delete state.suggestions;
+
 	if (state.step === 'memory') {
-		state.memoryFunction = userMessage;
+		setAnswer(state, 'memory', answer);
 		state.step = 'dataset';
 		
-		stream.markdown(`✅ Memory: \`${userMessage}\`\n\n`);
-		stream.markdown('### Step 2/3: Dataset Loading\n\n');
-		stream.markdown('Which function loads debug configuration?\n\n');
-		stream.markdown('Provide function name or describe what it returns:\n');
-		stream.markdown('- String ("debug_level_1", "debug_level_2", "safe")\n');
-		stream.markdown('- Integer (0=safe, 1=level1, 2=level2)\n');
-		stream.markdown('- Compatible signature\n\n');
-		stream.markdown('💬 **Reply with function name or description**\n');
+		stream.markdown(`✅ Memory: ${describeReply(state, 'memory', answer)}\n\n`);
+		await askStepQuestion(state, stream, index, token);
 		return;
 	}
 
 	if (state.step === 'dataset') {
-		state.datasetFunction = userMessage;
+		setAnswer(state, 'dataset', answer);
 		state.step = 'alternative';
 		
-		stream.markdown(`✅ Dataset: \`${userMessage}\`\n\n`);
-		stream.markdown('### Step 3/3: Alternative Load\n\n');
-		stream.markdown('Which function provides alternative debug level?\n\n');
-		stream.markdown('Options:\n');
-		stream.markdown('- Function name (if you have one)\n');
-		stream.markdown('- `none` (stub returning SAFE)\n\n');
-		stream.markdown('💬 **Reply with function name or "none"**\n');
+		stream.markdown(`✅ Dataset: ${describeReply(state, 'dataset', answer)}\n\n`);
+		await askStepQuestion(state, stream, index, token);
 		return;
 	}
 
 	if (state.step === 'alternative') {
-		state.alternativeFunction = userMessage;
+		setAnswer(state, 'alternative', answer);
+		stream.markdown(`✅ Alternative: ${describeReply(state, 'alternative', answer)}\n\n`);
+
+		// Multi-ECU configurations ask the same questions for every further ECU
+		const finished = askedEcu(state);
+		const next = nextEcu(state);
+		if (finished && next) {
+			state.step = 'memory';
+			stream.markdown(`✅ ECU \`${finished.name}\` is answered, continuing with ECU \`${next.name}\`.\n\n`);
+			await askStepQuestion(state, stream, index, token);
+			return;
+		}
+
 		state.step = 'complete';
-		
-		stream.markdown(`✅ Alternative: \`${userMessage}\`\n\n`);
-		stream.markdown('## Generating Integration Files...\n\n');
-		
-		await generateIntegrationCode(state, stream, token);
-		
-		stream.markdown('\n\n✅ **Integration complete!**\n\n');
-		stream.markdown('Next steps:\n');
-		stream.markdown('1. Review generated files\n');
-		stream.markdown('2. Compile and test\n');
-		stream.markdown('3. Use `@dfu /validate` to check\n');
-		
-		state.step = 'initial';
+		await completeIntegration(state, stream, index, token);
 		return;
 	}
 }
 
+/** A step answer as confirmed to the user, replies of `same` show the first ECU's answer they reuse */
+function describeReply(state: ConversationState, field: AnswerField, answer: string): string {
+	const ecu = askedEcu(state);
+	if (!ecu || (state.currentEcu ?? 0) === 0) {
+		return `\`${answer}\``;
+	}
+	const own = ecu[ANSWER_FIELDS[field]];
+	return own === undefined
+		? `\`${state[ANSWER_FIELDS[field]]}\` for ECU \`${ecu.name}\` (same as \`${state.ecus![0].name}\`)`
+		: `\`${own}\` for ECU \`${ecu.name}\``;
+}
+
+/** Explains how a multi-ECU configuration is asked and generated */
+function showEcuPlan(state: ConversationState, stream: vscode.ChatResponseStream): void {
+	if (!isMultiEcu(state)) {
+		return;
+	}
+	const names = state.ecus!.map(ecu => `\`${ecu.name}\``);
+	stream.markdown(`🔀 **${state.motionwiseConfig} deploys ${names.length} ECUs:** ${names.join(', ')}. `
+		+ `Every ECU gets its own integration below the integration path, the magic flag conversion and OR logic are shared in \`${COMMON_DIRECTORY}/\`.\n\n`);
+	stream.markdown(`The questions are asked for \`${state.ecus![0].name}\` first; for the other ECUs reply \`${SAME_ANSWER}\` to reuse its answer.\n\n`);
+}
+
+async function handleBackCommand(
+	stream: vscode.ChatResponseStream,
+	state: ConversationState,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<ConversationState> {
+	const previous = previousStep(state);
+	if (!previous) {
+		stream.markdown('↩️ Nothing to go back to. Start with `@dfu /integrate posix`, `autosar` or `motionwise`.\n');
+		return state;
+	}
+
+	stream.markdown('↩️ Going back one step.\n\n');
+	await askStepQuestion(previous, stream, index, token);
+	return previous;
+}
+
+function handleRestartCommand(stream: vscode.ChatResponseStream): ConversationState {
+	stream.markdown('🔄 Integration wizard restarted, all answers were cleared.\n\n');
+	stream.markdown('💡 **Get started:** `@dfu /integrate posix` or `@dfu /integrate autosar` or `@dfu /integrate motionwise`\n');
+	return { step: 'initial' };
+}
+
+function handleAnswersCommand(stream: vscode.ChatResponseStream, state: ConversationState): void {
+	const answers = describeAnswers(state);
+	stream.markdown('## Current Answers\n\n');
+	if (answers.length === 0) {
+		stream.markdown('No answers yet. Start with `@dfu /integrate posix`, `autosar` or `motionwise`.\n');
+		return;
+	}
+
+	stream.markdown('| Question | Answer |\n|----------|--------|\n');
+	for (const [label, value] of answers) {
+		stream.markdown(`| ${label} | \`${value}\` |\n`);
+	}
+	const ecu = state.step !== 'complete' ? askedEcu(state) : undefined;
+	stream.markdown(`\n**Current step:** ${state.step}${ecu ? ` (ECU \`${ecu.name}\`)` : ''}\n\n`);
+	stream.markdown('✏️ Change a single answer with `@dfu /edit memory|dataset|alternative|config <value>`\n');
+	if (isMultiEcu(state)) {
+		stream.markdown(`\nAnswers of another ECU: \`@dfu /edit ${state.ecus![1].name} dataset <value>\`, \`${SAME_ANSWER}\` reuses the answer of \`${state.ecus![0].name}\`\n`);
+	}
+}
+
+async function handleEditCommand(
+	request: vscode.ChatRequest,
+	stream: vscode.ChatResponseStream,
+	state: ConversationState,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<ConversationState> {
+	// Multi-ECU configurations name the ECU first: `/edit ecu2 dataset <value>`
+	const ecuNames = state.ecus?.map(ecu => ecu.name.toLowerCase()) ?? [];
+	const [first, ...rest] = request.prompt.trim().split(/\s+/);
+	const ecuIndex = ecuNames.indexOf(first?.toLowerCase() ?? '');
+	const prompt = ecuIndex >= 0 ? rest.join(' ') : request.prompt.trim();
+	const match = /^(\w+)\s+(.+)$/s.exec(prompt);
+	const field = match?.[1].toLowerCase() ?? '';
+	const value = match?.[2].trim() ?? '';
+
+	if (field !== 'config' && !(field in ANSWER_FIELDS)) {
+		stream.markdown('Please specify which answer to change and its new value.\n\n');
+		stream.markdown('**Example:** `@dfu /edit dataset Per_DS_ReadDSElementDMIU`\n');
+		return state;
+	}
+
+	let edited: ConversationState;
+	if (field === 'config') {
+		if (!state.motionwiseConfig) {
+			stream.markdown('❌ This integration does not use a MotionWise configuration.\n');
+			return state;
+		}
+		const { configurations } = await loadConfigurationRegistry(stream);
+		const selectedConfig = selectConfiguration(value, configurations);
+		if (!selectedConfig) {
+			stream.markdown(`❌ Invalid configuration. Please choose 1-${configurations.length} or type the config name.\n`);
+			return state;
+		}
+		edited = applyConfiguration({ ...state }, selectedConfig);
+	} else {
+		const ecu = Math.max(ecuIndex, 0);
+		if (!isAnswered(state, field as AnswerField, ecu)) {
+			stream.markdown(`❌ The ${field} step has not been answered yet${ecuIndex >= 0 ? ` for ECU \`${state.ecus![ecu].name}\`` : ''}, reply to the current question instead.\n`);
+			return state;
+		}
+		edited = editAnswer(state, field as AnswerField, value, ecu);
+	}
+
+	stream.markdown(`✏️ Updated **${field}**${ecuIndex >= 0 ? ` of ECU \`${state.ecus![ecuIndex].name}\`` : ''} to \`${value}\`\n\n`);
+
+	// A finished integration is regenerated right away, otherwise the wizard just continues
+	if (edited.step === 'complete') {
+		await completeIntegration(edited, stream, index, token);
+	} else {
+		await askStepQuestion(edited, stream, index, token);
+	}
+	return edited;
+}
+
+/**
+ * Streams the question for the state's current step.
+ * Function steps list the best matching declarations from the workspace headers and remember them in the state,
+ * so the user can reply with a number.
+ */
+async function askStepQuestion(
+	state: ConversationState,
+	stream: vscode.ChatResponseStream,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<void> {
+	delete state.suggestions;
+	if (state.step === 'config') {
+		const { configurations } = await loadConfigurationRegistry(stream);
+		stream.markdown('### Which MotionWise configuration are you using?\n\n');
+		stream.markdown('Available configurations:\n');
+		configurations.forEach((config, i) => {
+			stream.markdown(`${i + 1}. \`${config.id}\` - ${config.label}\n`);
+		});
+		stream.markdown(`\n💬 **Reply with configuration name** (e.g., "${configurations[0].id}")\n`);
+		return;
+	}
+	if (state.step !== 'memory' && state.step !== 'dataset' && state.step !== 'alternative') {
+		return;
+	}
+
+	const candidates = (await buildDeclarationIndex(index, token, stream)).rankCandidates(state.step);
+	state.suggestions = candidates.map(candidate => candidate.declaration.name);
+
+	// Later ECUs of a multi-ECU configuration may reuse the first ECU's answer
+	const ecu = askedEcu(state);
+	const heading = ecu ? ` (ECU \`${ecu.name}\`)` : '';
+	const reuse = ecu && (state.currentEcu ?? 0) > 0
+		? `- \`${SAME_ANSWER}\` - same as ECU \`${state.ecus![0].name}\`: \`${state[ANSWER_FIELDS[state.step]]}\`\n`
+		: '';
+
+	switch (state.step) {
+		case 'memory':
+			stream.markdown(`### Step 1/3: Memory Management${heading}\n\n`);
+			stream.markdown('Which function provides memory pointer?\n\n');
+			stream.markdown('Requirements:\n');
+			stream.markdown('- Returns void* to memory region\n');
+			stream.markdown('- Persistent memory for DMIU config\n');
+			stream.markdown('- Compatible type\n\n');
+			showCandidates(candidates, stream);
+			stream.markdown('**Options:**\n');
+			if (state.platform === 'posix') {
+				stream.markdown('- `ShmM_MapOwner` - Shared memory (recommended)\n');
+			}
+			stream.markdown('- `static` - Static global variable\n');
+			stream.markdown(reuse);
+			stream.markdown('- Or provide your custom function name\n\n');
+			stream.markdown(candidates.length > 0 ? '💬 **Reply with a number or function name**\n' : '💬 **Reply with function name**\n');
+			return;
+		case 'dataset': {
+			stream.markdown(`### Step 2/3: Dataset Loading${heading}\n\n`);
+			stream.markdown('Which function loads debug configuration?\n\n');
+			stream.markdown('Provide function name or describe what it returns:\n');
+			stream.markdown('- String ("debug_level_1", "debug_level_2", "safe")\n');
+			stream.markdown('- Integer (0=safe, 1=level1, 2=level2)\n');
+			stream.markdown('- Compatible signature\n');
+			if (state.platform === 'autosar') {
+				stream.markdown(`- \`${NVM_ANSWER_PREFIX}<BlockName>\` - read the magic flag from an NvM block\n`);
+			}
+			stream.markdown(reuse + '\n');
+			showCandidates(candidates, stream);
+			// AUTOSAR keeps the dataset in NvM, the blocks of the ECU configuration are numbered after the functions
+			const blocks = state.platform === 'autosar'
+				? rankNvmBlocks([...(await readCollection(index, NVM_CONFIGURATIONS, token, stream)).values()].flat())
+				: [];
+			showNvmCandidates(blocks, candidates.length, stream);
+			state.suggestions.push(...blocks.map(candidate => nvmAnswer(candidate.block)));
+			stream.markdown(state.suggestions.length > 0 ? '💬 **Reply with a number, function name or description**\n' : '💬 **Reply with function name or description**\n');
+			return;
+		}
+		case 'alternative':
+			stream.markdown(`### Step 3/3: Alternative Load${heading}\n\n`);
+			stream.markdown('Which function provides alternative debug level?\n\n');
+			showCandidates(candidates, stream);
+			stream.markdown('Options:\n');
+			stream.markdown('- Function name (if you have one)\n');
+			stream.markdown('- `none` (stub returning SAFE)\n');
+			stream.markdown(reuse + '\n');
+			stream.markdown(candidates.length > 0 ? '💬 **Reply with a number, function name or "none"**\n' : '💬 **Reply with function name or "none"**\n');
+			return;
+	}
+}
+
+/** Lists ranked suggestions with the reasons they match and a link to their declaration */
+function showCandidates(candidates: FunctionCandidate[], stream: vscode.ChatResponseStream): void {
+	if (candidates.length === 0) {
+		return;
+	}
+
+	stream.markdown('**Found in workspace:**\n');
+	candidates.forEach(({ declaration, reasons }, i) => {
+		stream.markdown(`${i + 1}. \`${declaration.name}\` - ${reasons.join(', ')} `);
+		if (declaration.path) {
+			stream.anchor(new vscode.Location(toWorkspaceUri(declaration.path), new vscode.Position(declaration.line - 1, 0)), `${declaration.path}:${declaration.line}`);
+		}
+		stream.markdown('\n');
+	});
+	stream.markdown('\n');
+}
+
+/** Lists NvM blocks the dataset can be read from, numbered after `offset` function suggestions, and the read API */
+function showNvmCandidates(candidates: NvmCandidate[], offset: number, stream: vscode.ChatResponseStream): void {
+	if (candidates.length === 0) {
+		return;
+	}
+
+	stream.markdown('**NvM blocks in the ECU configuration:**\n');
+	candidates.forEach(({ block, reasons }, i) => {
+		const details = [...reasons, ...(block.blockId !== undefined ? [`block id ${block.blockId}`] : [])];
+		stream.markdown(`${offset + i + 1}. \`${nvmAnswer(block)}\` - ${details.join(', ')} `);
+		stream.anchor(new vscode.Location(toWorkspaceUri(block.path), new vscode.Position(block.line - 1, 0)), `${block.path}:${block.line}`);
+		stream.markdown('\n');
+	});
+	stream.markdown('\nThe generated adapter requests the block with `NvM_ReadBlock()` into its own RAM copy and polls `NvM_GetErrorStatus()`; until the read succeeded the Safe Level is reported.\n\n');
+}
+
+/** Lists why a configuration was detected, linking build file references to their line */
+function showDetectionEvidence(evidence: DetectionEvidence[], stream: vscode.ChatResponseStream): void {
+	const labels: Record<DetectionEvidence['source'], string> = {
+		bazel: 'Referenced in',
+		sysdef: 'System definition',
+		folder: 'Repository checked out'
+	};
+
+	for (const item of evidence) {
+		stream.markdown(`   - ${labels[item.source]}: `);
+		const uri = toWorkspaceUri(item.path);
+		if (item.line) {
+			stream.anchor(new vscode.Location(uri, new vscode.Position(item.line - 1, 0)), `${item.path}:${item.line}`);
+		} else {
+			stream.anchor(uri, item.path);
+		}
+		stream.markdown(item.source === 'bazel' ? ` \`${item.text}\`\n` : '\n');
+	}
+	stream.markdown('\n');
+}
+
+/** Shows the generated files with the write button and the next steps, for AUTOSAR with the PreOS.c insertions */
+async function completeIntegration(
+	state: ConversationState,
+	stream: vscode.ChatResponseStream,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<void> {
+	stream.markdown('## Generating Integration Files...\n\n');
+	
+	await generateIntegrationCode(state, stream, token);
+	
+	stream.markdown('\n\n✅ **Integration complete!**\n\n');
+	showIntegrationFileTree(state, stream);
+	stream.markdown('Next steps:\n');
+	stream.markdown('1. Review generated files\n');
+	stream.markdown('2. Write them to the workspace (existing files are diffed first, then the `1500-build` dependency is proposed)\n');
+	stream.markdown('3. Compile and test\n');
+	stream.markdown('4. Use `@dfu /validate` to check\n');
+
+	if (state.platform === 'posix') {
+		if (isMultiEcu(state)) {
+			const units = state.ecus!.map(ecu => `\`${ecu.name}/${daemonServiceFile(ecu.name)}\``).join(', ');
+			stream.markdown(`\n🚀 ${units} start the daemon of each ECU with systemd; order client services after the unit of their ECU (\`After=${daemonUnitName(state.ecus![0].name)}\`).\n`);
+		} else {
+			stream.markdown(`\n🚀 \`${daemonServiceFile()}\` starts the daemon with systemd; order client services after it (\`After=${daemonUnitName()}\`).\n`);
+		}
+		if (buildContext(state).memory.kind === 'shm') {
+			stream.markdown(`Clients map the segment with \`DMIU_SHM_NAME\` and \`DMIU_SHM_SIZE\` from \`api/${SHM_CONFIG_HEADER}\`; \`@dfu /validate\` cross-checks the mappings found in the workspace.\n`);
+		}
+	}
+	if (state.platform === 'autosar') {
+		await showPreOsInsertions(state, stream, index, token);
+	}
+}
+
+/** AUTOSAR: where each integration's PreOS.c should call the initialization, with a button inserting the call */
+async function showPreOsInsertions(
+	state: ConversationState,
+	stream: vscode.ChatResponseStream,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<void> {
+	stream.markdown('\n### PreOS Initialization\n\n');
+	const preOsFiles = toSourceFiles(await readCollection(index, PREOS_SOURCES, token, stream));
+	if (preOsFiles.length === 0) {
+		stream.markdown('⚠️ No `PreOS.c` found in the workspace. Call `DmiuInt_Initialize()` from the startup sequence before `StartOS()`.\n');
+		return;
+	}
+
+	// Every ECU starts its own OS, ECUs sharing a PreOS.c get a single proposal
+	const shown = new Set<string>();
+	for (const target of isMultiEcu(state) ? ecuStates(state) : [state]) {
+		const preOs = closestPreOsFile(preOsFiles, target.integrationPath ?? '')!;
+		if (shown.has(preOs.path)) {
+			continue;
+		}
+		shown.add(preOs.path);
+
+		const prefix = target.ecu ? `ECU \`${target.ecu}\`: ` : '';
+		const insertion = proposePreOsInsertion(preOs);
+		if (!insertion) {
+			stream.markdown(`ℹ️ ${prefix}\`${preOs.path}\` already initializes DMIU or has no startup function to add the call to, \`@dfu /validate\` checks it.\n\n`);
+			continue;
+		}
+		stream.markdown(`${prefix}Add the call to \`${insertion.functionName}()\` in `);
+		stream.anchor(new vscode.Location(toWorkspaceUri(insertion.path), new vscode.Position(insertion.call.line - 1, 0)), `${insertion.path}:${insertion.call.line}`);
+		stream.markdown(':\n\n```diff\n' + describePreOsInsertion(insertion) + '\n```\n\n');
+		stream.button({ command: INSERT_PREOS_COMMAND, title: '$(insert) Insert Initialization', arguments: [insertion.path] });
+	}
+}
+
+/**********************************************************************************************************************
+ *  LANGUAGE MODEL TOOLS
+ *********************************************************************************************************************/
+
+/** Input of `dfu_validateIntegration` */
+interface ValidateToolInput {
+	platform?: 'posix' | 'autosar';
+}
+
+/** Input of `dfu_generateAdapter`; the optional fields answer what the signature leaves open */
+interface AdapterToolInput {
+	functionName: string;
+	role?: AdapterRole;
+	valueKind?: ValueKind;
+	booleanLevel?: 1 | 2;
+	enumMembers?: [string, string];
+	arguments?: string[];
+}
+
+/** Input of `dfu_generateIntegrationFiles` */
+interface IntegrationToolInput extends IntegrationAnswers {
+	/** Write the files into the workspace (asks for confirmation first) */
+	write?: boolean;
+}
+
+/** Registers the dfu_* tools declared in package.json under `languageModelTools` */
+function registerTools(
+	context: vscode.ExtensionContext,
+	diagnostics: vscode.DiagnosticCollection,
+	previews: GeneratedFilePreviewProvider,
+	index: WorkspaceIndex
+): void {
+	context.subscriptions.push(
+		vscode.lm.registerTool<Record<string, never>>('dfu_analyzeWorkspace', {
+			invoke: async (_options, token) => toolResult(await describeWorkspace(index, token))
+		}),
+		vscode.lm.registerTool<ValidateToolInput>('dfu_validateIntegration', {
+			invoke: async (options, token) => toolResult(await describeValidation(diagnostics, index, token, options.input.platform))
+		}),
+		vscode.lm.registerTool<AdapterToolInput>('dfu_generateAdapter', {
+			invoke: async (options, token) => toolResult(await describeAdapter(options.input, index, token))
+		}),
+		vscode.lm.registerTool<IntegrationToolInput>('dfu_generateIntegrationFiles', {
+			prepareInvocation: async options => {
+				if (!options.input.write) {
+					return { invocationMessage: 'Generating DMIU integration files' };
+				}
+				const state = await toolIntegrationState(options.input);
+				const files = flattenDirectories(generateIntegrationDirectories(state, readGeneratorOptions())).map(file => `- \`${file.relativePath}\``).join('\n');
+				return {
+					invocationMessage: 'Writing DMIU integration files',
+					confirmationMessages: {
+						title: 'Write DMIU integration files?',
+						message: new vscode.MarkdownString(`Writes to \`${state.integrationPath}\`:\n\n${files}\n\nExisting files are shown as a diff and need a separate confirmation.`)
+					}
+				};
+			},
+			invoke: async options => {
+				const state = await toolIntegrationState(options.input);
+				const files = flattenDirectories(generateIntegrationDirectories(state, readGeneratorOptions()));
+				const lines = [`Integration path: ${state.integrationPath}`, `Platform: ${state.platform}`, ''];
+
+				if (options.input.write) {
+					const written = await writeIntegrationFiles(state, previews);
+					lines.push(written.length > 0
+						? `Wrote ${written.length} file(s):\n${written.map(uri => `- ${vscode.workspace.asRelativePath(uri)}`).join('\n')}`
+						: 'No files were written (cancelled or already up to date).');
+				} else {
+					lines.push(...files.map(file => `// ${file.relativePath}\n${file.content}`));
+				}
+				return toolResult(lines.join('\n'));
+			}
+		})
+	);
+}
+
+function toolResult(text: string): vscode.LanguageModelToolResult {
+	return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+}
+
+/** Configuration, platform, existing files and ranked function suggestions as plain text */
+async function describeWorkspace(index: WorkspaceIndex, token: vscode.CancellationToken): Promise<string> {
+	const analysis = await analyzeWorkspace(index, token);
+	const { configurations } = await loadConfigurationRegistry();
+	const detected = await detectConfiguration(configurations, index, token);
+	const declarations = await buildDeclarationIndex(index, token);
+	const lines: string[] = [];
+
+	lines.push(`Detected platform: ${analysis.detectedPlatform ?? 'unknown'}`);
+	if (detected.length === 0) {
+		lines.push('MotionWise configuration: none detected');
+	}
+	for (const { configuration, evidence } of detected) {
+		lines.push(`MotionWise configuration: ${configuration.id} (${configuration.label}), integration path ${configuration.integrationPath}`);
+		lines.push(...evidence.map(item => `  - ${item.source}: ${item.line ? `${item.path}:${item.line}` : item.path}`));
+	}
+
+	lines.push('', 'Existing integration files:');
+	lines.push(...(analysis.existingIntegrationFiles.length > 0 ? analysis.existingIntegrationFiles.map(file => `- ${file}`) : ['- none']));
+
+	for (const role of ['memory', 'dataset', 'alternative'] as AdapterRole[]) {
+		lines.push('', `Candidates for ${role}:`);
+		const candidates = declarations.rankCandidates(role);
+		lines.push(...(candidates.length > 0
+			? candidates.map(({ declaration, reasons }) => `- ${declaration.name} (${declaration.path}:${declaration.line}): ${reasons.join(', ')}`)
+			: ['- none']));
+	}
+	return lines.join('\n');
+}
+
+/** Validation results as plain text, findings are published as diagnostics as well */
+async function describeValidation(
+	diagnostics: vscode.DiagnosticCollection,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken,
+	platform?: 'posix' | 'autosar'
+): Promise<string> {
+	const run = await runValidation(diagnostics, index, token, undefined, platform);
+	if (!run) {
+		return 'No DMIU integration files found in the workspace.';
+	}
+
+	const lines = [`Files: ${run.files.join(', ')}`];
+	for (const group of run.groups) {
+		lines.push('');
+		if (run.groups.length > 1) {
+			lines.push(`${group.ecu ? `ECU ${group.ecu}` : 'Integration'}: ${group.directory}`);
+		}
+		lines.push(`Platform: ${group.platform ?? 'unknown'}`);
+		for (const check of group.checks) {
+			lines.push(`[${check.status.toUpperCase()}] ${check.title}`);
+			lines.push(...check.findings.map(finding => `  - ${finding.severity}: ${finding.message}${finding.path ? ` (${finding.path}:${finding.line ?? 1})` : ''}`));
+		}
+	}
+	return lines.join('\n');
+}
+
+/** Adapter source, or the inputs still needed to generate it */
+async function describeAdapter(input: AdapterToolInput, index: WorkspaceIndex, token: vscode.CancellationToken): Promise<string> {
+	const { declaration, enums } = await findFunctionInHeaders(input.functionName, index, token);
+	const { functionName: _functionName, ...answers } = input;
+	const inference = inferAdapter(input.functionName, declaration, answers, enums);
+
+	if (inference.error) {
+		return inference.error;
+	}
+	if (inference.questions.length > 0) {
+		const hints: Record<AdapterQuestion, string> = {
+			role: 'role: memory, dataset or alternative',
+			valueKind: 'valueKind: string, integer, boolean or enum',
+			booleanLevel: 'booleanLevel: 1 or 2, the level TRUE unlocks',
+			enumMapping: `enumMembers: the members meaning Debug Level 1 and 2${enums.length > 0 ? ` (of ${enums.flatMap(e => e.members).join(', ')})` : ''}`,
+			arguments: `arguments: C expressions for ${inputParameters(inference.spec, declaration).map(p => `${p.type} ${p.name}`.trim()).join(', ')}`
+		};
+		return `${declaration ? '' : `No declaration of ${input.functionName} found in the workspace headers. `}Call again with:\n${inference.questions.map(question => `- ${hints[question]}`).join('\n')}`;
+	}
+
+	const spec = inference.spec!;
+	const includes = adapterIncludes(spec);
+	return `${describeAdapterRole(spec.role)}. Replace ${ADAPTER_FUNCTION_NAMES[spec.role]} in src/dmiu_integration.c with:\n\n`
+		+ (includes.length > 0 ? includes.join('\n') + '\n\n' : '') + renderAdapter(spec);
+}
+
+/** Wizard state equivalent to the tool input */
+async function toolIntegrationState(input: IntegrationToolInput): Promise<ConversationState> {
+	// Without a configuration the registry is not needed, the generic integration path applies
+	const configurations = input.configuration ? (await loadConfigurationRegistry()).configurations : [];
+	return buildIntegrationState(input, configurations);
+}
+
 /**********************************************************************************************************************
  *  WORKSPACE ANALYSIS
  *********************************************************************************************************************/
 
-async function analyzeWorkspace(): Promise<WorkspaceAnalysis> {
-	const result: WorkspaceAnalysis = {
-		memoryFunctions: [],
-		datasetFunctions: [],
-		existingIntegrationFiles: []
+/** Existing integration files and the platform their main.c files indicate */
+async function analyzeWorkspace(index: WorkspaceIndex, token: vscode.CancellationToken, stream?: vscode.ChatResponseStream): Promise<WorkspaceAnalysis> {
+	const integrationFiles = await readCollection(index, INTEGRATION_SOURCES, token, stream);
+	const mainSources = await readCollection(index, MAIN_SOURCES, token, stream);
+
+	return {
+		// The host test harness has its own main() and corrupted magic flags on purpose
+		existingIntegrationFiles: [...integrationFiles.keys()].filter(path => !path.includes(`/dmiu/${HARNESS_DIRECTORY}/`)),
+		detectedPlatform: [...mainSources.values()].some(isPosix => isPosix) ? 'posix' : undefined
 	};
+}
 
-	// Check for existing integration files
-	const integrationFiles = await vscode.workspace.findFiles(
-		'**/1800-EcuIntegration/**/dmiu/**/*.{c,h}',
-		'**/node_modules/**',
-		10
-	);
-	
-	result.existingIntegrationFiles = integrationFiles.map(uri => 
-		vscode.workspace.asRelativePath(uri)
-	);
+/** Checks of one integration directory, for multi-ECU configurations of one ECU */
+interface GroupValidation {
+	directory: string;
+	ecu?: string;
+	platform?: 'posix' | 'autosar';
+	checks: CheckResult[];
+}
 
-	// Detect MotionWise configuration from workspace paths
-	const configPatterns: { pattern: string; config: MotionWiseConfig }[] = [
-		{ pattern: '**/1800-ecu-int-rdb2-cp-a/**', config: 'cp-rdb2' },
-		{ pattern: '**/1800-ecu-int-rdb3-cp-a/**', config: 'cp-rdb3' },
-		{ pattern: '**/1710-handwritten-config-sv62/**', config: 'sv62' },
-		{ pattern: '**/1710-handwritten-config-s324sdv/**', config: 's324sdv' },
-		{ pattern: '**/1710-handwritten-config-ch63_2/**', config: 'ch63_2' }
-	];
-
-	for (const { pattern, config } of configPatterns) {
-		const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**', 1);
-		if (files.length > 0) {
-			result.detectedMotionWiseConfig = config;
-			break;
+/**
+ * Validates the integrations found in the workspace, every ECU of a multi-ECU configuration on its own, and
+ * publishes the findings as diagnostics. The platform is inferred from the files unless given.
+ * Returns undefined if there are no integration files.
+ */
+async function runValidation(
+	diagnostics: vscode.DiagnosticCollection,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken,
+	stream?: vscode.ChatResponseStream,
+	platformOverride?: 'posix' | 'autosar'
+): Promise<{ files: string[]; groups: GroupValidation[] } | undefined> {
+	const analysis = await analyzeWorkspace(index, token, stream);
+	diagnostics.clear();
+	if (analysis.existingIntegrationFiles.length === 0) {
+		return undefined;
+	}
+
+	const sources = await readCollection(index, INTEGRATION_SOURCES, token, stream);
+	const integrationFiles = analysis.existingIntegrationFiles.map(path => ({ path, text: sources.get(path)! }));
+	const preOsFiles = toSourceFiles(await readCollection(index, PREOS_SOURCES, token, stream));
+	const integrationBuildFiles = toSourceFiles(await readCollection(index, INTEGRATION_BUILD_FILES, token, stream));
+	const topLevelBuildFiles = toSourceFiles(await readCollection(index, TOP_LEVEL_BUILD_FILES, token, stream));
+	if (token.isCancellationRequested) {
+		return undefined;
+	}
+
+	const platformGroups = groupIntegrationFiles(integrationFiles, integrationBuildFiles).map(group => {
+		// main.c is only generated for POSIX, so its presence is the most reliable platform hint
+		let platform = platformOverride ?? analysis.detectedPlatform;
+		if (!platformOverride && group.integrationFiles.some(file => file.path.endsWith('/main.c'))) {
+			platform = 'posix';
+		} else if (!platformOverride && preOsFiles.length > 0) {
+			platform = 'autosar';
 		}
+		return { group, platform };
+	});
+
+	// Client mappings of the daemon's segment can be anywhere in the workspace, they are only searched for POSIX
+	const shmClientFiles = platformGroups.some(({ platform }) => platform === 'posix')
+		? toSourceFiles(await readCollection(index, SHM_CLIENT_SOURCES, token, stream)).filter(file => file.text)
+		: [];
+	if (token.isCancellationRequested) {
+		return undefined;
 	}
 
-	// Detect POSIX platform
-	const posixFiles = await vscode.workspace.findFiles('**/main.c', '**/node_modules/**', 5);
-	for (const file of posixFiles) {
-		const content = await vscode.workspace.fs.readFile(file);
-		const text = Buffer.from(content).toString('utf8');
-		if (text.includes('PFSW_BUILD_OS_POSIX') || text.includes('ShmM')) {
-			result.detectedPlatform = 'posix';
-			break;
+	const groups = platformGroups.map(({ group, platform }) => {
+		const checks = validateIntegration({ ...group, platform, preOsFiles, topLevelBuildFiles, shmClientFiles });
+		return { directory: group.directory, ecu: group.ecu, platform, checks };
+	});
+	publishDiagnostics(groups.flatMap(group => group.checks), diagnostics);
+	return { files: analysis.existingIntegrationFiles, groups };
+}
+
+/**
+ * Loads the MotionWise configuration registry: built-in configurations, then `dfu.motionwise.configurations`
+ * from the settings, then the workspace registry file. Problems with either source are reported in the stream.
+ */
+async function loadConfigurationRegistry(stream?: vscode.ChatResponseStream): Promise<ConfigurationRegistry> {
+	const settings = vscode.workspace.getConfiguration('dfu.motionwise');
+	const sources: ConfigurationSource[] = [];
+
+	const fromSettings = settings.get<unknown[]>('configurations', []);
+	if (fromSettings.length > 0) {
+		sources.push({ name: 'dfu.motionwise.configurations', entries: fromSettings });
+	}
+
+	const file = settings.get<string>('configurationsFile', CONFIGURATIONS_FILE);
+	if (file && vscode.workspace.workspaceFolders?.length) {
+		const uri = toWorkspaceUri(file);
+		try {
+			const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+			sources.push({ name: file, entries: JSON.parse(text) });
+		} catch (error) {
+			// A missing registry file simply means the defaults and settings are used
+			if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+				stream?.markdown(`⚠️ Could not read \`${file}\`: ${error instanceof Error ? error.message : String(error)}\n\n`);
+			}
 		}
 	}
 
-	// Find common functions
-	const headerFiles = await vscode.workspace.findFiles('**/*.h', '**/node_modules/**', 100);
-	for (const file of headerFiles.slice(0, 50)) {
-		const content = await vscode.workspace.fs.readFile(file);
-		const text = Buffer.from(content).toString('utf8');
-		
-		if (text.includes('ShmM_MapOwner') && !result.memoryFunctions.includes('ShmM_MapOwner')) {
-			result.memoryFunctions.push('ShmM_MapOwner');
+	const registry = buildConfigurationRegistry(sources);
+	for (const error of registry.errors) {
+		stream?.markdown(`⚠️ Ignored configuration: ${error}\n\n`);
+	}
+	return registry;
+}
+
+/** Collects the top-level build files, 1900-sysdef inputs and folder matches and detects the built configurations */
+async function detectConfiguration(
+	configurations: MotionWiseConfiguration[],
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken,
+	stream?: vscode.ChatResponseStream
+): Promise<DetectedConfiguration[]> {
+	const buildFiles = toSourceFiles(await readCollection(index, TOP_LEVEL_BUILD_FILES, token, stream));
+	const sysdefPaths = await index.paths(SYSDEF_GLOB);
+
+	const folderMatches: Record<string, string> = {};
+	for (const config of configurations) {
+		for (const pattern of config.detect) {
+			const [file] = await index.paths(pattern);
+			if (file) {
+				folderMatches[config.id] = file;
+				break;
+			}
+		}
+	}
+
+	return detectConfigurations({ buildFiles, sysdefPaths, folderMatches }, configurations);
+}
+
+/** Declaration index of all workspace headers */
+async function buildDeclarationIndex(index: WorkspaceIndex, token: vscode.CancellationToken, stream?: vscode.ChatResponseStream): Promise<DeclarationIndex> {
+	const declarations = new DeclarationIndex();
+	for (const [path, parsed] of await readCollection(index, HEADERS, token, stream)) {
+		declarations.setFile(path, parsed);
+	}
+	return declarations;
+}
+
+/** Finds a function declaration in the workspace headers, together with the enums its types refer to */
+async function findFunctionInHeaders(
+	functionName: string,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken,
+	stream?: vscode.ChatResponseStream
+): Promise<{ declaration?: CFunctionDeclaration; enums: CEnumDeclaration[] }> {
+	const declarations = await buildDeclarationIndex(index, token, stream);
+	const declaration = declarations.findFunction(functionName);
+	return declaration ? { declaration, enums: declarations.enumsFor(declaration) } : { enums: [] };
+}
+
+/** Asks for a MagicFlagA/MagicFlagB pair and shows the level it encodes */
+async function decodeMagicFlagsCommand(): Promise<void> {
+	const input = await vscode.window.showInputBox({
+		title: 'DFU: Decode Magic Flags',
+		prompt: 'MagicFlagA and MagicFlagB, e.g. "0xDEB00001 0xDEB00001" or a dump "01 00 B0 DE 01 00 B0 DE"',
+		ignoreFocusOut: true,
+		validateInput: value => {
+			const pair = parseMagicFlagPair(value);
+			return 'error' in pair ? pair.error : undefined;
+		}
+	});
+	if (input === undefined) {
+		return;
+	}
+
+	const pair = parseMagicFlagPair(input);
+	if ('error' in pair) {
+		return;
+	}
+	const decoding = decodeMagicFlags(pair.magicFlagA, pair.magicFlagB);
+	const pairText = `${formatMagicFlag(decoding.magicFlagA)}, ${formatMagicFlag(decoding.magicFlagB)}`;
+	if (decoding.level) {
+		vscode.window.showInformationMessage(`DFU: ${pairText} → ${LEVEL_LABELS[decoding.level]}`);
+	} else {
+		vscode.window.showWarningMessage(`DFU: ${pairText} is invalid, DMIU falls back to ${LEVEL_LABELS[decoding.effectiveLevel]}.`,
+			{ modal: true, detail: decoding.problems.join('\n') });
+	}
+}
+
+/** Reads the C/C++ sources, files that do not mention the client API or the magic flags have an empty text */
+async function readAuditSources(index: WorkspaceIndex, token: vscode.CancellationToken, stream?: vscode.ChatResponseStream): Promise<SourceFile[]> {
+	return toSourceFiles(await readCollection(index, AUDIT_SOURCES, token, stream));
+}
+
+function toWorkspaceUri(relativePath: string): vscode.Uri {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	return folder ? vscode.Uri.joinPath(folder.uri, relativePath) : vscode.Uri.file(relativePath);
+}
+
+function toSourceFiles(files: Map<string, string>): SourceFile[] {
+	return [...files].map(([path, text]) => ({ path, text }));
+}
+
+/**********************************************************************************************************************
+ *  WORKSPACE INDEX
+ *********************************************************************************************************************/
+
+/** IndexFileSystem over vscode.workspace, with the usual exclusions */
+function createIndexFileSystem(): IndexFileSystem {
+	return {
+		findFiles: async glob => (await vscode.workspace.findFiles(glob, EXCLUDE_GLOB)).map(uri => vscode.workspace.asRelativePath(uri)),
+		readFile: async path => Buffer.from(await vscode.workspace.fs.readFile(toWorkspaceUri(path))).toString('utf8'),
+		watch: (glob, listener) => {
+			const watcher = vscode.workspace.createFileSystemWatcher(glob);
+			const report = (kind: 'created' | 'changed' | 'deleted') => (uri: vscode.Uri) => {
+				const path = vscode.workspace.asRelativePath(uri);
+				// Watchers do not know the search exclusions
+				if (!path.split('/').includes('node_modules')) {
+					listener({ kind, path });
+				}
+			};
+			watcher.onDidCreate(report('created'));
+			watcher.onDidChange(report('changed'));
+			watcher.onDidDelete(report('deleted'));
+			return watcher;
+		}
+	};
+}
+
+/** Indexes the collections every command needs, so the first command does not wait for them */
+function buildIndexInBackground(index: WorkspaceIndex, onError: (message: string) => void): void {
+	if (!vscode.workspace.workspaceFolders?.length) {
+		return;
+	}
+	(async () => {
+		for (const collection of STARTUP_COLLECTIONS) {
+			await index.files(collection);
+		}
+	})().catch(error => onError(error instanceof Error ? error.message : String(error)));
+}
+
+/**
+ * Reads a collection from the index. While files have to be read, the progress is shown in the chat, at most once
+ * per quarter of the files. Cancelling the request stops the reading.
+ */
+async function readCollection<T>(
+	index: WorkspaceIndex,
+	collection: IndexCollection<T>,
+	token: vscode.CancellationToken,
+	stream?: vscode.ChatResponseStream
+): Promise<Map<string, T>> {
+	let reported = -1;
+	return index.files(collection, token, stream && ((read, total) => {
+		const quarter = Math.floor(read * 4 / total);
+		if (quarter !== reported) {
+			reported = quarter;
+			stream.progress(`Indexing ${collection.label}: ${read} of ${total} file(s) read...`);
+		}
+	}));
+}
+
+/**********************************************************************************************************************
+ *  DIAGNOSTICS
+ *********************************************************************************************************************/
+
+function publishDiagnostics(checks: CheckResult[], diagnostics: vscode.DiagnosticCollection): void {
+	const severities = {
+		error: vscode.DiagnosticSeverity.Error,
+		warning: vscode.DiagnosticSeverity.Warning,
+		info: vscode.DiagnosticSeverity.Information
+	};
+	const byFile = new Map<string, vscode.Diagnostic[]>();
+	// Findings in the common directory of multi-ECU integrations are reported by every ECU, but shown once
+	const seen = new Set<string>();
+
+	for (const check of checks) {
+		for (const finding of check.findings) {
+			const key = `${finding.path}:${finding.line}:${check.id}:${finding.message}`;
+			if (!finding.path || seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			const line = (finding.line ?? 1) - 1;
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+				finding.message,
+				severities[finding.severity]
+			);
+			diagnostic.source = 'dfu';
+			diagnostic.code = check.id;
+			byFile.set(finding.path, [...(byFile.get(finding.path) ?? []), diagnostic]);
+		}
+	}
+
+	for (const [path, fileDiagnostics] of byFile) {
+		diagnostics.set(toWorkspaceUri(path), fileDiagnostics);
+	}
+}
+
+/**********************************************************************************************************************
+ *  DOCUMENTATION QUESTIONS
+ *********************************************************************************************************************/
+
+/**
+ * Answers a free-form question from the passages of the built-in knowledge, the DMIU core documentation and the
+ * `dfu.documentation.folders`: the best matching passages go to the language model and are linked as sources.
+ * Without a model the passages themselves are shown. Returns false if no passage matches the question.
+ */
+async function answerDocumentationQuestion(
+	question: string,
+	stream: vscode.ChatResponseStream,
+	index: WorkspaceIndex,
+	token: vscode.CancellationToken
+): Promise<boolean> {
+	const ranked = rankPassages(question, await readDocumentation(index, token, stream));
+	if (ranked.length === 0 || token.isCancellationRequested) {
+		return false;
+	}
+
+	stream.progress('Asking the language model...');
+	const outcome = await requestWithFallback(selectChatModels, readModelSelectors(), {
+		knowledge: renderPassages(ranked),
+		prompt: buildQuestionPrompt(question, ranked)
+	}, token);
+
+	if (outcome.ok) {
+		try {
+			for await (const chunk of outcome.text) {
+				stream.markdown(chunk);
+			}
+		} catch (error) {
+			stream.markdown(`\n\n⚠️ ${describeModelError(error)}\n`);
+		}
+		stream.markdown('\n\n');
+		if (outcome.droppedSections > 0) {
+			stream.markdown(`_${outcome.droppedSections} passage(s) left out to fit ${outcome.model.name}'s input limit._\n\n`);
+		}
+	} else {
+		stream.markdown(`ℹ️ ${outcome.message} Showing the matching documentation instead.\n\n`);
+		for (const [i, { passage }] of ranked.entries()) {
+			stream.markdown(`### [${i + 1}] ${passage.title}\n\n${excerpt(passage)}\n\n`);
 		}
-		if (text.includes('Per_DS_Read') && !result.datasetFunctions.includes('Per_DS_ReadDSElementDMIU')) {
-			result.datasetFunctions.push('Per_DS_ReadDSElementDMIU');
+	}
+
+	showDocumentationSources(ranked, stream);
+	return true;
+}
+
+/** Passages of the built-in knowledge and of the documentation files in the workspace */
+async function readDocumentation(index: WorkspaceIndex, token: vscode.CancellationToken, stream: vscode.ChatResponseStream): Promise<DocPassage[]> {
+	const folders = vscode.workspace.getConfiguration('dfu.documentation').get<string[]>('folders', []);
+	const collections = [CORE_DOCUMENTATION, ...folders.filter(folder => folder.trim()).map(documentationCollection)];
+	const passages = [...BUILT_IN_DOCUMENTATION];
+	for (const collection of collections) {
+		for (const filePassages of (await readCollection(index, collection, token, stream)).values()) {
+			passages.push(...filePassages);
+		}
+	}
+	return passages;
+}
+
+/** Collection of an extra documentation folder; the index keeps it by glob, so the same folder is read once */
+function documentationCollection(folder: string): IndexCollection<DocPassage[]> {
+	return { glob: documentationGlob(folder), label: `documentation in ${folder}`, parse: parseDocumentation };
+}
+
+function showDocumentationSources(ranked: RankedPassage[], stream: vscode.ChatResponseStream): void {
+	stream.markdown('**Sources:**\n\n');
+	for (const [i, { passage }] of ranked.entries()) {
+		stream.markdown(`${i + 1}. ${passage.title} — `);
+		if (passage.path) {
+			stream.anchor(new vscode.Location(toWorkspaceUri(passage.path), new vscode.Position(passage.line - 1, 0)), describeSource(passage));
+		} else {
+			stream.markdown(`_${passage.source}_`);
 		}
+		stream.markdown('\n');
 	}
+}
+
+function buildQuestionPrompt(question: string, ranked: RankedPassage[]): string {
+	return `Answer the following question about DFU/DMIU (Development Feature Unlocking, Development Mode Initialization Unit) integration.
 
-	return result;
+Question: ${question}
+
+Use only the ${ranked.length} numbered documentation passages given before this message and cite them as [1], [2], ...
+If the passages do not answer the question, say so in one sentence instead of guessing. Keep the answer short; use C
+code snippets only where the passages show the API.`;
 }
 
 /**********************************************************************************************************************
@@ -468,50 +1767,135 @@ async function generateIntegrationCode(
 	stream: vscode.ChatResponseStream,
 	token: vscode.CancellationToken
 ): Promise<void> {
-	const prompt = buildCodeGenerationPrompt(state);
-	
-	const models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o' });
-	
-	if (!models || models.length === 0) {
-		stream.markdown('⚠️ Language Model not available\n\n');
-		stream.markdown(`Config: Platform=${state.platform}, Memory=${state.memoryFunction}, Dataset=${state.datasetFunction}, Alt=${state.alternativeFunction}\n`);
+	// Templates are the source of truth, the language model only reviews them
+	const files = flattenDirectories(generateIntegrationDirectories(state, readGeneratorOptions()));
+
+	for (const file of files) {
+		stream.markdown(`### \`${file.relativePath}\`\n\n`);
+		stream.markdown('```' + file.language + '\n' + file.content + '```\n\n');
+	}
+
+	const refine = vscode.workspace.getConfiguration('dfu').get<boolean>('codeGeneration.refineWithLanguageModel', true);
+	if (!refine) {
 		return;
 	}
 
-	const model = models[0];
-	const messages = [
-		vscode.LanguageModelChatMessage.User(DFU_KNOWLEDGE),
-		vscode.LanguageModelChatMessage.User(prompt)
-	];
+	const outcome = await requestWithFallback(selectChatModels, readModelSelectors(), {
+		knowledge: DFU_KNOWLEDGE,
+		prompt: buildCodeGenerationPrompt(state, files)
+	}, token);
 
-	const response = await model.sendRequest(messages, {}, token);
-	
-	for await (const chunk of response.text) {
-		stream.markdown(chunk);
+	if (!outcome.ok) {
+		stream.markdown(`ℹ️ ${outcome.message} Files generated from built-in templates only.\n\n`);
+		if (outcome.attempts.length > 0) {
+			stream.markdown(outcome.attempts.map(attempt => `- ${attempt}`).join('\n') + '\n');
+		}
+		return;
+	}
+
+	stream.markdown(`## Review Notes (${outcome.model.name})\n\n`);
+	if (outcome.droppedSections > 0) {
+		stream.markdown(`_${outcome.droppedSections} DFU knowledge section(s) left out to fit the model's input limit._\n\n`);
+	}
+
+	try {
+		for await (const chunk of outcome.text) {
+			stream.markdown(chunk);
+		}
+	} catch (error) {
+		stream.markdown(`\n\n⚠️ ${describeModelError(error)}\n`);
 	}
 }
 
-function buildCodeGenerationPrompt(state: ConversationState): string {
-	return `Generate complete DMIU integration for ${state.platform?.toUpperCase()} platform.
+/** Preferred model and fallbacks from the `dfu.languageModel.*` settings */
+function readModelSelectors(): ModelSelector[] {
+	const config = vscode.workspace.getConfiguration('dfu.languageModel');
+	return modelSelectors(
+		{ vendor: config.get<string>('vendor'), family: config.get<string>('family') },
+		config.get<ModelSelector[]>('fallbacks', [])
+	);
+}
+
+/** ModelProvider over vscode.lm, so the request logic only sees ChatModel */
+async function selectChatModels(selector: ModelSelector): Promise<ChatModel[]> {
+	const models = await vscode.lm.selectChatModels(selector);
+	return models.map(model => ({
+		id: model.id,
+		name: model.name,
+		vendor: model.vendor,
+		family: model.family,
+		maxInputTokens: model.maxInputTokens,
+		countTokens: (text, token) => model.countTokens(text, token as vscode.CancellationToken | undefined),
+		sendRequest: async (messages, token) => {
+			const response = await model.sendRequest(
+				messages.map(message => vscode.LanguageModelChatMessage.User(message)), {}, token as vscode.CancellationToken | undefined);
+			return response.text;
+		}
+	}));
+}
+
+/** Shows the generated file layout with a button that writes the files into the workspace */
+function showIntegrationFileTree(state: ConversationState, stream: vscode.ChatResponseStream): void {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder || !state.integrationPath) {
+		return;
+	}
+
+	const files = flattenDirectories(generateIntegrationDirectories(state, readGeneratorOptions()));
+	stream.filetree(toFileTree(files.map(file => file.relativePath)), vscode.Uri.joinPath(folder.uri, state.integrationPath));
+
+	stream.button({
+		command: WRITE_FILES_COMMAND,
+		title: '$(save-all) Write Files to Workspace',
+		arguments: [{ ...state }]
+	});
+	stream.markdown('\n');
+}
+
+/** Relative paths as a chat file tree, directories in the order their first file is generated */
+function toFileTree(paths: string[]): vscode.ChatResponseFileTree[] {
+	const tree: vscode.ChatResponseFileTree[] = [];
+	for (const path of paths) {
+		let level = tree;
+		for (const name of path.split('/').slice(0, -1)) {
+			let directory = level.find(node => node.name === name);
+			if (!directory) {
+				directory = { name, children: [] };
+				level.push(directory);
+			}
+			level = directory.children!;
+		}
+		level.push({ name: path.slice(path.lastIndexOf('/') + 1) });
+	}
+	return tree;
+}
+
+function buildCodeGenerationPrompt(state: ConversationState, files: GeneratedFile[]): string {
+	const fileBlocks = files.map(file => `// ${file.relativePath}\n${file.content}`).join('\n');
+	const ecus = isMultiEcu(state)
+		? `\n- ECUs: one integration each, sharing the magic flag conversion in ${COMMON_DIRECTORY}/\n`
+			+ ecuStates(state).map(ecu => `  - ${ecu.ecu}: memory ${ecu.memoryFunction}, dataset ${ecu.datasetFunction}, alternative ${ecu.alternativeFunction}`).join('\n')
+		: '';
+
+	return `Review the generated DMIU integration for ${state.platform?.toUpperCase()} platform.
 
 Configuration:
 - Platform: ${state.platform}
 - Memory: ${state.memoryFunction}
 - Dataset: ${state.datasetFunction}
-- Alternative: ${state.alternativeFunction}
+- Alternative: ${state.alternativeFunction}${ecus}
 
-Generate these files with TTTech Auto copyright (2025), MISRA justifications, Doxygen docs:
+The files below were generated from deterministic templates and are the baseline:
 
-1. **dmiu_integration.h** - Header with function declarations
-2. **dmiu_integration.c** - Implementation with adapters for user's functions
-${state.platform === 'posix' ? '3. **main.c** - POSIX daemon entry point' : ''}
+${fileBlocks}
 
-Create adapter functions if user's functions don't match required signatures:
-- Memory adapter: Cast/wrap to return Dt_RECORD_DebugUnlockingStruct_DMIU*
-- Dataset adapter: Convert return type to magic flags (0xDEB00001/0xDEB00002/0x00000000)
-- Alternative adapter: Convert to e_Dmiu_Debug_Level with OR logic
+Do not repeat the files. Point out only concrete refinements, each as a short bullet with a code snippet:
+- Memory adapter: cast/wrap correctness for Dt_RECORD_DebugUnlockingStruct_DMIU*
+- Dataset adapter: conversion to magic flags (0xDEB00001/0xDEB00002/0x00000000) given the user's description
+- Alternative adapter: conversion to e_Dmiu_Debug_Level with OR logic
+- Missing MISRA justifications or Doxygen documentation
 
-Show complete, compilable code for each file.`;
+If no refinements are needed, say so in one sentence.`;
 }
 
 export function deactivate() {}
@@ -0,0 +1,488 @@
+import * as vscode from 'vscode';
+import { integrationTargetLabel, proposeBuildReference, TOP_LEVEL_BUILD_GLOB } from './bazel';
+import { AuditReport, renderAuditTable } from './audit';
+import { generateIntegrationDirectories } from './ecus';
+import { findPathPlaceholders, resolvePathPlaceholders, validatePlaceholderValue } from './paths';
+import { proposePreOsInsertion } from './preOs';
+import { BASE_SNAPSHOT_FILE, BaseSnapshot, parseBaseSnapshot, planUpgrade, preserveUserRegions, readGeneratorMarker, renderBaseSnapshot, updateBaseSnapshot, upgradeChanges, UpgradeFile } from './regeneration';
+import { ANSWERS_MARKER, classifyTarget, generateCommonFiles, GENERATED_MARKER, generateIntegrationFiles, GENERATOR_VERSION, GeneratorOptions, TargetStatus } from './templates';
+import { generateTestHarness, HARNESS_DIRECTORY, planHarnessBuilds } from './testHarness';
+import { ConversationState, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  PREVIEW DOCUMENTS
+ *********************************************************************************************************************/
+
+/** URI scheme for read-only previews of generated files */
+export const PREVIEW_SCHEME = 'dfu-preview';
+
+/** Serves generated file contents so they can be shown in a diff editor before anything is written */
+export class GeneratedFilePreviewProvider implements vscode.TextDocumentContentProvider {
+	private readonly contents = new Map<string, string>();
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+	readonly onDidChange = this.changeEmitter.event;
+
+	/** Registers content for a target path and returns the preview URI */
+	setPreview(targetPath: string, content: string): vscode.Uri {
+		const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: targetPath });
+		this.contents.set(uri.path, content);
+		this.changeEmitter.fire(uri);
+		return uri;
+	}
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this.contents.get(uri.path) ?? '';
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+	}
+}
+
+/**********************************************************************************************************************
+ *  FILE WRITING
+ *********************************************************************************************************************/
+
+interface PlannedFile {
+	/** Generator output, as recorded in the base snapshot */
+	file: GeneratedFile;
+	uri: vscode.Uri;
+	status: TargetStatus;
+	/** Output with the user regions of the existing file carried over, as written */
+	content: string;
+}
+
+/**
+ * Writes the integration files for a completed wizard state into the workspace, for multi-ECU configurations the
+ * shared library and every ECU's integration.
+ * Existing files that differ are shown as a diff first; files without the generator marker are treated as
+ * handwritten and only overwritten after an explicit per-file confirmation. Afterwards the dependency on the
+ * integration target is proposed for the top-level build file.
+ * @returns The URIs that were written, empty if the user cancelled.
+ */
+export async function writeIntegrationFiles(
+	state: ConversationState,
+	previews: GeneratedFilePreviewProvider
+): Promise<vscode.Uri[]> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder) {
+		vscode.window.showErrorMessage('DFU: Open a workspace folder before writing integration files.');
+		return [];
+	}
+
+	const integrationPath = await resolveIntegrationPath(state.integrationPath ?? '');
+	if (integrationPath === undefined) {
+		return [];
+	}
+
+	// Generated for the resolved path, ECU integrations refer to the shared library by its Bazel label
+	const directories = generateIntegrationDirectories({ ...state, integrationPath }, readGeneratorOptions());
+	const written: vscode.Uri[] = [];
+	for (const directory of directories) {
+		const uris = await writeGeneratedFiles(folder.uri, directory.path, directory.files, previews);
+		if (!uris) {
+			return written;
+		}
+		written.push(...uris);
+	}
+
+	// The packages are only built once the top-level build depends on them, also for files written earlier
+	for (const directory of directories) {
+		const buildUri = directory.state && await addTopLevelBuildReference(directory.path, directory.state, previews);
+		written.push(...(buildUri ? [buildUri] : []));
+	}
+	return written;
+}
+
+/**
+ * Writes the host unit test harness for a completed wizard state into the `test` folder of the integration.
+ * @returns The URIs that were written, empty if the user cancelled.
+ */
+export async function writeTestHarness(
+	state: ConversationState,
+	previews: GeneratedFilePreviewProvider
+): Promise<vscode.Uri[]> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder) {
+		vscode.window.showErrorMessage('DFU: Open a workspace folder before writing the test harness.');
+		return [];
+	}
+
+	const integrationPath = await resolveIntegrationPath(state.integrationPath ?? '');
+	if (integrationPath === undefined) {
+		return [];
+	}
+
+	// Multi-ECU configurations get a harness in every ECU directory
+	const written: vscode.Uri[] = [];
+	for (const build of planHarnessBuilds({ ...state, integrationPath }, readGeneratorOptions())) {
+		const uris = await writeGeneratedFiles(folder.uri, build.directory ? `${integrationPath}/${build.directory}` : integrationPath, build.harness, previews);
+		if (!uris) {
+			return written;
+		}
+		written.push(...uris);
+	}
+	return written;
+}
+
+/**
+ * Writes generated files below a workspace directory. Existing files that differ are shown as a diff first; files
+ * without the generator marker are treated as handwritten and only overwritten after a per-file confirmation.
+ * User regions of existing files are carried over, and the generator output is recorded as the base for `/upgrade`.
+ * @returns The URIs that were written, or undefined if writing failed.
+ */
+async function writeGeneratedFiles(
+	workspaceUri: vscode.Uri,
+	directory: string,
+	files: GeneratedFile[],
+	previews: GeneratedFilePreviewProvider
+): Promise<vscode.Uri[] | undefined> {
+	const baseUri = vscode.Uri.joinPath(workspaceUri, directory);
+	const planned = await Promise.all(files.map(file => planFile(baseUri, file)));
+
+	const changed = planned.filter(p => p.status === 'generated' || p.status === 'handwritten');
+	for (const plan of changed) {
+		const previewUri = previews.setPreview(plan.uri.path, plan.content);
+		await vscode.commands.executeCommand('vscode.diff', plan.uri, previewUri,
+			`${plan.file.relativePath}: existing ↔ generated`, { preview: false });
+	}
+
+	const toWrite: PlannedFile[] = planned.filter(p => p.status === 'new');
+	const regenerated = changed.filter(p => p.status === 'generated');
+	if (regenerated.length > 0) {
+		const answer = await vscode.window.showWarningMessage(
+			`DFU: ${regenerated.length} previously generated file(s) differ from the new output. Overwrite them?`,
+			{ modal: true, detail: regenerated.map(p => p.file.relativePath).join('\n') },
+			'Overwrite'
+		);
+		if (answer === 'Overwrite') {
+			toWrite.push(...regenerated);
+		}
+	}
+
+	for (const plan of changed.filter(p => p.status === 'handwritten')) {
+		const answer = await vscode.window.showWarningMessage(
+			`DFU: ${plan.file.relativePath} contains handwritten code (no generator marker). Overwrite it anyway?`,
+			{ modal: true, detail: 'Handwritten changes in this file will be lost. Review the diff before confirming.' },
+			'Overwrite Handwritten File'
+		);
+		if (answer === 'Overwrite Handwritten File') {
+			toWrite.push(plan);
+		}
+	}
+
+	if (toWrite.length === 0) {
+		const unchanged = planned.every(p => p.status === 'unchanged');
+		vscode.window.showInformationMessage(unchanged
+			? 'DFU: Generated files are already up to date.'
+			: 'DFU: No generated files were written.');
+		return [];
+	}
+
+	const edit = new vscode.WorkspaceEdit();
+	for (const plan of toWrite) {
+		edit.createFile(plan.uri, { overwrite: true, contents: Buffer.from(plan.content, 'utf8') });
+	}
+	// Files left as they were keep their previous base
+	const snapshotUri = vscode.Uri.joinPath(baseUri, BASE_SNAPSHOT_FILE);
+	const snapshot = updateBaseSnapshot(await readBaseSnapshot(snapshotUri), [...toWrite, ...planned.filter(p => p.status === 'unchanged')].map(p => p.file));
+	edit.createFile(snapshotUri, { overwrite: true, contents: Buffer.from(renderBaseSnapshot(snapshot), 'utf8') });
+	if (!await vscode.workspace.applyEdit(edit)) {
+		vscode.window.showErrorMessage('DFU: Writing generated files failed.');
+		return undefined;
+	}
+	vscode.window.showInformationMessage(`DFU: Wrote ${toWrite.length} file(s) to ${directory}.`);
+	return toWrite.map(p => p.uri);
+}
+
+/** Reads the generator settings (`dfu.bazel.*`) */
+export function readGeneratorOptions(): GeneratorOptions {
+	const dependencies = vscode.workspace.getConfiguration('dfu.bazel').get<string[]>('dependencies', []);
+	return { bazelDependencies: dependencies.length > 0 ? dependencies : undefined };
+}
+
+/**
+ * Proposes the dependency on the integration target in `1500-build/BUILD.bazel`, shown as a diff first.
+ * @returns The URI of the build file if it was changed.
+ */
+async function addTopLevelBuildReference(
+	integrationPath: string,
+	state: ConversationState,
+	previews: GeneratedFilePreviewProvider
+): Promise<vscode.Uri | undefined> {
+	const [buildUri] = await vscode.workspace.findFiles(TOP_LEVEL_BUILD_GLOB, '**/node_modules/**', 1);
+	if (!buildUri) {
+		return undefined;
+	}
+
+	const text = Buffer.from(await vscode.workspace.fs.readFile(buildUri)).toString('utf8');
+	const label = integrationTargetLabel(integrationPath, state.platform ?? 'posix');
+	const proposal = proposeBuildReference(text, integrationPath, label, { target: state.buildTarget, configuration: state.motionwiseConfig, ecu: state.ecu });
+	if (!proposal) {
+		return undefined;
+	}
+
+	const buildPath = vscode.workspace.asRelativePath(buildUri);
+	const previewUri = previews.setPreview(buildUri.path, proposal.text);
+	await vscode.commands.executeCommand('vscode.diff', buildUri, previewUri, `${buildPath}: existing ↔ with DMIU dependency`, { preview: false });
+
+	const answer = await vscode.window.showInformationMessage(
+		`DFU: Add ${label} to ${buildPath}?`,
+		{ modal: true, detail: `The reference is added ${proposal.target ? `to ${proposal.target}` : 'as an alias'} at line ${proposal.line}. Review the diff before confirming.` },
+		'Add Dependency'
+	);
+	if (answer !== 'Add Dependency') {
+		return undefined;
+	}
+
+	const edit = new vscode.WorkspaceEdit();
+	edit.createFile(buildUri, { overwrite: true, contents: Buffer.from(proposal.text, 'utf8') });
+	if (!await vscode.workspace.applyEdit(edit)) {
+		vscode.window.showErrorMessage(`DFU: Updating ${buildPath} failed.`);
+		return undefined;
+	}
+	return buildUri;
+}
+
+/**
+ * Saves the `/audit` result as a Markdown or CSV table, depending on the chosen file extension.
+ * @returns The URI written, or undefined if the user cancelled.
+ */
+export async function exportAuditReport(report: AuditReport): Promise<vscode.Uri | undefined> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	const uri = await vscode.window.showSaveDialog({
+		title: 'DFU: Export Audit Table',
+		defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'dmiu-audit.md') : undefined,
+		filters: { 'Markdown': ['md'], 'CSV': ['csv'] }
+	});
+	if (!uri) {
+		return undefined;
+	}
+
+	const table = renderAuditTable(report, uri.path.toLowerCase().endsWith('.csv') ? 'csv' : 'markdown');
+	await vscode.workspace.fs.writeFile(uri, Buffer.from(table, 'utf8'));
+	const answer = await vscode.window.showInformationMessage(`DFU: Exported the audit to ${vscode.workspace.asRelativePath(uri)}.`, 'Open');
+	if (answer === 'Open') {
+		await vscode.window.showTextDocument(uri);
+	}
+	return uri;
+}
+
+/**
+ * Adds the DMIU initialization to a PreOS.c file, shown as a diff first. The insertion is proposed again from the
+ * current file content, so edits made since the chat proposed it are respected.
+ * @returns The URI of the file if it was changed.
+ */
+export async function insertPreOsInitialization(preOsPath: string, previews: GeneratedFilePreviewProvider): Promise<vscode.Uri | undefined> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	const uri = folder ? vscode.Uri.joinPath(folder.uri, preOsPath) : undefined;
+	const text = uri ? await readText(uri) : undefined;
+	if (!uri || text === undefined) {
+		vscode.window.showErrorMessage(`DFU: ${preOsPath} not found.`);
+		return undefined;
+	}
+	const insertion = proposePreOsInsertion({ path: preOsPath, text });
+	if (!insertion) {
+		vscode.window.showInformationMessage(`DFU: ${preOsPath} already initializes DMIU or has no startup function to add the call to.`);
+		return undefined;
+	}
+
+	const previewUri = previews.setPreview(uri.path, insertion.text);
+	await vscode.commands.executeCommand('vscode.diff', uri, previewUri, `${preOsPath}: existing ↔ with DMIU initialization`, { preview: false });
+
+	const answer = await vscode.window.showInformationMessage(
+		`DFU: Add the DMIU initialization to ${insertion.functionName}() in ${preOsPath}?`,
+		{ modal: true, detail: `The call is added before line ${insertion.call.line}. Review the diff before confirming.` },
+		'Insert Initialization'
+	);
+	if (answer !== 'Insert Initialization') {
+		return undefined;
+	}
+
+	const edit = new vscode.WorkspaceEdit();
+	edit.createFile(uri, { overwrite: true, contents: Buffer.from(insertion.text, 'utf8') });
+	if (!await vscode.workspace.applyEdit(edit)) {
+		vscode.window.showErrorMessage(`DFU: Updating ${preOsPath} failed.`);
+		return undefined;
+	}
+	return uri;
+}
+
+/**********************************************************************************************************************
+ *  INTEGRATION UPGRADE
+ *********************************************************************************************************************/
+
+/** A generated integration in the workspace and what regenerating it with the current templates changes */
+export interface IntegrationUpgrade {
+	/** Workspace-relative integration directory */
+	directory: string;
+	/** Template version recorded in `src/dmiu_integration.c` */
+	version: string;
+	state: ConversationState;
+	files: UpgradeFile[];
+	/** Fresh generator output, the base of the next upgrade */
+	generated: GeneratedFile[];
+}
+
+export type IntegrationInspection = IntegrationUpgrade | { directory: string; error: string };
+
+/** Workspace-relative directories holding a `src/dmiu_integration.c`, or the `src/dmiu_integration_common.c` shared by ECUs */
+export async function findIntegrationDirectories(token?: vscode.CancellationToken): Promise<string[]> {
+	const sources = await vscode.workspace.findFiles('**/src/dmiu_integration{,_common}.c', '**/node_modules/**', undefined, token);
+	return sources.map(uri => vscode.workspace.asRelativePath(vscode.Uri.joinPath(uri, '..', '..'), false)).sort();
+}
+
+/**
+ * Re-derives the answers of an integration directory from its generator markers and plans the upgrade to the
+ * current templates: user regions are carried over, other edits are merged against `.dfu-base.json`.
+ */
+export async function inspectIntegration(directory: string): Promise<IntegrationInspection> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder) {
+		return { directory, error: 'no workspace folder is open' };
+	}
+
+	const baseUri = vscode.Uri.joinPath(folder.uri, directory);
+	const commonSource = await readText(vscode.Uri.joinPath(baseUri, 'src/dmiu_integration_common.c'));
+	const sourcePath = commonSource === undefined ? 'src/dmiu_integration.c' : 'src/dmiu_integration_common.c';
+	const source = commonSource ?? await readText(vscode.Uri.joinPath(baseUri, sourcePath));
+	const marker = source === undefined ? undefined : readGeneratorMarker(source);
+	if (!source || !marker) {
+		return { directory, error: `${sourcePath} has no generator marker` };
+	}
+	if (!marker.answers) {
+		return { directory, error: `${sourcePath} records no answers (no \`${ANSWERS_MARKER}\` line)` };
+	}
+
+	const state: ConversationState = { integrationPath: directory, ...marker.answers, step: 'complete' };
+	const harness = await readText(vscode.Uri.joinPath(baseUri, HARNESS_DIRECTORY, 'dmiu_integration_test.c'));
+	const generated = commonSource !== undefined ? generateCommonFiles(state, readGeneratorOptions()) : [
+		...generateIntegrationFiles(state, readGeneratorOptions()),
+		...(harness?.includes(GENERATED_MARKER) ? generateTestHarness(state) : [])
+	];
+	const existing: Record<string, string | undefined> = {};
+	for (const file of generated) {
+		existing[file.relativePath] = await readText(vscode.Uri.joinPath(baseUri, file.relativePath));
+	}
+
+	return {
+		directory,
+		version: marker.version,
+		state,
+		files: planUpgrade(generated, existing, await readBaseSnapshot(vscode.Uri.joinPath(baseUri, BASE_SNAPSHOT_FILE))),
+		generated
+	};
+}
+
+/** Shows every file the upgrade changes as a diff of the workspace file and the merged result */
+export async function previewUpgrade(upgrade: IntegrationUpgrade, previews: GeneratedFilePreviewProvider): Promise<void> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder) {
+		return;
+	}
+
+	for (const file of upgradeChanges(upgrade.files)) {
+		const uri = vscode.Uri.joinPath(folder.uri, upgrade.directory, file.relativePath);
+		const previewUri = previews.setPreview(uri.path, file.text);
+		if (file.status === 'new') {
+			await vscode.commands.executeCommand('vscode.open', previewUri, { preview: false });
+		} else {
+			const conflicts = file.conflicts > 0 ? ` (${file.conflicts} conflict(s))` : '';
+			await vscode.commands.executeCommand('vscode.diff', uri, previewUri, `${file.relativePath}: workspace ↔ upgraded${conflicts}`, { preview: false });
+		}
+	}
+}
+
+/**
+ * Writes the upgraded files and the new base snapshot. Merge conflicts are only written, with conflict markers,
+ * after a confirmation.
+ * @returns The URIs that were written, empty if nothing changed or the user cancelled.
+ */
+export async function applyUpgrade(upgrade: IntegrationUpgrade): Promise<vscode.Uri[]> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	const changes = upgradeChanges(upgrade.files);
+	if (!folder || changes.length === 0) {
+		vscode.window.showInformationMessage(`DFU: ${upgrade.directory} is already up to date.`);
+		return [];
+	}
+
+	const conflicted = changes.filter(file => file.conflicts > 0);
+	if (conflicted.length > 0) {
+		const answer = await vscode.window.showWarningMessage(
+			`DFU: ${conflicted.reduce((sum, file) => sum + file.conflicts, 0)} merge conflict(s) between your edits and the new templates. Write them with conflict markers?`,
+			{ modal: true, detail: conflicted.map(file => file.relativePath).join('\n') },
+			'Write with Conflict Markers'
+		);
+		if (answer !== 'Write with Conflict Markers') {
+			return [];
+		}
+	}
+
+	const baseUri = vscode.Uri.joinPath(folder.uri, upgrade.directory);
+	const edit = new vscode.WorkspaceEdit();
+	const uris = changes.map(file => vscode.Uri.joinPath(baseUri, file.relativePath));
+	changes.forEach((file, i) => edit.createFile(uris[i], { overwrite: true, contents: Buffer.from(file.text, 'utf8') }));
+
+	// Handwritten files were not generated, they have no base
+	const handwritten = upgrade.files.filter(file => file.status === 'handwritten').map(file => file.relativePath);
+	const snapshotUri = vscode.Uri.joinPath(baseUri, BASE_SNAPSHOT_FILE);
+	const snapshot = updateBaseSnapshot(await readBaseSnapshot(snapshotUri), upgrade.generated.filter(file => !handwritten.includes(file.relativePath)));
+	edit.createFile(snapshotUri, { overwrite: true, contents: Buffer.from(renderBaseSnapshot(snapshot), 'utf8') });
+
+	if (!await vscode.workspace.applyEdit(edit)) {
+		vscode.window.showErrorMessage(`DFU: Upgrading ${upgrade.directory} failed.`);
+		return [];
+	}
+	vscode.window.showInformationMessage(`DFU: Upgraded ${changes.length} file(s) in ${upgrade.directory} to template version ${GENERATOR_VERSION}.`);
+	return uris;
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/**
+ * Asks the user for every `[PLACEHOLDER]` in the integration path.
+ * @returns The resolved path, or undefined if the user cancelled.
+ */
+export async function resolveIntegrationPath(integrationPath: string): Promise<string | undefined> {
+	const values: Record<string, string> = {};
+
+	for (const name of findPathPlaceholders(integrationPath)) {
+		const value = await vscode.window.showInputBox({
+			title: 'DFU: Resolve Integration Path',
+			prompt: `Value for [${name}] in ${integrationPath}`,
+			placeHolder: name === 'PLATFORM' ? 'e.g. RDB2/1800-ecu-int-rdb2-cp-a' : undefined,
+			ignoreFocusOut: true,
+			validateInput: validatePlaceholderValue
+		});
+		if (value === undefined) {
+			return undefined;
+		}
+		values[name] = value.trim();
+	}
+
+	return resolvePathPlaceholders(integrationPath, values);
+}
+
+async function planFile(baseUri: vscode.Uri, file: GeneratedFile): Promise<PlannedFile> {
+	const uri = vscode.Uri.joinPath(baseUri, file.relativePath);
+	const existing = await readText(uri);
+	const content = preserveUserRegions(existing, file.content);
+	return { file, uri, status: classifyTarget(existing, content), content };
+}
+
+/** Reads a text file, undefined if it does not exist */
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+	try {
+		return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+	} catch {
+		return undefined;
+	}
+}
+
+async function readBaseSnapshot(uri: vscode.Uri): Promise<BaseSnapshot | undefined> {
+	const text = await readText(uri);
+	return text === undefined ? undefined : parseBaseSnapshot(text);
+}
@@ -0,0 +1,111 @@
+import { execFile, spawn } from 'child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { HARNESS_COMPILE_ARGS, HARNESS_DIRECTORY, HarnessSummary, parseHarnessOutput } from './testHarness';
+import { GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+export interface HarnessRunOptions {
+	/** Compiler executable, gcc compatible */
+	compiler: string;
+	/** Compiler arguments, those of a single-ECU integration by default */
+	compileArgs?: string[];
+	/** Integration directory among the files, the harness is compiled and run there; the root by default */
+	directory?: string;
+	signal?: AbortSignal;
+	/** Called for every line the harness prints, while it runs */
+	onOutput?: (line: string) => void;
+}
+
+export type HarnessRunResult =
+	| { status: 'passed' | 'failed'; summary: HarnessSummary; output: string }
+	| { status: 'compile-error' | 'run-error'; output: string }
+	| { status: 'no-compiler' | 'cancelled' | 'timeout' };
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const COMPILE_TIMEOUT_MS = 60_000;
+const RUN_TIMEOUT_MS = 30_000;
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Compiles the integration together with its test harness in a temporary directory and runs it. The files are
+ * written relative to that directory, so an ECU integration can be built with the shared library next to it.
+ * Nothing is written to the workspace; the directory is removed afterwards.
+ */
+export async function runHarness(files: GeneratedFile[], options: HarnessRunOptions): Promise<HarnessRunResult> {
+	const directory = await mkdtemp(path.join(tmpdir(), 'dfu-harness-'));
+	try {
+		for (const file of files) {
+			const target = path.join(directory, file.relativePath);
+			await mkdir(path.dirname(target), { recursive: true });
+			await writeFile(target, file.content, 'utf8');
+		}
+
+		const integrationDirectory = path.join(directory, options.directory ?? '');
+		try {
+			await promisify(execFile)(options.compiler, options.compileArgs ?? HARNESS_COMPILE_ARGS, { cwd: integrationDirectory, signal: options.signal, timeout: COMPILE_TIMEOUT_MS });
+		} catch (error) {
+			const failure = error as NodeJS.ErrnoException & { stderr?: string; killed?: boolean };
+			if (failure.code === 'ENOENT') {
+				return { status: 'no-compiler' };
+			}
+			if (failure.name === 'AbortError') {
+				return { status: 'cancelled' };
+			}
+			if (failure.killed) {
+				return { status: 'timeout' };
+			}
+			return { status: 'compile-error', output: failure.stderr || failure.message };
+		}
+
+		const executable = path.join(integrationDirectory, HARNESS_DIRECTORY, process.platform === 'win32' ? 'dmiu_integration_test.exe' : 'dmiu_integration_test');
+		return await runExecutable(executable, integrationDirectory, options);
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+function runExecutable(executable: string, cwd: string, options: HarnessRunOptions): Promise<HarnessRunResult> {
+	return new Promise(resolve => {
+		const child = spawn(executable, [], { cwd, signal: options.signal, timeout: RUN_TIMEOUT_MS });
+		let output = '';
+		let pending = '';
+
+		child.stdout.setEncoding('utf8');
+		child.stdout.on('data', (chunk: string) => {
+			output += chunk;
+			const lines = (pending + chunk).split('\n');
+			pending = lines.pop() ?? '';
+			lines.forEach(line => options.onOutput?.(line));
+		});
+		child.on('error', error => {
+			resolve(error.name === 'AbortError' ? { status: 'cancelled' } : { status: 'run-error', output: error.message });
+		});
+		child.on('close', (code, signal) => {
+			if (pending) {
+				options.onOutput?.(pending);
+			}
+			if (signal === 'SIGTERM' && !options.signal?.aborted) {
+				resolve({ status: 'timeout' });
+				return;
+			}
+			const summary = parseHarnessOutput(output);
+			resolve({ status: code === 0 && summary.failed === 0 ? 'passed' : 'failed', summary, output });
+		});
+	});
+}
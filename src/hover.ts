@@ -0,0 +1,94 @@
+import { decodeMagicFlags, LEVEL_LABELS, magicFlagLevel, renderDecoding } from './magicFlags';
+import { formatMagicFlag } from './templates';
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const LEVEL_TABLE = [
+	'| Level | MagicFlagA | MagicFlagB |',
+	'|---|---|---|',
+	'| DEBUG_LEVEL_SAFE | `0x00000000` | `0x00000000` |',
+	'| DEBUG_LEVEL_1 | `0xDEB00001` | `0xDEB00001` |',
+	'| DEBUG_LEVEL_2 | `0xDEB00002` | `0xDEB00002` |'
+].join('\n');
+
+/** Inline documentation of the DMIU API and config struct, condensed from DFU_KNOWLEDGE */
+export const DMIU_SYMBOL_DOCS: Record<string, string> = {
+	DMIU_Initialize: [
+		'```c\nvoid DMIU_Initialize(config_struct)\n```',
+		'Initializes DMIU (Development Mode Initialization Unit) with the integration config:',
+		'- `target_memory`: pointer to the struct holding MagicFlagA and MagicFlagB\n- `dataset_read_func`: loads the magic flag from persistent storage\n- `debug_level_override_func`: alternative level source, combined with OR logic',
+		'**AUTOSAR:** call from the PreOS.c startup sequence. **POSIX:** call from `main()` of the dmiu daemon.'
+	].join('\n\n'),
+	Dmiu_IsDebugLevel1Active: [
+		'```c\n#include "Debug_Mode.h"\nboolean Dmiu_IsDebugLevel1Active(void)\n```',
+		'Client API: `TRUE` while **Debug Level 1** (basic debugging features) is unlocked.',
+		'If neither level is active the ECU runs in the **Safe Level** (production, no debug features).'
+	].join('\n\n'),
+	Dmiu_IsDebugLevel2Active: [
+		'```c\n#include "Debug_Mode.h"\nboolean Dmiu_IsDebugLevel2Active(void)\n```',
+		'Client API: `TRUE` while **Debug Level 2** (advanced debugging features) is unlocked.',
+		'If neither level is active the ECU runs in the **Safe Level** (production, no debug features).'
+	].join('\n\n'),
+	target_memory: [
+		'**DMIU config:** `Dt_RECORD_DebugUnlockingStruct_DMIU* target_memory`',
+		'Memory holding the two uint32 magic flags MagicFlagA and MagicFlagB. Statically allocated on AUTOSAR, a shared memory segment owned by the daemon on POSIX.',
+		LEVEL_TABLE
+	].join('\n\n'),
+	dataset_read_func: [
+		'**DMIU config:** `uint32 (*dataset_read_func)(void)`',
+		'Loads the magic flag from persistent storage (dataset). Values other than `0xDEB00001`/`0xDEB00002` mean the Safe Level.'
+	].join('\n\n'),
+	debug_level_override_func: [
+		'**DMIU config:** `e_Dmiu_Debug_Level (*debug_level_override_func)(void)`',
+		'Alternative source of the debug level. Combined with the dataset using OR logic: the higher of both levels wins.'
+	].join('\n\n'),
+	MagicFlagA: ['**Dt_RECORD_DebugUnlockingStruct_DMIU:** first magic flag word. Both words must be equal, otherwise the pair is treated as tampered and the Safe Level applies.', LEVEL_TABLE].join('\n\n'),
+	MagicFlagB: ['**Dt_RECORD_DebugUnlockingStruct_DMIU:** second magic flag word. Both words must be equal, otherwise the pair is treated as tampered and the Safe Level applies.', LEVEL_TABLE].join('\n\n')
+};
+
+const HEX_WORD = /\b0[xX]([0-9A-Fa-f]{1,8})[uUlL]*\b/g;
+
+/**********************************************************************************************************************
+ *  HOVER CONTENT
+ *********************************************************************************************************************/
+
+/**
+ * Markdown shown when hovering a position in a C line: documentation for DMIU symbols, or the decoded level for
+ * magic flag literals. When the line holds exactly two magic flag words (a MagicFlagA/B pair) the pair is decoded.
+ */
+export function hoverMarkdown(lineText: string, character: number): string | undefined {
+	const literals = [...lineText.matchAll(HEX_WORD)];
+	const literal = literals.find(match => match.index <= character && character <= match.index + match[0].length);
+	if (literal) {
+		return describeLiteral(literal, literals, lineText);
+	}
+
+	for (const match of lineText.matchAll(/\b[A-Za-z_]\w*\b/g)) {
+		if (match.index <= character && character <= match.index + match[0].length) {
+			return Object.hasOwn(DMIU_SYMBOL_DOCS, match[0]) ? DMIU_SYMBOL_DOCS[match[0]] : undefined;
+		}
+	}
+	return undefined;
+}
+
+function describeLiteral(literal: RegExpMatchArray, literals: RegExpMatchArray[], lineText: string): string | undefined {
+	const flags = literals.filter(match => match[1].length === 8 && (/^deb0/i.test(match[1]) || parseInt(match[1], 16) === 0));
+	if (!flags.includes(literal)) {
+		return undefined;
+	}
+	// Zero words are everywhere in C, they only count as magic flags next to a real one or a magic flag name
+	if (!flags.some(match => /^deb0/i.test(match[1])) && !/magic|debug_?level/i.test(lineText)) {
+		return undefined;
+	}
+
+	if (flags.length === 2) {
+		return `**Magic flag pair**\n\n${renderDecoding(decodeMagicFlags(parseInt(flags[0][1], 16), parseInt(flags[1][1], 16)))}`;
+	}
+	const value = parseInt(literal[1], 16);
+	const level = magicFlagLevel(value);
+	return level
+		? `**Magic flag** \`${formatMagicFlag(value)}\` → ${LEVEL_LABELS[level]}`
+		: `**Magic flag** \`${formatMagicFlag(value)}\` matches no debug level and counts as the Safe Level`;
+}
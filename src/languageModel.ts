@@ -0,0 +1,182 @@
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Which models to try, matching vscode.LanguageModelChatSelector (empty fields match any model) */
+export interface ModelSelector {
+	vendor?: string;
+	family?: string;
+}
+
+/** Minimal cancellation token, structurally compatible with vscode.CancellationToken */
+export interface CancellationSignal {
+	readonly isCancellationRequested: boolean;
+}
+
+/** A chat model as seen by the assistant; implemented over vscode.LanguageModelChat and by fakes in tests */
+export interface ChatModel {
+	readonly id: string;
+	readonly name: string;
+	readonly vendor: string;
+	readonly family: string;
+	readonly maxInputTokens: number;
+	countTokens(text: string, token?: CancellationSignal): PromiseLike<number>;
+	/** Sends user messages and returns the streamed response text */
+	sendRequest(messages: string[], token?: CancellationSignal): PromiseLike<AsyncIterable<string>>;
+}
+
+/** Looks up the models available for a selector, i.e. vscode.lm.selectChatModels */
+export type ModelProvider = (selector: ModelSelector) => PromiseLike<ChatModel[]>;
+
+/** A request made of background knowledge (trimmed first when over budget) and the actual prompt */
+export interface ModelRequest {
+	knowledge: string;
+	prompt: string;
+}
+
+/** Outcome of a request: streamed text from the first model that accepted it, or why none did */
+export type ModelOutcome =
+	| { ok: true; model: ChatModel; text: AsyncIterable<string>; droppedSections: number }
+	| { ok: false; message: string; attempts: string[] };
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Input tokens kept free so the model has room to answer */
+const RESPONSE_RESERVE_TOKENS = 1024;
+
+/** Requests per model before falling back to the next one */
+const MAX_ATTEMPTS_PER_MODEL = 2;
+
+/** LanguageModelError codes, see vscode.LanguageModelError */
+const ERROR_MESSAGES: Record<string, string> = {
+	NoPermissions: 'Access to the language model was not granted. Allow the DFU Integration Assistant to use language models when asked, or check the Copilot settings.',
+	Blocked: 'The language model blocked the request, usually because a rate limit or quota was reached. Try again later or configure another model.',
+	NotFound: 'The configured language model is not available.'
+};
+
+/**********************************************************************************************************************
+ *  MODEL SELECTION
+ *********************************************************************************************************************/
+
+/**
+ * Sends a request to the first usable model of the selectors, in order.
+ * Models that are missing, blocked or too small for the prompt are skipped and other failures are retried once;
+ * a denied permission stops the search because it applies to all models. Knowledge sections are dropped from the end to fit the budget.
+ */
+export async function requestWithFallback(
+	provider: ModelProvider,
+	selectors: ModelSelector[],
+	request: ModelRequest,
+	token?: CancellationSignal
+): Promise<ModelOutcome> {
+	const attempts: string[] = [];
+	const tried = new Set<string>();
+
+	for (const selector of selectors) {
+		const models = await provider(selector);
+		if (models.length === 0) {
+			attempts.push(`${describeSelector(selector)}: no model available`);
+			continue;
+		}
+
+		for (const model of models.filter(candidate => !tried.has(candidate.id))) {
+			tried.add(model.id);
+			if (token?.isCancellationRequested) {
+				return { ok: false, message: 'The request was cancelled.', attempts };
+			}
+
+			const budget = await fitToBudget(model, request, token);
+			if (!budget) {
+				attempts.push(`${model.name}: prompt exceeds ${model.maxInputTokens} input tokens`);
+				continue;
+			}
+
+			for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_MODEL; attempt++) {
+				try {
+					const text = await model.sendRequest(budget.messages, token);
+					return { ok: true, model, text, droppedSections: budget.droppedSections };
+				} catch (error) {
+					const code = errorCode(error);
+					if (code === 'NoPermissions') {
+						attempts.push(`${model.name}: ${describeModelError(error)}`);
+						return { ok: false, message: describeModelError(error), attempts };
+					}
+					// Only unexplained failures are worth a retry, missing or blocked models stay that way
+					if (code === 'Blocked' || code === 'NotFound' || attempt === MAX_ATTEMPTS_PER_MODEL || token?.isCancellationRequested) {
+						attempts.push(`${model.name}: ${describeModelError(error)}`);
+						break;
+					}
+				}
+			}
+		}
+	}
+
+	return { ok: false, message: 'No language model could handle the request.', attempts };
+}
+
+/**
+ * Puts the knowledge and the prompt into messages that fit the model's input limit.
+ * Knowledge is split into `## ` sections that are dropped from the end; returns undefined if even the prompt
+ * alone does not fit.
+ */
+export async function fitToBudget(
+	model: ChatModel,
+	request: ModelRequest,
+	token?: CancellationSignal
+): Promise<{ messages: string[]; droppedSections: number } | undefined> {
+	const budget = model.maxInputTokens - RESPONSE_RESERVE_TOKENS;
+	const promptTokens = await model.countTokens(request.prompt, token);
+	if (promptTokens > budget) {
+		return undefined;
+	}
+
+	const sections = request.knowledge.split(/\n(?=## )/);
+	for (let kept = sections.length; kept > 0; kept--) {
+		const knowledge = sections.slice(0, kept).join('\n');
+		if (promptTokens + await model.countTokens(knowledge, token) <= budget) {
+			return { messages: [knowledge, request.prompt], droppedSections: sections.length - kept };
+		}
+	}
+	return { messages: [request.prompt], droppedSections: sections.length };
+}
+
+/** Preferred model first, then the fallbacks, without duplicates */
+export function modelSelectors(preferred: ModelSelector, fallbacks: ModelSelector[]): ModelSelector[] {
+	const selectors: ModelSelector[] = [];
+	for (const selector of [preferred, ...fallbacks]) {
+		const normalized: ModelSelector = {
+			...(selector.vendor ? { vendor: selector.vendor } : {}),
+			...(selector.family ? { family: selector.family } : {})
+		};
+		if (!selectors.some(existing => existing.vendor === normalized.vendor && existing.family === normalized.family)) {
+			selectors.push(normalized);
+		}
+	}
+	return selectors;
+}
+
+/**********************************************************************************************************************
+ *  ERRORS
+ *********************************************************************************************************************/
+
+/** User-facing explanation of an error thrown by a model (LanguageModelError or anything else) */
+export function describeModelError(error: unknown): string {
+	const code = errorCode(error);
+	const detail = error instanceof Error && error.message ? ` (${error.message})` : '';
+	if (code && ERROR_MESSAGES[code]) {
+		return ERROR_MESSAGES[code] + detail;
+	}
+	return `The language model request failed${detail || ` (${String(error)})`}.`;
+}
+
+/** The `code` of a LanguageModelError, checked structurally so this module stays independent of vscode */
+function errorCode(error: unknown): string | undefined {
+	const code = (error as { code?: unknown } | undefined)?.code;
+	return typeof code === 'string' ? code : undefined;
+}
+
+function describeSelector(selector: ModelSelector): string {
+	return [selector.vendor, selector.family].filter(Boolean).join('/') || 'any model';
+}
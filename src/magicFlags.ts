@@ -0,0 +1,114 @@
+import { formatMagicFlag, MAGIC_FLAGS } from './templates';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+export type DebugLevel = keyof typeof MAGIC_FLAGS;
+
+/** Result of decoding a MagicFlagA/MagicFlagB pair */
+export interface MagicFlagDecoding {
+	magicFlagA: number;
+	magicFlagB: number;
+	/** Level encoded by the pair, undefined if the pair is invalid */
+	level?: DebugLevel;
+	/** Level DMIU falls back to; invalid pairs always yield the Safe Level */
+	effectiveLevel: DebugLevel;
+	/** Why the pair is invalid, empty for valid pairs */
+	problems: string[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Names as used in DFU_KNOWLEDGE */
+export const LEVEL_LABELS: Record<DebugLevel, string> = {
+	safe: 'DEBUG_LEVEL_SAFE',
+	level1: 'DEBUG_LEVEL_1',
+	level2: 'DEBUG_LEVEL_2'
+};
+
+const HEX_LITERAL = /\b0[xX]([0-9A-Fa-f]{1,8})[uUlL]*\b/g;
+
+/** Whitespace separated bytes as printed by memory dump tools, e.g. `01 00 b0 de` */
+const BYTE_DUMP = /^\s*(?:[0-9A-Fa-f]{2}[\s,:]+){7}[0-9A-Fa-f]{2}\s*$/;
+
+/**********************************************************************************************************************
+ *  DECODING
+ *********************************************************************************************************************/
+
+/** Level of a single magic flag word, undefined for unknown patterns */
+export function magicFlagLevel(value: number): DebugLevel | undefined {
+	return (Object.keys(MAGIC_FLAGS) as DebugLevel[]).find(level => MAGIC_FLAGS[level] === value >>> 0);
+}
+
+/**
+ * Decodes a pair the way the generated integration does: both words must be equal and a known level,
+ * anything else is treated as corruption or tampering and yields the Safe Level.
+ */
+export function decodeMagicFlags(magicFlagA: number, magicFlagB: number): MagicFlagDecoding {
+	const a = magicFlagA >>> 0;
+	const b = magicFlagB >>> 0;
+	const problems: string[] = [];
+
+	if (a !== b) {
+		problems.push(`MagicFlagA (${formatMagicFlag(a)}) and MagicFlagB (${formatMagicFlag(b)}) differ, which indicates corruption or tampering`);
+	}
+	const words: [string, number][] = a === b ? [['MagicFlagA/B', a]] : [['MagicFlagA', a], ['MagicFlagB', b]];
+	for (const [name, value] of words) {
+		if (magicFlagLevel(value) === undefined) {
+			const swapped = magicFlagLevel(byteSwap(value));
+			problems.push(swapped
+				? `${name} (${formatMagicFlag(value)}) is ${LEVEL_LABELS[swapped]} with swapped byte order, check the endianness of the dump`
+				: `${name} (${formatMagicFlag(value)}) matches no debug level`);
+		}
+	}
+
+	const level = problems.length === 0 ? magicFlagLevel(a) : undefined;
+	return { magicFlagA: a, magicFlagB: b, level, effectiveLevel: level ?? 'safe', problems };
+}
+
+/**
+ * Reads a MagicFlagA/MagicFlagB pair from pasted text: hex literals (`0xDEB00001U`), bare 8-digit hex words
+ * (`DEB00001`), decimal numbers, or 8 bytes of a little-endian memory dump (`01 00 B0 DE 01 00 B0 DE`).
+ * @returns The pair, or an explanation of what could not be read.
+ */
+export function parseMagicFlagPair(input: string): { magicFlagA: number; magicFlagB: number } | { error: string } {
+	if (BYTE_DUMP.test(input)) {
+		const bytes = input.trim().split(/[\s,:]+/).map(byte => parseInt(byte, 16));
+		const word = (offset: number) => (bytes[offset] | bytes[offset + 1] << 8 | bytes[offset + 2] << 16 | bytes[offset + 3] << 24) >>> 0;
+		return { magicFlagA: word(0), magicFlagB: word(4) };
+	}
+
+	const values = [...input.matchAll(HEX_LITERAL)].map(match => parseInt(match[1], 16));
+	if (values.length === 0) {
+		// Dumps print full 8-digit words in hex, so those are never read as decimal
+		for (const token of input.split(/[\s,;=:()]+/)) {
+			if (/^[0-9A-Fa-f]{8}$/.test(token)) {
+				values.push(parseInt(token, 16));
+			} else if (/^\d+$/.test(token) && Number(token) <= 0xFFFFFFFF) {
+				values.push(Number(token));
+			}
+		}
+	}
+
+	if (values.length !== 2) {
+		return { error: `Expected two values (MagicFlagA and MagicFlagB), found ${values.length}` };
+	}
+	return { magicFlagA: values[0], magicFlagB: values[1] };
+}
+
+/** Markdown summary of a decoded pair, shared by the command, the chat and hovers */
+export function renderDecoding(decoding: MagicFlagDecoding): string {
+	const pair = `\`${formatMagicFlag(decoding.magicFlagA)}\`, \`${formatMagicFlag(decoding.magicFlagB)}\``;
+	if (decoding.level) {
+		return `✅ ${pair} → **${LEVEL_LABELS[decoding.level]}**`;
+	}
+	return `❌ ${pair} → **invalid**, DMIU falls back to **${LEVEL_LABELS[decoding.effectiveLevel]}**\n\n`
+		+ decoding.problems.map(problem => `- ${problem}`).join('\n');
+}
+
+function byteSwap(value: number): number {
+	return ((value & 0xFF) << 24 | (value & 0xFF00) << 8 | (value >>> 8) & 0xFF00 | value >>> 24) >>> 0;
+}
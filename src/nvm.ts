@@ -0,0 +1,194 @@
+import { addReason } from './declarationIndex';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** An NvM block descriptor of the ECU configuration (ARXML `NvMBlockDescriptor` container value) */
+export interface NvmBlock {
+	/** Short name of the container, also part of the block's symbolic id */
+	name: string;
+	/** NvMNvramBlockIdentifier */
+	blockId?: number;
+	/** NvMNvBlockLength in bytes */
+	length?: number;
+	/** NvMRamBlockDataAddress, the permanent RAM block if one is configured */
+	ramBlock?: string;
+	path: string;
+	line: number;
+}
+
+/** An NvM block suggested for the dataset step, with the reasons it was ranked */
+export interface NvmCandidate {
+	block: NvmBlock;
+	score: number;
+	reasons: string[];
+}
+
+/** Element on the parser stack: where its content starts and what is collected from its children */
+interface XmlElement {
+	name: string;
+	contentStart: number;
+	line: number;
+	container?: { shortName?: string; definition?: string; parameters: Map<string, string> };
+	parameter?: { definition?: string; value?: string };
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Dataset answers naming an NvM block instead of a function, e.g. `NvM:NvMBlock_DmiuDataset` */
+export const NVM_ANSWER_PREFIX = 'NvM:';
+
+/** The dataset holds a single uint32 magic flag; blocks of any other length cannot be read into it */
+export const DATASET_BLOCK_LENGTH = 4;
+
+/** Minimum score for a block to be suggested, so unrelated blocks of the right length are left out */
+const MIN_SCORE = 3;
+
+const MAX_CANDIDATES = 5;
+
+/** Tags, comments, CDATA sections and declarations; only tags have a name */
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][^>]*>|<(\/?)([A-Za-z][\w.:-]*)[^>]*?(\/?)>/g;
+
+/** ECUC parameter and reference values, each holding a DEFINITION-REF and a VALUE or VALUE-REF */
+const PARAMETER_VALUE = /^ECUC-(NUMERICAL|TEXTUAL|ADD-INFO)-PARAM-VALUE$|^ECUC-(REFERENCE|INSTANCE-REFERENCE)-VALUE$/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Extracts the NvM block descriptors of an ARXML file. Only the ECUC values are read (container short name and the
+ * block id, length and RAM block parameters), everything else in the file is skipped.
+ */
+export function parseNvmBlocks(text: string, path: string): NvmBlock[] {
+	const blocks: NvmBlock[] = [];
+	const stack: XmlElement[] = [];
+	let line = 1;
+	let lineCursor = 0;
+
+	for (const match of text.matchAll(XML_TOKEN)) {
+		const [token, closing, name, selfClosing] = match;
+		if (!name) {
+			continue;
+		}
+		for (; lineCursor < match.index; lineCursor++) {
+			if (text.charCodeAt(lineCursor) === 10) {
+				line++;
+			}
+		}
+
+		if (!closing) {
+			if (selfClosing) {
+				continue;
+			}
+			const element: XmlElement = { name, contentStart: match.index + token.length, line };
+			if (name === 'ECUC-CONTAINER-VALUE') {
+				element.container = { parameters: new Map() };
+			} else if (PARAMETER_VALUE.test(name)) {
+				element.parameter = {};
+			}
+			stack.push(element);
+			continue;
+		}
+
+		// Unbalanced closing tags are skipped, unclosed elements are closed with their parent
+		const index = stack.map(element => element.name).lastIndexOf(name);
+		if (index < 0) {
+			continue;
+		}
+		const [element] = stack.splice(index);
+		const parent = stack.at(-1);
+		const content = () => decodeEntities(text.slice(element.contentStart, match.index).trim());
+
+		if (name === 'SHORT-NAME' && parent?.container) {
+			parent.container.shortName ??= content();
+		} else if (name === 'DEFINITION-REF' && parent?.container) {
+			parent.container.definition ??= content();
+		} else if (name === 'DEFINITION-REF' && parent?.parameter) {
+			parent.parameter.definition = content();
+		} else if ((name === 'VALUE' || name === 'VALUE-REF') && parent?.parameter) {
+			parent.parameter.value = content();
+		} else if (element.parameter?.definition && element.parameter.value !== undefined) {
+			const container = [...stack].reverse().find(candidate => candidate.container)?.container;
+			container?.parameters.set(lastSegment(element.parameter.definition), element.parameter.value);
+		} else if (element.container?.shortName && lastSegment(element.container.definition ?? '') === 'NvMBlockDescriptor') {
+			blocks.push(toBlock(element.container.shortName, element.container.parameters, path, element.line));
+		}
+	}
+	return blocks;
+}
+
+/**
+ * Ranks NvM blocks as the source of the DMIU dataset: names referring to DMIU or debug unlocking and a length of one
+ * magic flag. Blocks of another length are never suggested, reading them into the magic flag would overflow it.
+ */
+export function rankNvmBlocks(blocks: NvmBlock[]): NvmCandidate[] {
+	return blocks
+		.filter(block => block.length === undefined || block.length === DATASET_BLOCK_LENGTH)
+		.map(block => {
+			const candidate: NvmCandidate = { block, score: 0, reasons: [] };
+			if (/dmiu|dfu/i.test(block.name)) {
+				addReason(candidate, 4, 'name refers to DMIU');
+			}
+			if (/debug|unlock|magic/i.test(block.name)) {
+				addReason(candidate, 3, 'name refers to debug unlocking');
+			}
+			if (block.length === DATASET_BLOCK_LENGTH) {
+				addReason(candidate, 2, `${DATASET_BLOCK_LENGTH} bytes, one magic flag`);
+			} else {
+				addReason(candidate, 0, 'no NvMNvBlockLength configured');
+			}
+			return candidate;
+		})
+		.filter(candidate => candidate.score >= MIN_SCORE)
+		.sort((a, b) => b.score - a.score || a.block.name.localeCompare(b.block.name))
+		.slice(0, MAX_CANDIDATES);
+}
+
+/** Dataset answer reading the given block */
+export function nvmAnswer(block: NvmBlock): string {
+	return `${NVM_ANSWER_PREFIX}${block.name}`;
+}
+
+/** Block name of a dataset answer like `NvM:NvMBlock_DmiuDataset`, undefined for function answers */
+export function nvmBlockOfAnswer(answer: string | undefined): string | undefined {
+	const match = /^\s*NvM:\s*([A-Za-z_][A-Za-z0-9_]*)\s*$/i.exec(answer ?? '');
+	return match?.[1];
+}
+
+/** Symbolic block id the NvM configuration generates for a block descriptor (AUTOSAR NvM SWS naming) */
+export function nvmBlockIdSymbol(blockName: string): string {
+	return `NvMConf_NvMBlockDescriptor_${blockName}`;
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+function toBlock(name: string, parameters: Map<string, string>, path: string, line: number): NvmBlock {
+	const number = (parameter: string) => {
+		const value = parameters.get(parameter);
+		return value !== undefined && /^(0[xX][0-9A-Fa-f]+|\d+)$/.test(value) ? Number(value) : undefined;
+	};
+	return {
+		name,
+		blockId: number('NvMNvramBlockIdentifier'),
+		length: number('NvMNvBlockLength'),
+		ramBlock: parameters.get('NvMRamBlockDataAddress') || undefined,
+		path,
+		line
+	};
+}
+
+function lastSegment(definition: string): string {
+	return definition.slice(definition.lastIndexOf('/') + 1);
+}
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => ENTITIES[entity]);
+}
@@ -0,0 +1,42 @@
+/**********************************************************************************************************************
+ *  INTEGRATION PATH PLACEHOLDERS
+ *********************************************************************************************************************/
+
+const PLACEHOLDER_PATTERN = /\[([A-Z0-9_]+)\]/g;
+
+/** Returns the distinct placeholder names (e.g. `PLATFORM`) contained in a path */
+export function findPathPlaceholders(path: string): string[] {
+	const names: string[] = [];
+	for (const match of path.matchAll(PLACEHOLDER_PATTERN)) {
+		if (!names.includes(match[1])) {
+			names.push(match[1]);
+		}
+	}
+	return names;
+}
+
+/** Replaces every `[NAME]` placeholder for which a value is given, unknown placeholders are kept */
+export function resolvePathPlaceholders(path: string, values: Record<string, string>): string {
+	return path.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Validates a user-supplied placeholder value.
+ * Returns an error message, or undefined if the value is a usable relative path.
+ */
+export function validatePlaceholderValue(value: string): string | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		return 'Value must not be empty';
+	}
+	if (trimmed.startsWith('/') || /^[A-Za-z]:/.test(trimmed)) {
+		return 'Value must be a relative path';
+	}
+	if (trimmed.split(/[\\/]/).some(segment => segment === '..')) {
+		return 'Value must not leave the workspace';
+	}
+	if (/[[\]]/.test(trimmed)) {
+		return 'Value must not contain placeholders';
+	}
+	return undefined;
+}
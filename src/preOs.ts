@@ -0,0 +1,197 @@
+import { lineAt, stripComments, stripPreprocessor } from './cParser';
+import { SourceFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Lines to insert into a file, before the given line */
+export interface LineInsertion {
+	/** 1-based line the text is inserted before; one past the last line appends to the file */
+	line: number;
+	/** Complete lines, each ending with a newline */
+	text: string;
+}
+
+/** Proposed edit of a PreOS.c file adding the DMIU initialization */
+export interface PreOsInsertion {
+	path: string;
+	/** Function the call is added to */
+	functionName: string;
+	/** Include of the integration header, undefined if the file includes it already */
+	include?: LineInsertion;
+	call: LineInsertion;
+	/** File text with both insertions applied */
+	text: string;
+}
+
+/** A function definition at file level */
+interface FunctionDefinition {
+	name: string;
+	/** Offsets of the opening and closing brace of the body */
+	bodyStart: number;
+	bodyEnd: number;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+export const INTEGRATION_HEADER = 'dmiu_integration.h';
+
+const INITIALIZE_CALL = /\b(DMIU_Initialize|DmiuInt_Initialize)\s*\(/;
+
+/** Starting the OS ends the PreOS phase, the initialization has to happen before */
+const START_OS_CALL = /\bStartOS\s*\(/;
+
+/** Functions that look like the PreOS startup sequence when no StartOS() call is found */
+const STARTUP_FUNCTION = /preos|init|startup/i;
+
+const DEFAULT_INDENT = '    ';
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Proposes where to add the DMIU initialization to a PreOS.c file: directly before StartOS() if the file starts the
+ * OS, otherwise at the end of the startup function (the first function named like PreOS/Init/Startup, or the first
+ * function). The include goes after the last include of the file. Undefined if the file already initializes DMIU or
+ * has no startup function the call can be inserted into line by line.
+ */
+export function proposePreOsInsertion(file: SourceFile): PreOsInsertion | undefined {
+	const stripped = stripPreprocessor(stripComments(file.text));
+	if (INITIALIZE_CALL.test(stripped)) {
+		return undefined;
+	}
+	const functions = findFunctionDefinitions(stripped);
+	const lines = file.text.split('\n');
+
+	let call: LineInsertion;
+	let functionName: string;
+	const startOs = functions
+		.map(fn => ({ fn, match: START_OS_CALL.exec(stripped.slice(fn.bodyStart, fn.bodyEnd)) }))
+		.find(candidate => candidate.match);
+	if (startOs?.match) {
+		const line = lineAt(stripped, startOs.fn.bodyStart + startOs.match.index);
+		call = { line, text: renderCall(indentationOf(lines[line - 1])) };
+		functionName = startOs.fn.name;
+	} else {
+		const fn = functions.find(candidate => STARTUP_FUNCTION.test(candidate.name)) ?? functions[0];
+		// A body closed on its opening line has no line to insert before
+		if (!fn || lineAt(stripped, fn.bodyStart) === lineAt(stripped, fn.bodyEnd)) {
+			return undefined;
+		}
+		call = { line: lineAt(stripped, fn.bodyEnd), text: renderCall(bodyIndentation(stripped, fn, lines)) };
+		functionName = fn.name;
+	}
+
+	const include = proposeInclude(file.text);
+	return { path: file.path, functionName, include, call, text: insertLines(lines, [include, call]) };
+}
+
+/**
+ * The PreOS.c belonging to an integration: the one sharing the most leading path segments with the integration
+ * directory, so each ECU of a checkout with several startup sequences gets its own.
+ */
+export function closestPreOsFile<T extends { path: string }>(files: T[], integrationPath: string): T | undefined {
+	const target = integrationPath.split('/');
+	const shared = (path: string) => {
+		const segments = path.split('/');
+		let count = 0;
+		while (count < segments.length && segments[count] === target[count]) {
+			count++;
+		}
+		return count;
+	};
+	return files.reduce<T | undefined>((best, file) => !best || shared(file.path) > shared(best.path) ? file : best, undefined);
+}
+
+/** The proposal as a unified-diff-like snippet for chat messages */
+export function describePreOsInsertion(insertion: PreOsInsertion): string {
+	const added = (text: string) => text.trimEnd().split('\n').map(line => `+${line}`).join('\n');
+	const hunks = [insertion.include, insertion.call]
+		.filter((hunk): hunk is LineInsertion => hunk !== undefined)
+		.map(hunk => `@@ before line ${hunk.line} @@\n${added(hunk.text)}`);
+	return hunks.join('\n');
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+function renderCall(indent: string): string {
+	return `${indent}/* DMIU integration: set the debug level before the OS starts and clients can query it */\n`
+		+ `${indent}(void)DmiuInt_Initialize();\n`;
+}
+
+/** Inserts from the bottom up, so the line numbers of the earlier insertions stay valid */
+function insertLines(lines: string[], insertions: (LineInsertion | undefined)[]): string {
+	const result = [...lines];
+	const sorted = insertions
+		.filter((insertion): insertion is LineInsertion => insertion !== undefined)
+		.sort((a, b) => b.line - a.line);
+	for (const insertion of sorted) {
+		result.splice(insertion.line - 1, 0, ...insertion.text.slice(0, -1).split('\n'));
+	}
+	return result.join('\n');
+}
+
+function proposeInclude(text: string): LineInsertion | undefined {
+	if (new RegExp(`^[ \\t]*#[ \\t]*include[ \\t]*["<]${INTEGRATION_HEADER.replace('.', '\\.')}[">]`, 'm').test(text)) {
+		return undefined;
+	}
+	const includes = [...text.matchAll(/^[ \t]*#[ \t]*include\b.*$/gm)];
+	const last = includes.at(-1);
+	return {
+		line: last ? lineAt(text, last.index) + 1 : 1,
+		text: `#include "${INTEGRATION_HEADER}"\n`
+	};
+}
+
+/** Function definitions at brace depth 0: a `name(...)` head directly followed by a body */
+function findFunctionDefinitions(stripped: string): FunctionDefinition[] {
+	const functions: FunctionDefinition[] = [];
+	let depth = 0;
+	let statementStart = 0;
+	let open: { name?: string; offset: number } | undefined;
+
+	for (let i = 0; i < stripped.length; i++) {
+		const char = stripped[i];
+		if (char === '{') {
+			if (depth === 0) {
+				const head = /\b([A-Za-z_]\w*)\s*\([^()]*\)\s*$/.exec(stripped.slice(statementStart, i));
+				open = { name: head?.[1], offset: i };
+			}
+			depth++;
+		} else if (char === '}' && depth > 0) {
+			depth--;
+			if (depth === 0 && open) {
+				if (open.name) {
+					functions.push({ name: open.name, bodyStart: open.offset, bodyEnd: i });
+				}
+				open = undefined;
+				statementStart = i + 1;
+			}
+		} else if (char === ';' && depth === 0) {
+			statementStart = i + 1;
+		}
+	}
+	return functions;
+}
+
+/** Indentation of the last statement of a body, or one level deeper than its closing brace */
+function bodyIndentation(stripped: string, fn: FunctionDefinition, lines: string[]): string {
+	const firstLine = lineAt(stripped, fn.bodyStart);
+	const lastLine = lineAt(stripped, fn.bodyEnd);
+	for (let line = lastLine - 1; line > firstLine; line--) {
+		if (lines[line - 1].trim() !== '') {
+			return indentationOf(lines[line - 1]);
+		}
+	}
+	return indentationOf(lines[lastLine - 1]) + DEFAULT_INDENT;
+}
+
+function indentationOf(line: string | undefined): string {
+	return /^[ \t]*/.exec(line ?? '')![0];
+}
@@ -0,0 +1,323 @@
+import { ANSWERS_MARKER, GENERATED_MARKER, GENERATOR_VERSION } from './templates';
+import { ConversationState, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Wizard answers recorded in generated files */
+export type RecordedAnswers = Pick<ConversationState,
+	'platform' | 'motionwiseConfig' | 'integrationPath' | 'memoryFunction' | 'datasetFunction' | 'alternativeFunction' | 'ecu' | 'commonLibrary'>;
+
+/** What a generated file tells about the generator that wrote it */
+export interface GeneratorMarker {
+	version: string;
+	/** Undefined when the file has no readable `DFU-ANSWERS:` line */
+	answers?: RecordedAnswers;
+}
+
+/** Generator output as last written to an integration directory, the base of the three-way merge */
+export interface BaseSnapshot {
+	generatorVersion: string;
+	/** Content by path relative to the integration directory, user regions as generated (empty) */
+	files: Record<string, string>;
+}
+
+export interface MergeResult {
+	text: string;
+	conflicts: number;
+}
+
+/**
+ * Outcome of upgrading one file:
+ * - `merged`: template changes and edits outside user regions were combined without conflicts
+ * - `conflict`: both changed the same lines, the text contains conflict markers
+ * - `replaced`: no base snapshot, the new output replaces edits outside user regions
+ * - `handwritten`: the file has no generator marker and is left alone
+ */
+export type UpgradeStatus = 'new' | 'unchanged' | 'merged' | 'conflict' | 'replaced' | 'handwritten';
+
+export interface UpgradeFile {
+	relativePath: string;
+	status: UpgradeStatus;
+	/** Content after the upgrade */
+	text: string;
+	conflicts: number;
+	/** User regions with content that the new templates no longer have */
+	droppedRegions: string[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Base snapshot stored in every integration directory next to the generated files */
+export const BASE_SNAPSHOT_FILE = '.dfu-base.json';
+
+const USER_REGION_LINE = /^[ \t]*(?:\/\*|#)[ \t]*USER CODE (BEGIN|END) ([\w.-]+)[ \t]*(?:\*\/)?[ \t]*$/;
+const TEMPLATE_VERSION = /\(template version (\d+(?:\.\d+)*)\)/;
+const ANSWER_KEYS = ['motionwiseConfig', 'integrationPath', 'memoryFunction', 'datasetFunction', 'alternativeFunction', 'ecu', 'commonLibrary'] as const;
+
+/**********************************************************************************************************************
+ *  MARKERS
+ *********************************************************************************************************************/
+
+/** Reads the template version and recorded answers of a generated file, undefined for handwritten files */
+export function readGeneratorMarker(text: string): GeneratorMarker | undefined {
+	if (!text.includes(GENERATED_MARKER)) {
+		return undefined;
+	}
+	const version = TEMPLATE_VERSION.exec(text)?.[1] ?? '0';
+	const line = text.split('\n').find(candidate => candidate.includes(ANSWERS_MARKER));
+	if (!line) {
+		return { version };
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(line.slice(line.indexOf(ANSWERS_MARKER) + ANSWERS_MARKER.length));
+	} catch {
+		return { version };
+	}
+	if (typeof parsed !== 'object' || parsed === null) {
+		return { version };
+	}
+	const candidate = parsed as { [key: string]: unknown };
+	const answers: RecordedAnswers = { platform: candidate.platform === 'autosar' ? 'autosar' : 'posix' };
+	for (const key of ANSWER_KEYS) {
+		if (typeof candidate[key] === 'string') {
+			answers[key] = candidate[key];
+		}
+	}
+	return { version, answers };
+}
+
+/** Compares dotted version numbers, negative if `a` is older */
+export function compareVersions(a: string, b: string): number {
+	const left = a.split('.').map(Number);
+	const right = b.split('.').map(Number);
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const difference = (left[i] ?? 0) - (right[i] ?? 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+	return 0;
+}
+
+/**********************************************************************************************************************
+ *  USER REGIONS
+ *********************************************************************************************************************/
+
+/** Lines between each `USER CODE BEGIN <name>` and `USER CODE END <name>` pair */
+export function extractUserRegions(text: string): Map<string, string[]> {
+	const regions = new Map<string, string[]>();
+	let open: { name: string; lines: string[] } | undefined;
+
+	for (const line of text.split('\n')) {
+		const marker = USER_REGION_LINE.exec(line);
+		if (marker?.[1] === 'BEGIN' && !open) {
+			open = { name: marker[2], lines: [] };
+		} else if (marker?.[1] === 'END' && open && marker[2] === open.name) {
+			regions.set(open.name, open.lines);
+			open = undefined;
+		} else if (open) {
+			open.lines.push(line);
+		}
+	}
+	return regions;
+}
+
+/**
+ * Fills the user regions of freshly generated text with the given content.
+ * @returns The text and the names of non-empty regions the text has no place for.
+ */
+export function applyUserRegions(text: string, regions: Map<string, string[]>): { text: string; dropped: string[] } {
+	const lines: string[] = [];
+	const used = new Set<string>();
+	let replacing: string | undefined;
+
+	for (const line of text.split('\n')) {
+		const marker = USER_REGION_LINE.exec(line);
+		if (replacing) {
+			if (marker?.[1] === 'END' && marker[2] === replacing) {
+				lines.push(line);
+				replacing = undefined;
+			}
+			continue;
+		}
+		lines.push(line);
+		if (marker?.[1] === 'BEGIN' && regions.has(marker[2])) {
+			lines.push(...regions.get(marker[2])!);
+			used.add(marker[2]);
+			replacing = marker[2];
+		}
+	}
+
+	const dropped = [...regions].filter(([name, content]) => !used.has(name) && content.some(line => line.trim())).map(([name]) => name);
+	return { text: lines.join('\n'), dropped };
+}
+
+/** New generator output with the user regions of the existing file carried over */
+export function preserveUserRegions(existing: string | undefined, generated: string): string {
+	return existing === undefined ? generated : applyUserRegions(generated, extractUserRegions(existing)).text;
+}
+
+/**********************************************************************************************************************
+ *  BASE SNAPSHOTS
+ *********************************************************************************************************************/
+
+/** Parses `.dfu-base.json`, undefined if it is malformed */
+export function parseBaseSnapshot(text: string): BaseSnapshot | undefined {
+	try {
+		const parsed = JSON.parse(text) as Partial<BaseSnapshot>;
+		if (typeof parsed.generatorVersion === 'string' && typeof parsed.files === 'object' && parsed.files !== null
+			&& Object.values(parsed.files).every(content => typeof content === 'string')) {
+			return { generatorVersion: parsed.generatorVersion, files: parsed.files };
+		}
+	} catch {
+		// Treated like a missing snapshot
+	}
+	return undefined;
+}
+
+/** Records freshly written generator output, keeping the entries of files that were not written */
+export function updateBaseSnapshot(previous: BaseSnapshot | undefined, files: GeneratedFile[]): BaseSnapshot {
+	const merged: Record<string, string> = { ...previous?.files };
+	for (const file of files) {
+		merged[file.relativePath] = file.content;
+	}
+	const sorted = Object.fromEntries(Object.keys(merged).sort().map(path => [path, merged[path]]));
+	return { generatorVersion: GENERATOR_VERSION, files: sorted };
+}
+
+export function renderBaseSnapshot(snapshot: BaseSnapshot): string {
+	return JSON.stringify(snapshot, null, '\t') + '\n';
+}
+
+/**********************************************************************************************************************
+ *  THREE-WAY MERGE
+ *********************************************************************************************************************/
+
+/**
+ * Line based three-way merge (diff3). Hunks changed on one side only are taken from that side; hunks changed on both
+ * sides differently become conflicts marked like git does.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels = { ours: 'workspace', theirs: `generator ${GENERATOR_VERSION}` }): MergeResult {
+	const baseLines = base.split('\n');
+	const ourLines = ours.split('\n');
+	const theirLines = theirs.split('\n');
+	const toOurs = matchLines(baseLines, ourLines);
+	const toTheirs = matchLines(baseLines, theirLines);
+
+	const lines: string[] = [];
+	let conflicts = 0;
+	let b = 0;
+	let o = 0;
+	let t = 0;
+	for (;;) {
+		// Next base line that survived on both sides, everything before it is a hunk
+		let stable = b;
+		while (stable < baseLines.length && (toOurs[stable] < 0 || toTheirs[stable] < 0)) {
+			stable++;
+		}
+		const end = stable < baseLines.length;
+		const baseHunk = baseLines.slice(b, stable);
+		const ourHunk = ourLines.slice(o, end ? toOurs[stable] : ourLines.length);
+		const theirHunk = theirLines.slice(t, end ? toTheirs[stable] : theirLines.length);
+
+		if (sameLines(ourHunk, baseHunk)) {
+			lines.push(...theirHunk);
+		} else if (sameLines(theirHunk, baseHunk) || sameLines(ourHunk, theirHunk)) {
+			lines.push(...ourHunk);
+		} else {
+			conflicts++;
+			lines.push(`<<<<<<< ${labels.ours}`, ...ourHunk, '=======', ...theirHunk, `>>>>>>> ${labels.theirs}`);
+		}
+
+		if (!end) {
+			break;
+		}
+		lines.push(baseLines[stable]);
+		b = stable + 1;
+		o = toOurs[stable] + 1;
+		t = toTheirs[stable] + 1;
+	}
+	return { text: lines.join('\n'), conflicts };
+}
+
+/**********************************************************************************************************************
+ *  UPGRADE
+ *********************************************************************************************************************/
+
+/**
+ * Plans the upgrade of an integration directory to new generator output. User regions are always carried over;
+ * edits outside them are merged against the base snapshot, or replaced if there is none.
+ * @param generated Fresh generator output
+ * @param existing Current content by relative path, undefined for missing files
+ */
+export function planUpgrade(generated: GeneratedFile[], existing: Record<string, string | undefined>, snapshot?: BaseSnapshot): UpgradeFile[] {
+	return generated.map((file): UpgradeFile => {
+		const ours = existing[file.relativePath];
+		const result = { relativePath: file.relativePath, conflicts: 0, droppedRegions: [] as string[] };
+		if (ours === undefined) {
+			return { ...result, status: 'new', text: file.content };
+		}
+		if (!ours.includes(GENERATED_MARKER)) {
+			return { ...result, status: 'handwritten', text: ours };
+		}
+
+		const regions = extractUserRegions(ours);
+		const theirs = applyUserRegions(file.content, regions);
+		if (theirs.text === ours) {
+			return { ...result, status: 'unchanged', text: ours };
+		}
+		const base = snapshot?.files[file.relativePath];
+		if (base === undefined) {
+			return { ...result, status: 'replaced', text: theirs.text, droppedRegions: theirs.dropped };
+		}
+
+		const merged = mergeThreeWay(applyUserRegions(base, regions).text, ours, theirs.text);
+		return { ...result, status: merged.conflicts > 0 ? 'conflict' : 'merged', ...merged, droppedRegions: theirs.dropped };
+	});
+}
+
+/** Files whose content an upgrade changes */
+export function upgradeChanges(files: UpgradeFile[]): UpgradeFile[] {
+	return files.filter(file => file.status !== 'unchanged' && file.status !== 'handwritten');
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Longest common subsequence of two line arrays, as the index in `b` matched by each line of `a` (-1 if none) */
+function matchLines(a: string[], b: string[]): Int32Array {
+	const width = b.length + 1;
+	const lengths = new Int32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] = a[i] === b[j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const matches = new Int32Array(a.length).fill(-1);
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			matches[i++] = j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
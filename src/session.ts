@@ -0,0 +1,242 @@
+import { isMultiEcu } from './ecus';
+import { ConversationState, EcuAnswers } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Metadata attached to every ChatResult so the wizard state travels with the chat history */
+export interface DfuChatMetadata {
+	command?: string;
+	state: ConversationState;
+}
+
+/** Minimal shape of a chat history turn needed to restore state (matches vscode.ChatResponseTurn) */
+interface HistoryTurn {
+	participant: string;
+	result?: { metadata?: { [key: string]: unknown } };
+}
+
+/** Wizard answers that can be edited individually */
+export type AnswerField = 'memory' | 'dataset' | 'alternative';
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+const STEPS: ConversationState['step'][] = ['initial', 'config', 'memory', 'dataset', 'alternative', 'complete'];
+
+/** State property holding the answer of each editable step */
+export const ANSWER_FIELDS: Record<AnswerField, 'memoryFunction' | 'datasetFunction' | 'alternativeFunction'> = {
+	memory: 'memoryFunction',
+	dataset: 'datasetFunction',
+	alternative: 'alternativeFunction'
+};
+
+/** Reply that keeps the first ECU's answer for a later ECU of a multi-ECU configuration */
+export const SAME_ANSWER = 'same';
+
+/**********************************************************************************************************************
+ *  STATE RESTORATION
+ *********************************************************************************************************************/
+
+/**
+ * Rebuilds the wizard state from the chat history.
+ * The latest response of this participant carries the state in its metadata, so every chat, retry and reloaded
+ * window sees exactly the state its own history produced.
+ */
+export function restoreState(history: readonly object[], participantId: string): ConversationState {
+	for (let i = history.length - 1; i >= 0; i--) {
+		const turn = history[i] as Partial<HistoryTurn>;
+		if (turn.participant !== participantId || !turn.result) {
+			continue;
+		}
+		const state = turn.result.metadata?.state;
+		if (isConversationState(state)) {
+			return structuredClone(state);
+		}
+	}
+	return { step: 'initial' };
+}
+
+/** Type guard for state deserialized from chat metadata */
+export function isConversationState(value: unknown): value is ConversationState {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const candidate = value as { [key: string]: unknown };
+	const optionalStrings = ['motionwiseConfig', 'integrationPath', 'memoryFunction', 'datasetFunction', 'alternativeFunction', 'ecu', 'commonLibrary'];
+	return STEPS.includes(candidate.step as ConversationState['step'])
+		&& (candidate.platform === undefined || candidate.platform === 'posix' || candidate.platform === 'autosar')
+		&& optionalStrings.every(key => candidate[key] === undefined || typeof candidate[key] === 'string')
+		&& (candidate.ecus === undefined || (Array.isArray(candidate.ecus) && candidate.ecus.every(isEcuAnswers)))
+		&& (candidate.currentEcu === undefined || (Number.isInteger(candidate.currentEcu) && (candidate.currentEcu as number) >= 0))
+		&& (candidate.suggestions === undefined || (Array.isArray(candidate.suggestions) && candidate.suggestions.every(name => typeof name === 'string')))
+		&& (candidate.adapter === undefined || (typeof candidate.adapter === 'object' && candidate.adapter !== null));
+}
+
+function isEcuAnswers(value: unknown): value is EcuAnswers {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const candidate = value as { [key: string]: unknown };
+	return typeof candidate.name === 'string'
+		&& Object.values(ANSWER_FIELDS).every(key => candidate[key] === undefined || typeof candidate[key] === 'string');
+}
+
+/**********************************************************************************************************************
+ *  NAVIGATION
+ *********************************************************************************************************************/
+
+/**
+ * Moves the wizard one step back and clears the answer of the step that is asked again.
+ * Returns undefined when there is no previous question to go back to.
+ */
+export function previousStep(state: ConversationState): ConversationState | undefined {
+	const next: ConversationState = { ...state };
+	if (state.ecus) {
+		next.ecus = state.ecus.map(ecu => ({ ...ecu }));
+	}
+	const index = state.currentEcu ?? 0;
+
+	switch (state.step) {
+		case 'complete':
+			next.step = 'alternative';
+			clearAnswer(next, 'alternative');
+			return next;
+		case 'alternative':
+			next.step = 'dataset';
+			clearAnswer(next, 'dataset');
+			return next;
+		case 'dataset':
+			next.step = 'memory';
+			clearAnswer(next, 'memory');
+			return next;
+		case 'memory':
+			// The first question of a later ECU goes back to the last question of the ECU before
+			if (index > 0) {
+				if (index > 1) {
+					next.currentEcu = index - 1;
+				} else {
+					delete next.currentEcu;
+				}
+				next.step = 'alternative';
+				clearAnswer(next, 'alternative');
+				return next;
+			}
+			if (!state.motionwiseConfig) {
+				return undefined;
+			}
+			next.step = 'config';
+			delete next.motionwiseConfig;
+			delete next.integrationPath;
+			delete next.ecus;
+			return next;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Replaces one answer, keeping the current step. `ecu` is the index in `ecus` for the answers of a later ECU,
+ * where the value `same` goes back to the first ECU's answer.
+ */
+export function editAnswer(state: ConversationState, field: AnswerField, value: string, ecu = 0): ConversationState {
+	if (ecu === 0 || !state.ecus?.[ecu]) {
+		return { ...state, [ANSWER_FIELDS[field]]: value };
+	}
+	const ecus = state.ecus.map(answers => ({ ...answers }));
+	setEcuAnswer(ecus[ecu], field, value);
+	return { ...state, ecus };
+}
+
+/** Whether the step for an answer has already been reached, i.e. the answer exists and may be edited */
+export function isAnswered(state: ConversationState, field: AnswerField, ecu = 0): boolean {
+	if (ecu === 0) {
+		return state[ANSWER_FIELDS[field]] !== undefined;
+	}
+	// Answers of later ECUs may be unset because they reuse the first ECU's, so the wizard position decides
+	const current = state.currentEcu ?? 0;
+	return state.step === 'complete' || ecu < current || (ecu === current && STEPS.indexOf(state.step) > STEPS.indexOf(field));
+}
+
+/** The ECU the wizard is asking about, undefined for single-ECU configurations */
+export function askedEcu(state: ConversationState): EcuAnswers | undefined {
+	return isMultiEcu(state) ? state.ecus![state.currentEcu ?? 0] : undefined;
+}
+
+/** Stores the reply to a step question as the answer of the ECU the wizard is asking about */
+export function setAnswer(state: ConversationState, field: AnswerField, answer: string): void {
+	const index = state.currentEcu ?? 0;
+	if (index === 0 || !state.ecus?.[index]) {
+		state[ANSWER_FIELDS[field]] = answer;
+	} else {
+		setEcuAnswer(state.ecus[index], field, answer);
+	}
+}
+
+/** Moves the wizard on to the next ECU of a multi-ECU configuration, undefined if all ECUs are answered */
+export function nextEcu(state: ConversationState): EcuAnswers | undefined {
+	const index = (state.currentEcu ?? 0) + 1;
+	const ecu = state.ecus?.[index];
+	if (ecu) {
+		state.currentEcu = index;
+	}
+	return ecu;
+}
+
+/**
+ * Resolves a reply to a step question: a number picks the matching suggestion, anything else is taken as is.
+ */
+export function resolveSuggestion(state: ConversationState, reply: string): string {
+	const index = /^\d+$/.test(reply) ? Number(reply) - 1 : -1;
+	return state.suggestions?.[index] ?? reply;
+}
+
+/** Lists the current answers as label/value pairs, in wizard order */
+export function describeAnswers(state: ConversationState): [string, string][] {
+	const answers: [string, string | undefined][] = [
+		['Platform', state.platform],
+		['Configuration', state.motionwiseConfig],
+		['Integration path', state.integrationPath],
+		['ECU', state.ecu]
+	];
+	const labels: Record<AnswerField, string> = { memory: 'Memory', dataset: 'Dataset', alternative: 'Alternative' };
+	const fields = Object.keys(ANSWER_FIELDS) as AnswerField[];
+
+	if (!isMultiEcu(state)) {
+		answers.push(...fields.map((field): [string, string | undefined] => [labels[field], state[ANSWER_FIELDS[field]]]));
+	} else {
+		const [first, ...later] = state.ecus!;
+		answers.push(...fields.map((field): [string, string | undefined] => [`${labels[field]} (${first.name})`, state[ANSWER_FIELDS[field]]]));
+		later.forEach((ecu, i) => {
+			for (const field of fields.filter(candidate => isAnswered(state, candidate, i + 1))) {
+				const own = ecu[ANSWER_FIELDS[field]];
+				answers.push([`${labels[field]} (${ecu.name}${own === undefined ? `, same as ${first.name}` : ''})`, own ?? state[ANSWER_FIELDS[field]]]);
+			}
+		});
+	}
+	return answers.filter((answer): answer is [string, string] => answer[1] !== undefined);
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Clears the answer of the ECU the wizard is asking about */
+function clearAnswer(state: ConversationState, field: AnswerField): void {
+	const index = state.currentEcu ?? 0;
+	if (index === 0 || !state.ecus?.[index]) {
+		delete state[ANSWER_FIELDS[field]];
+	} else {
+		delete state.ecus[index][ANSWER_FIELDS[field]];
+	}
+}
+
+function setEcuAnswer(ecu: EcuAnswers, field: AnswerField, value: string): void {
+	if (value.trim().toLowerCase() === SAME_ANSWER) {
+		delete ecu[ANSWER_FIELDS[field]];
+	} else {
+		ecu[ANSWER_FIELDS[field]] = value;
+	}
+}
@@ -0,0 +1,174 @@
+import { splitArguments } from './adapters';
+import { lineAt, stripComments } from './cParser';
+import { SourceFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A call mapping a shared memory segment, by the daemon (owner) or a client process */
+export interface ShmMapping {
+	/** Mapping function, e.g. `ShmM_MapOwner` or `shm_open` */
+	functionName: string;
+	owner: boolean;
+	/** Segment name, undefined if the argument is neither a string literal nor a macro defined as one */
+	name?: string;
+	/** Size in bytes, undefined if not given (shm_open) or not a constant the check can evaluate */
+	size?: number;
+	/** Arguments as written, for messages */
+	nameArgument: string;
+	sizeArgument?: string;
+	path: string;
+	/** 1-based line number */
+	line: number;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Name of the segment the daemon owns, also used by the service descriptor and the client header */
+export const SHM_SEGMENT_NAME = '/dmiu_debug_unlocking';
+
+/** Size of the segment: sizeof(Dt_RECORD_DebugUnlockingStruct_DMIU), MagicFlagA and MagicFlagB */
+export const SHM_SEGMENT_SIZE = 8;
+
+/** Header with the segment name and size for the daemon and its clients */
+export const SHM_CONFIG_HEADER = 'dmiu_shm_config.h';
+
+/** Types whose sizeof() is known without a compiler */
+const TYPE_SIZES: Record<string, number> = {
+	'Dt_RECORD_DebugUnlockingStruct_DMIU': SHM_SEGMENT_SIZE,
+	'uint8': 1,
+	'uint16': 2,
+	'uint32': 4,
+	'uint64': 8
+};
+
+/** Calls whose first argument names a segment; the ShmM functions take the size as second argument */
+const MAPPING_CALL = /\b(ShmM_Map\w*|shm_open)\s*\(/g;
+
+/** Macro expansion depth, enough for names defined through one or two other macros */
+const MAX_EXPANSIONS = 8;
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/** Whether a source maps shared memory at all, so the index only keeps the text of such files */
+export function mapsSharedMemory(text: string): boolean {
+	return new RegExp(MAPPING_CALL.source).test(text);
+}
+
+/** Object-like `#define`s of the files, later files overriding earlier ones */
+export function collectDefines(files: SourceFile[]): Map<string, string> {
+	const defines = new Map<string, string>();
+	for (const file of files) {
+		for (const match of stripComments(file.text, { keepStrings: true }).matchAll(/^[ \t]*#[ \t]*define[ \t]+([A-Za-z_]\w*)(?![\w(])[ \t]*(.*)$/gm)) {
+			defines.set(match[1], match[2].trim());
+		}
+	}
+	return defines;
+}
+
+/**
+ * Finds the shared memory mappings of a file. Names and sizes are evaluated with the file's own macros on top of
+ * `defines` (typically those of the integration headers a client includes).
+ */
+export function findShmMappings(file: SourceFile, defines: Map<string, string> = new Map()): ShmMapping[] {
+	const text = stripComments(file.text, { keepStrings: true });
+	const macros = new Map([...defines, ...collectDefines([file])]);
+	const mappings: ShmMapping[] = [];
+
+	for (const match of text.matchAll(MAPPING_CALL)) {
+		const argumentList = callArguments(text, match.index + match[0].length);
+		const args = argumentList === undefined ? [] : splitArguments(argumentList);
+		// Prototypes and definitions name parameter types, not values
+		if (args.length === 0 || /^(const\s+)?(char|void|uint\w*)\b/.test(args[0])) {
+			continue;
+		}
+		const functionName = match[1];
+		const sizeArgument = functionName === 'shm_open' ? undefined : args[1];
+		mappings.push({
+			functionName,
+			owner: /Owner/i.test(functionName) || (functionName === 'shm_open' && /\bO_CREAT\b/.test(args[1] ?? '')),
+			name: evaluateString(args[0], macros),
+			size: sizeArgument === undefined ? undefined : evaluateSize(sizeArgument, macros),
+			nameArgument: args[0],
+			sizeArgument,
+			path: file.path,
+			line: lineAt(text, match.index)
+		});
+	}
+	return mappings;
+}
+
+/** Whether a mapping refers to the DMIU segment: by its name, or by a name or size mentioning DMIU */
+export function isDmiuMapping(mapping: ShmMapping, segmentName: string): boolean {
+	return mapping.name === segmentName || /dmiu/i.test(mapping.name ?? mapping.nameArgument) || /DMIU/.test(mapping.sizeArgument ?? '');
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/** Text of a call's arguments up to the closing parenthesis, undefined if the statement ends before it */
+function callArguments(text: string, start: number): string | undefined {
+	let depth = 0;
+	for (const token of text.slice(start).matchAll(/"(?:\\.|[^"\\\n])*"|[();{]/g)) {
+		if (token[0] === '(') {
+			depth++;
+		} else if (token[0] === ')' && depth > 0) {
+			depth--;
+		} else if (token[0] === ')') {
+			return text.slice(start, start + token.index);
+		} else if (token[0] === ';' || token[0] === '{') {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+/** Replaces macros by their definition until only literals, casts and sizeof() are left */
+function expand(expression: string, macros: Map<string, string>): string {
+	let expanded = expression;
+	for (let i = 0; i < MAX_EXPANSIONS; i++) {
+		const next = expanded.replace(/"(?:\\.|[^"\\])*"|\b[A-Za-z_]\w*\b/g, token => token.startsWith('"') ? token : macros.get(token) ?? token);
+		if (next === expanded) {
+			break;
+		}
+		expanded = next;
+	}
+	return expanded;
+}
+
+function evaluateString(expression: string, macros: Map<string, string>): string | undefined {
+	const literal = /^\(*\s*"((?:\\.|[^"\\])*)"\s*\)*$/.exec(expand(expression, macros).trim());
+	return literal?.[1];
+}
+
+/** Sums of integer literals and sizeof() of known types, with casts removed */
+function evaluateSize(expression: string, macros: Map<string, string>): number | undefined {
+	let unknownType = false;
+	const terms = expand(expression, macros)
+		.replace(/\bsizeof\s*\(\s*(\w+)\s*\)/g, (_, type: string) => {
+			unknownType ||= TYPE_SIZES[type] === undefined;
+			return String(TYPE_SIZES[type]);
+		})
+		.replace(/\(\s*(const\s+)?(uint\d+|size_t|unsigned(\s+int|\s+long)?|int|long)\s*\)/g, ' ')
+		.replace(/[()]/g, ' ')
+		.split('+');
+	if (unknownType) {
+		return undefined;
+	}
+
+	let size = 0;
+	for (const term of terms) {
+		const value = /^\s*(0[xX][0-9A-Fa-f]+|\d+)[uUlL]*\s*$/.exec(term);
+		if (!value) {
+			return undefined;
+		}
+		size += Number(value[1]);
+	}
+	return size;
+}
@@ -0,0 +1,755 @@
+import { AdapterSpec, renderAdapter } from './adapters';
+import { nvmBlockIdSymbol, nvmBlockOfAnswer } from './nvm';
+import { SHM_CONFIG_HEADER, SHM_SEGMENT_NAME } from './sharedMemory';
+import { ConversationState, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Version of the template set, bump whenever generated output changes */
+export const GENERATOR_VERSION = '1.8.0';
+
+/** Text stamped into every generated file, used to tell generated files from handwritten ones */
+export const GENERATED_MARKER = 'Generated by the DFU Integration Assistant';
+
+/** Prefix of the banner line recording the wizard answers as JSON, read back by `/upgrade` */
+export const ANSWERS_MARKER = 'DFU-ANSWERS:';
+
+/** Copyright year stamped into generated files (fixed to keep output reproducible) */
+const COPYRIGHT_YEAR = 2025;
+
+/** Bazel library target with the integration layer (header and dmiu_integration.c) */
+export const LIBRARY_TARGET = 'dmiu_integration';
+
+/** Bazel library target with the code shared by the ECUs of a multi-ECU configuration */
+export const COMMON_LIBRARY_TARGET = 'dmiu_integration_common';
+
+/** Bazel binary target of the POSIX daemon (main.c) */
+export const DAEMON_TARGET = 'dmiu_daemon';
+
+
+/** Bazel filegroup of the POSIX deployment descriptors */
+export const DEPLOYMENT_TARGET = 'dmiu_deployment';
+
+/** Dependencies of the library target when none are configured: the DMIU core from 1200-Core */
+export const DEFAULT_BAZEL_DEPENDENCIES = ['//1200-Core/dmiu'];
+
+/** Magic flag values as documented in DFU_KNOWLEDGE */
+export const MAGIC_FLAGS = {
+	safe: 0x00000000,
+	level1: 0xDEB00001,
+	level2: 0xDEB00002
+} as const;
+
+/**********************************************************************************************************************
+ *  TEMPLATE CONTEXT
+ *********************************************************************************************************************/
+
+/** How the target memory for the magic flags is provided */
+export type MemorySource =
+	| { kind: 'static' }
+	| { kind: 'shm'; functionName: string }
+	| { kind: 'custom'; functionName: string };
+
+/** Everything the templates need, derived from the wizard answers */
+export interface TemplateContext {
+	platform: 'posix' | 'autosar';
+	memory: MemorySource;
+	datasetFunction?: string;
+	/** NvM block the dataset is read from, instead of a dataset function */
+	datasetNvmBlock?: string;
+	alternativeFunction?: string;
+	bazelDependencies: string[];
+	/** JSON of the answers for the ANSWERS_MARKER banner line */
+	answers: string;
+	/** ECU name and shared library label of an integration generated per ECU */
+	ecu?: { name: string; commonLibrary: string };
+}
+
+/** Workspace settings that influence the generated files */
+export interface GeneratorOptions {
+	/** Labels the `dmiu_integration` library depends on (DMIU core, ShmM, ...) */
+	bazelDependencies?: string[];
+}
+
+/** Classification of an existing file at the target of a generated file */
+export type TargetStatus = 'new' | 'unchanged' | 'generated' | 'handwritten';
+
+/**
+ * Extracts the C identifier from a free-form wizard answer.
+ * Answers like "MyReader (returns string)" yield "MyReader"; "none" and empty answers yield undefined.
+ */
+export function extractFunctionName(answer: string | undefined): string | undefined {
+	const match = /^\s*`?([A-Za-z_][A-Za-z0-9_]*)/.exec(answer ?? '');
+	if (!match || match[1].toLowerCase() === 'none') {
+		return undefined;
+	}
+	return match[1];
+}
+
+/** Derives the template context from the wizard answers, also used for the test harness */
+export function buildContext(state: ConversationState, options: GeneratorOptions = {}): TemplateContext {
+	const memoryFunction = extractFunctionName(state.memoryFunction);
+	const datasetNvmBlock = nvmBlockOfAnswer(state.datasetFunction);
+	let memory: MemorySource;
+	if (!memoryFunction || memoryFunction.toLowerCase() === 'static') {
+		memory = { kind: 'static' };
+	} else if (memoryFunction === 'ShmM_MapOwner') {
+		memory = { kind: 'shm', functionName: memoryFunction };
+	} else {
+		memory = { kind: 'custom', functionName: memoryFunction };
+	}
+
+	return {
+		platform: state.platform ?? 'posix',
+		memory,
+		datasetFunction: datasetNvmBlock ? undefined : extractFunctionName(state.datasetFunction),
+		datasetNvmBlock,
+		alternativeFunction: extractFunctionName(state.alternativeFunction),
+		bazelDependencies: options.bazelDependencies ?? DEFAULT_BAZEL_DEPENDENCIES,
+		answers: renderAnswers(state),
+		ecu: state.commonLibrary ? { name: state.ecu ?? 'ecu', commonLibrary: state.commonLibrary } : undefined
+	};
+}
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Renders the integration files for the given wizard answers.
+ * Output depends only on the state, so the same answers always produce byte-identical files. States with a
+ * `commonLibrary` get an ECU integration that takes the magic flag conversion from that library.
+ */
+export function generateIntegrationFiles(state: ConversationState, options: GeneratorOptions = {}): GeneratedFile[] {
+	const ctx = buildContext(state, options);
+	const files: GeneratedFile[] = [
+		{ relativePath: 'api/dmiu_integration.h', language: 'c', content: renderHeader(ctx) },
+		{ relativePath: 'src/dmiu_integration.c', language: 'c', content: renderSource(ctx) }
+	];
+	if (ctx.memory.kind === 'shm') {
+		files.push({ relativePath: `api/${SHM_CONFIG_HEADER}`, language: 'c', content: renderShmConfigHeader(ctx) });
+	}
+	if (ctx.platform === 'posix') {
+		files.push({ relativePath: 'src/main.c', language: 'c', content: renderMain(ctx) });
+		files.push({ relativePath: daemonServiceFile(ctx.ecu?.name), language: 'ini', content: renderServiceUnit(ctx) });
+	}
+	files.push({ relativePath: 'BUILD.bazel', language: 'python', content: renderBuildFile(ctx) });
+	return files;
+}
+
+/** Renders the library with the magic flag conversion and OR logic shared by the ECUs of a multi-ECU configuration */
+export function generateCommonFiles(state: ConversationState, options: GeneratorOptions = {}): GeneratedFile[] {
+	const ctx = buildContext(state, options);
+	return [
+		{ relativePath: 'api/dmiu_integration_common.h', language: 'c', content: renderCommonHeader(ctx) },
+		{ relativePath: 'src/dmiu_integration_common.c', language: 'c', content: renderCommonSource(ctx) },
+		{ relativePath: 'BUILD.bazel', language: 'python', content: renderCommonBuildFile(ctx) }
+	];
+}
+
+/**
+ * Classifies the file found at the target of a generated file: missing, identical, written by the generator
+ * earlier (carries GENERATED_MARKER) or handwritten.
+ */
+export function classifyTarget(existing: string | undefined, content: string): TargetStatus {
+	if (existing === undefined) {
+		return 'new';
+	}
+	if (existing === content) {
+		return 'unchanged';
+	}
+	return existing.includes(GENERATED_MARKER) ? 'generated' : 'handwritten';
+}
+
+/** Answers recorded in generated files, in a fixed order so the output stays reproducible */
+function renderAnswers(state: ConversationState): string {
+	const { platform, motionwiseConfig, integrationPath, memoryFunction, datasetFunction, alternativeFunction, ecu, commonLibrary } = state;
+	return JSON.stringify({ platform: platform ?? 'posix', motionwiseConfig, integrationPath, memoryFunction, datasetFunction, alternativeFunction, ecu, commonLibrary });
+}
+
+/** Formats a magic flag as the 8-digit hex literal used in C sources */
+export function formatMagicFlag(value: number): string {
+	return `0x${value.toString(16).toUpperCase().padStart(8, '0')}U`;
+}
+
+/**********************************************************************************************************************
+ *  FILE TEMPLATES
+ *********************************************************************************************************************/
+
+/** Copyright and Doxygen banner of a generated C file, with the answers line for files `/upgrade` re-derives from */
+export function renderFileBanner(fileName: string, brief: string, answers?: string): string {
+	return `/**********************************************************************************************************************
+ *  COPYRIGHT
+ *  -------------------------------------------------------------------------------------------------------------------
+ *  \\verbatim
+ *  Copyright (c) ${COPYRIGHT_YEAR} by TTTech Auto AG. All rights reserved.
+ *  \\endverbatim
+ *  -------------------------------------------------------------------------------------------------------------------
+ *  FILE DESCRIPTION
+ *  -----------------------------------------------------------------------------------------------------------------*/
+/** \\file      ${fileName}
+ *  \\brief     ${brief}
+ *  \\details   ${GENERATED_MARKER} (template version ${GENERATOR_VERSION}).${answers ? `
+ *  \\note      ${ANSWERS_MARKER} ${answers.replace(/\*\//g, '*\\/')}` : ''}
+ *********************************************************************************************************************/
+`;
+}
+
+/**
+ * Empty region for project code that survives regeneration. Content between the markers is carried over from the
+ * existing file whenever the file is generated again.
+ */
+export function renderUserRegion(name: string, indent = '', comment: 'c' | 'python' = 'c'): string {
+	return comment === 'c'
+		? `${indent}/* USER CODE BEGIN ${name} */\n${indent}/* USER CODE END ${name} */`
+		: `${indent}# USER CODE BEGIN ${name}\n${indent}# USER CODE END ${name}`;
+}
+
+export function renderSection(title: string): string {
+	return `
+/**********************************************************************************************************************
+ *  ${title}
+ *********************************************************************************************************************/
+`;
+}
+
+function renderHeader(ctx: TemplateContext): string {
+	const callSite = ctx.platform === 'posix'
+		? 'Called once from the DMIU daemon main() before entering the service loop.'
+		: 'Must be called from the PreOS.c startup sequence before any client queries the debug level.';
+	const includes = ['#include "Std_Types.h"', '#include "Dmiu.h"'];
+	if (ctx.ecu) {
+		includes.push('#include "dmiu_integration_common.h"');
+	}
+
+	return `${renderFileBanner('dmiu_integration.h', `DMIU integration layer ${describeTarget(ctx)}.`, ctx.answers)}
+#ifndef DMIU_INTEGRATION_H
+#define DMIU_INTEGRATION_H
+${renderSection('INCLUDES')}
+${includes.join('\n')}
+${renderSection('GLOBAL FUNCTION PROTOTYPES')}
+/**
+ * \\brief   Initializes the DMIU core with the platform-specific configuration.
+ * \\details ${callSite}
+ * \\return  TRUE if the target memory was available and DMIU_Initialize() was called, FALSE otherwise.
+ */
+boolean DmiuInt_Initialize(void);
+
+${ctx.ecu ? '' : `${CONVERSION_PROTOTYPES}\n`}/**
+ * \\brief   Returns the debug level resulting from the configured dataset and alternative sources.
+ * \\return  Effective debug level.
+ */
+e_Dmiu_Debug_Level DmiuInt_GetEffectiveDebugLevel(void);
+
+${renderUserRegion('declarations')}
+
+#endif /* DMIU_INTEGRATION_H */
+`;
+}
+
+function renderSource(ctx: TemplateContext): string {
+	const includes = ['#include "dmiu_integration.h"'];
+	if (ctx.memory.kind === 'shm') {
+		includes.push('#include "ShmM.h"', `#include "${SHM_CONFIG_HEADER}"`);
+	}
+	if (ctx.datasetNvmBlock) {
+		includes.push('#include "NvM.h"');
+	}
+
+	// ECU integrations take the magic flag macros and the conversion from the shared library
+	const macros = ctx.ecu ? [] : [...MAGIC_FLAG_MACROS];
+	const macroSection = macros.length > 0 ? `${renderSection('LOCAL CONSTANT MACROS')}\n${macros.join('\n')}\n` : '';
+
+	const localData = [
+		'/** Configuration handed to the DMIU core, must outlive DMIU_Initialize() */',
+		'static Dmiu_ConfigType DmiuInt_Config;'
+	];
+	if (ctx.memory.kind === 'static') {
+		localData.push('', '/** Statically allocated target memory for the magic flags */', 'static Dt_RECORD_DebugUnlockingStruct_DMIU DmiuInt_TargetMemory;');
+	}
+	if (ctx.datasetNvmBlock) {
+		localData.push('', `/** Destination of the NvM read of ${ctx.datasetNvmBlock}, valid once the read request succeeded */`, 'static uint32 DmiuInt_NvMDataset = DMIU_INT_MAGIC_FLAG_SAFE;',
+			'', '/** Whether the adapter\'s own NvM_ReadBlock() into DmiuInt_NvMDataset was accepted */', 'static boolean DmiuInt_NvMReadIssued = FALSE;');
+	}
+
+	const prototypes = [
+		'static Dt_RECORD_DebugUnlockingStruct_DMIU* DmiuInt_GetTargetMemory(void);',
+		'static uint32 DmiuInt_DatasetRead(void);',
+		'static e_Dmiu_Debug_Level DmiuInt_DebugLevelOverride(void);'
+	];
+	const localFunctions = [renderMemoryAdapter(ctx), renderDatasetAdapter(ctx), renderAlternativeAdapter(ctx)];
+	if (!ctx.ecu) {
+		prototypes.push(MAGIC_FLAG_TO_LEVEL_PROTOTYPE);
+		localFunctions.push(MAGIC_FLAG_TO_LEVEL);
+	}
+
+	return `${renderFileBanner('dmiu_integration.c', `DMIU integration layer implementation ${describeTarget(ctx)}.`, ctx.answers)}${renderSection('INCLUDES')}
+${includes.join('\n')}
+${renderUserRegion('includes')}
+${macroSection}${renderSection('LOCAL DATA')}
+${localData.join('\n')}
+
+${renderUserRegion('data')}
+${renderSection('LOCAL FUNCTION PROTOTYPES')}
+${prototypes.join('\n')}
+${renderSection('LOCAL FUNCTIONS')}
+${localFunctions.join('\n')}${renderSection('GLOBAL FUNCTIONS')}
+boolean DmiuInt_Initialize(void)
+{
+    boolean result = FALSE;
+    Dt_RECORD_DebugUnlockingStruct_DMIU* const targetMemory = DmiuInt_GetTargetMemory();
+
+    if (targetMemory != NULL_PTR)
+    {
+        DmiuInt_Config.target_memory = targetMemory;
+        DmiuInt_Config.dataset_read_func = &DmiuInt_DatasetRead;
+        DmiuInt_Config.debug_level_override_func = &DmiuInt_DebugLevelOverride;
+
+${renderUserRegion('init', '        ')}
+
+        DMIU_Initialize(&DmiuInt_Config);
+        result = TRUE;
+    }
+
+    return result;
+}
+
+${ctx.ecu ? '' : CONVERSION_FUNCTIONS}e_Dmiu_Debug_Level DmiuInt_GetEffectiveDebugLevel(void)
+{
+    return DmiuInt_ResolveDebugLevel(DmiuInt_DatasetRead(), DmiuInt_DebugLevelOverride());
+}
+
+${renderUserRegion('functions')}
+`;
+}
+
+/** systemd unit of the POSIX daemon; ECUs get their own unit so daemons of several ECUs can share a host */
+export function daemonUnitName(ecu?: string): string {
+	return ecu ? `${DAEMON_TARGET}_${ecuIdentifier(ecu)}.service` : `${DAEMON_TARGET}.service`;
+}
+
+/** File of the daemon's systemd unit, relative to the integration directory */
+export function daemonServiceFile(ecu?: string): string {
+	return `deploy/${daemonUnitName(ecu)}`;
+}
+
+/** Shared memory segment owned by the daemon, per ECU like the systemd unit */
+function segmentName(ctx: TemplateContext): string {
+	return ctx.ecu ? `${SHM_SEGMENT_NAME}_${ecuIdentifier(ctx.ecu.name)}` : SHM_SEGMENT_NAME;
+}
+
+/** ECU name usable in unit, segment and file names */
+function ecuIdentifier(ecu: string): string {
+	return ecu.replace(/\W/g, '_');
+}
+
+/** Platform, and the ECU of integrations generated per ECU, as used in file descriptions */
+function describeTarget(ctx: TemplateContext): string {
+	const platformName = ctx.platform === 'posix' ? 'POSIX' : 'AUTOSAR';
+	return ctx.ecu ? `of ECU ${ctx.ecu.name} for the ${platformName} platform` : `for the ${platformName} platform`;
+}
+
+function renderCommonHeader(ctx: TemplateContext): string {
+	return `${renderFileBanner('dmiu_integration_common.h', 'Magic flag conversion and OR logic shared by the ECU integrations.', ctx.answers)}
+#ifndef DMIU_INTEGRATION_COMMON_H
+#define DMIU_INTEGRATION_COMMON_H
+${renderSection('INCLUDES')}
+#include "Std_Types.h"
+#include "Dmiu.h"
+${renderSection('GLOBAL CONSTANT MACROS')}
+${MAGIC_FLAG_MACROS.join('\n')}
+${renderSection('GLOBAL FUNCTION PROTOTYPES')}
+${CONVERSION_PROTOTYPES}
+${renderUserRegion('declarations')}
+
+#endif /* DMIU_INTEGRATION_COMMON_H */
+`;
+}
+
+function renderCommonSource(ctx: TemplateContext): string {
+	return `${renderFileBanner('dmiu_integration_common.c', 'Magic flag conversion and OR logic shared by the ECU integrations.', ctx.answers)}${renderSection('INCLUDES')}
+#include "dmiu_integration_common.h"
+${renderUserRegion('includes')}
+${renderSection('LOCAL FUNCTION PROTOTYPES')}
+${MAGIC_FLAG_TO_LEVEL_PROTOTYPE}
+${renderSection('LOCAL FUNCTIONS')}
+${MAGIC_FLAG_TO_LEVEL}${renderSection('GLOBAL FUNCTIONS')}
+${CONVERSION_FUNCTIONS}${renderUserRegion('functions')}
+`;
+}
+
+/**********************************************************************************************************************
+ *  SHARED CODE
+ *********************************************************************************************************************/
+
+const MAGIC_FLAG_MACROS = [
+	`#define DMIU_INT_MAGIC_FLAG_SAFE     (${formatMagicFlag(MAGIC_FLAGS.safe)})`,
+	`#define DMIU_INT_MAGIC_FLAG_LEVEL_1  (${formatMagicFlag(MAGIC_FLAGS.level1)})`,
+	`#define DMIU_INT_MAGIC_FLAG_LEVEL_2  (${formatMagicFlag(MAGIC_FLAGS.level2)})`
+];
+
+const CONVERSION_PROTOTYPES = `/**
+ * \\brief   Converts a magic flag pair to a debug level.
+ * \\details Pairs that differ or do not match a known pattern are treated as tampered and yield the Safe Level.
+ * \\param   magicFlagA  First magic flag word.
+ * \\param   magicFlagB  Second magic flag word.
+ * \\return  Debug level encoded by the pair.
+ */
+e_Dmiu_Debug_Level DmiuInt_MagicFlagsToLevel(uint32 magicFlagA, uint32 magicFlagB);
+
+/**
+ * \\brief   Combines the dataset level with the alternative override level using OR semantics.
+ * \\details The higher of both levels wins; the override can raise but never lower the dataset level.
+ * \\param   datasetMagicFlag  Magic flag read from the persistent dataset.
+ * \\param   overrideLevel     Debug level from the alternative source.
+ * \\return  Effective debug level.
+ */
+e_Dmiu_Debug_Level DmiuInt_ResolveDebugLevel(uint32 datasetMagicFlag, e_Dmiu_Debug_Level overrideLevel);
+`;
+
+const MAGIC_FLAG_TO_LEVEL_PROTOTYPE = 'static e_Dmiu_Debug_Level DmiuInt_MagicFlagToLevel(uint32 magicFlag);';
+
+const MAGIC_FLAG_TO_LEVEL = `/**
+ * \\brief   Maps a single magic flag word to a debug level, unknown values yield the Safe Level.
+ */
+static e_Dmiu_Debug_Level DmiuInt_MagicFlagToLevel(uint32 magicFlag)
+{
+    e_Dmiu_Debug_Level level = DMIU_DEBUG_LEVEL_SAFE;
+
+    if (magicFlag == DMIU_INT_MAGIC_FLAG_LEVEL_2)
+    {
+        level = DMIU_DEBUG_LEVEL_2;
+    }
+    else if (magicFlag == DMIU_INT_MAGIC_FLAG_LEVEL_1)
+    {
+        level = DMIU_DEBUG_LEVEL_1;
+    }
+    else
+    {
+        /* Safe Level for DMIU_INT_MAGIC_FLAG_SAFE and any unknown pattern */
+    }
+
+    return level;
+}
+`;
+
+const CONVERSION_FUNCTIONS = `e_Dmiu_Debug_Level DmiuInt_MagicFlagsToLevel(uint32 magicFlagA, uint32 magicFlagB)
+{
+    e_Dmiu_Debug_Level level = DMIU_DEBUG_LEVEL_SAFE;
+
+    /* Both words must agree, a mismatching pair indicates corruption or tampering */
+    if (magicFlagA == magicFlagB)
+    {
+        level = DmiuInt_MagicFlagToLevel(magicFlagA);
+    }
+
+    return level;
+}
+
+e_Dmiu_Debug_Level DmiuInt_ResolveDebugLevel(uint32 datasetMagicFlag, e_Dmiu_Debug_Level overrideLevel)
+{
+    const e_Dmiu_Debug_Level datasetLevel = DmiuInt_MagicFlagToLevel(datasetMagicFlag);
+    e_Dmiu_Debug_Level level = DMIU_DEBUG_LEVEL_SAFE;
+
+    if ((datasetLevel == DMIU_DEBUG_LEVEL_2) || (overrideLevel == DMIU_DEBUG_LEVEL_2))
+    {
+        level = DMIU_DEBUG_LEVEL_2;
+    }
+    else if ((datasetLevel == DMIU_DEBUG_LEVEL_1) || (overrideLevel == DMIU_DEBUG_LEVEL_1))
+    {
+        level = DMIU_DEBUG_LEVEL_1;
+    }
+    else
+    {
+        /* Neither source unlocks debugging: Safe Level */
+    }
+
+    return level;
+}
+
+`;
+
+function renderMemoryAdapter(ctx: TemplateContext): string {
+	const doc = `/**
+ * \\brief   Memory adapter: provides the target memory holding MagicFlagA/MagicFlagB.`;
+
+	switch (ctx.memory.kind) {
+		case 'static':
+			return `${doc}
+ * \\details Uses a statically allocated variable owned by this module.
+ */
+static Dt_RECORD_DebugUnlockingStruct_DMIU* DmiuInt_GetTargetMemory(void)
+{
+    return &DmiuInt_TargetMemory;
+}
+`;
+		case 'shm':
+			return `${doc}
+ * \\details Maps the shared memory segment as owner so client processes can read the flags; clients map it with the
+ *          name and size from ${SHM_CONFIG_HEADER}.
+ */
+static Dt_RECORD_DebugUnlockingStruct_DMIU* DmiuInt_GetTargetMemory(void)
+{
+    /* MISRA C:2012 Rule 11.5 deviation: ${ctx.memory.functionName}() returns void*, the segment is sized and aligned
+     * for Dt_RECORD_DebugUnlockingStruct_DMIU by the mapping request below. */
+    return (Dt_RECORD_DebugUnlockingStruct_DMIU*)${ctx.memory.functionName}(DMIU_SHM_NAME, DMIU_SHM_SIZE);
+}
+`;
+		case 'custom':
+			return `${doc}
+ * \\details Wraps the project function ${ctx.memory.functionName}().
+ */
+static Dt_RECORD_DebugUnlockingStruct_DMIU* DmiuInt_GetTargetMemory(void)
+{
+    /* MISRA C:2012 Rule 11.5 deviation: ${ctx.memory.functionName}() returns a generic pointer to a region reserved
+     * for Dt_RECORD_DebugUnlockingStruct_DMIU. */
+    return (Dt_RECORD_DebugUnlockingStruct_DMIU*)${ctx.memory.functionName}();
+}
+`;
+	}
+}
+
+function renderDatasetAdapter(ctx: TemplateContext): string {
+	if (ctx.datasetNvmBlock) {
+		const blockId = nvmBlockIdSymbol(ctx.datasetNvmBlock);
+		return `/**
+ * \\brief   Dataset adapter: reads the magic flag from the NvM block ${ctx.datasetNvmBlock}.
+ * \\details The block is read once with NvM_ReadBlock(); until that read has succeeded, and after it failed, the
+ *          Safe Level is reported and the read is requested again. The block status alone is not trusted: after
+ *          NvM_ReadAll() it is NVM_REQ_OK although DmiuInt_NvMDataset has not been written yet.
+ */
+static uint32 DmiuInt_DatasetRead(void)
+{
+    uint32 magicFlag = DMIU_INT_MAGIC_FLAG_SAFE;
+    NvM_RequestResultType requestResult = NVM_REQ_NOT_OK;
+
+    if ((DmiuInt_NvMReadIssued == FALSE) && (NvM_ReadBlock(${blockId}, &DmiuInt_NvMDataset) == E_OK))
+    {
+        DmiuInt_NvMReadIssued = TRUE;
+    }
+
+    if ((DmiuInt_NvMReadIssued == TRUE) && (NvM_GetErrorStatus(${blockId}, &requestResult) == E_OK))
+    {
+        if (requestResult == NVM_REQ_OK)
+        {
+            magicFlag = DmiuInt_NvMDataset;
+        }
+        else if (requestResult != NVM_REQ_PENDING)
+        {
+            /* The read failed, request it again on the next call */
+            DmiuInt_NvMReadIssued = FALSE;
+        }
+        else
+        {
+            /* Read still running, the Safe Level is reported until it completes */
+        }
+    }
+
+    return magicFlag;
+}
+`;
+	}
+	if (!ctx.datasetFunction) {
+		return `/**
+ * \\brief   Dataset adapter stub: no persistent dataset configured, always reports the Safe Level.
+ */
+static uint32 DmiuInt_DatasetRead(void)
+{
+    return DMIU_INT_MAGIC_FLAG_SAFE;
+}
+`;
+	}
+
+	return renderAdapter(defaultLevelAdapter('dataset', ctx.datasetFunction));
+}
+
+function renderAlternativeAdapter(ctx: TemplateContext): string {
+	if (!ctx.alternativeFunction) {
+		return `/**
+ * \\brief   Alternative adapter stub: no alternative source configured, always reports the Safe Level.
+ */
+static e_Dmiu_Debug_Level DmiuInt_DebugLevelOverride(void)
+{
+    return DMIU_DEBUG_LEVEL_SAFE;
+}
+`;
+	}
+
+	return renderAdapter(defaultLevelAdapter('alternative', ctx.alternativeFunction));
+}
+
+/** Adapter for a wizard answer without signature information: an integer 0/1/2 or magic flag return value */
+function defaultLevelAdapter(role: 'dataset' | 'alternative', functionName: string): AdapterSpec {
+	return { role, functionName, valueKind: 'integer', returnType: 'uint32', arguments: [] };
+}
+
+function renderMain(ctx: TemplateContext): string {
+	return `${renderFileBanner('main.c', `DMIU daemon entry point ${describeTarget(ctx)}.`, ctx.answers)}${renderSection('INCLUDES')}
+#include <signal.h>
+#include <stdlib.h>
+#include <unistd.h>
+#include "dmiu_integration.h"
+${renderUserRegion('includes')}
+${renderSection('LOCAL DATA')}
+/** Set by the signal handler when the daemon is asked to terminate */
+static volatile sig_atomic_t DmiuDaemon_StopRequested = 0;
+${renderSection('LOCAL FUNCTIONS')}
+/**
+ * \\brief   Handles SIGTERM/SIGINT by requesting a clean shutdown.
+ */
+static void DmiuDaemon_HandleSignal(int signalNumber)
+{
+    (void)signalNumber;
+    DmiuDaemon_StopRequested = 1;
+}
+${renderSection('GLOBAL FUNCTIONS')}
+/**
+ * \\brief   DMIU daemon entry point.
+ * \\details Initializes the DMIU core and keeps the process alive so the target memory stays mapped for clients.
+ * \\return  EXIT_SUCCESS after a requested shutdown, EXIT_FAILURE if initialization failed.
+ */
+int main(void)
+{
+    int exitCode = EXIT_FAILURE;
+
+    /* MISRA C:2012 Rule 21.5 deviation: signal handling is required for a controlled daemon shutdown. */
+    (void)signal(SIGTERM, &DmiuDaemon_HandleSignal);
+    (void)signal(SIGINT, &DmiuDaemon_HandleSignal);
+
+${renderUserRegion('startup', '    ')}
+
+    if (DmiuInt_Initialize() == TRUE)
+    {
+        exitCode = EXIT_SUCCESS;
+
+        while (DmiuDaemon_StopRequested == 0)
+        {
+            (void)pause();
+        }
+    }
+
+${renderUserRegion('shutdown', '    ')}
+
+    return exitCode;
+}
+`;
+}
+
+/** Segment name and size shared by the daemon mapping the segment as owner and the client processes */
+function renderShmConfigHeader(ctx: TemplateContext): string {
+	return `${renderFileBanner(SHM_CONFIG_HEADER, `Shared memory segment of the DMIU daemon ${describeTarget(ctx)}, for the daemon and its clients.`, ctx.answers)}
+#ifndef DMIU_SHM_CONFIG_H
+#define DMIU_SHM_CONFIG_H
+${renderSection('INCLUDES')}
+#include "Std_Types.h"
+#include "Dmiu.h"
+${renderSection('GLOBAL CONSTANT MACROS')}
+/** Name of the shared memory segment holding MagicFlagA/MagicFlagB, owned by the DMIU daemon */
+#define DMIU_SHM_NAME                "${segmentName(ctx)}"
+
+/** Size of the segment, client processes map exactly this size */
+#define DMIU_SHM_SIZE                ((uint32)sizeof(Dt_RECORD_DebugUnlockingStruct_DMIU))
+
+${renderUserRegion('declarations')}
+
+#endif /* DMIU_SHM_CONFIG_H */
+`;
+}
+
+/** systemd unit of the daemon; with shared memory it only counts as started once the segment exists */
+function renderServiceUnit(ctx: TemplateContext): string {
+	const segment = ctx.memory.kind === 'shm' ? `
+#
+# The daemon owns the shared memory segment ${segmentName(ctx)} (api/${SHM_CONFIG_HEADER}). Services of client
+# processes mapping it are ordered after the daemon:
+#   [Unit]
+#   Wants=${daemonUnitName(ctx.ecu?.name)}
+#   After=${daemonUnitName(ctx.ecu?.name)}` : '';
+	const waitForSegment = ctx.memory.kind === 'shm' ? `
+# Clients ordered after this unit start once the segment is mapped, not as soon as the process runs
+ExecStartPost=/bin/sh -c 'while [ ! -e /dev/shm${segmentName(ctx)} ]; do sleep 0.1; done'
+TimeoutStartSec=10` : '';
+
+	return `# Copyright (c) ${COPYRIGHT_YEAR} by TTTech Auto AG. All rights reserved.
+# systemd unit of the DMIU daemon ${describeTarget(ctx)}.
+# ${GENERATED_MARKER} (template version ${GENERATOR_VERSION}).
+# ${ANSWERS_MARKER} ${ctx.answers}${segment}
+
+[Unit]
+Description=DMIU debug unlocking daemon${ctx.ecu ? ` (ECU ${ctx.ecu.name})` : ''}
+After=local-fs.target
+
+[Service]
+Type=simple
+ExecStart=/usr/bin/${DAEMON_TARGET}${waitForSegment}
+Restart=on-failure
+RestartSec=1
+KillSignal=SIGTERM
+${renderUserRegion('service', '', 'python')}
+
+[Install]
+WantedBy=multi-user.target
+`;
+}
+
+function renderBuildFile(ctx: TemplateContext): string {
+	const headers = ctx.memory.kind === 'shm' ? [`api/${SHM_CONFIG_HEADER}`] : [];
+	const library = renderLibrary(LIBRARY_TARGET, 'dmiu_integration', ctx.ecu ? [...ctx.bazelDependencies, ctx.ecu.commonLibrary] : ctx.bazelDependencies, headers);
+	const daemon = `
+cc_binary(
+    name = "${DAEMON_TARGET}",
+    srcs = ["src/main.c"],
+    visibility = ["//visibility:public"],
+    deps = [":${LIBRARY_TARGET}"],
+)
+
+filegroup(
+    name = "${DEPLOYMENT_TARGET}",
+    srcs = ["${daemonServiceFile(ctx.ecu?.name)}"],
+    visibility = ["//visibility:public"],
+)
+`;
+
+	return `# Copyright (c) ${COPYRIGHT_YEAR} by TTTech Auto AG. All rights reserved.
+# DMIU ${ctx.platform === 'posix' ? 'POSIX' : 'AUTOSAR'} integration layer${ctx.ecu ? ` of ECU ${ctx.ecu.name}` : ''}.
+# ${GENERATED_MARKER} (template version ${GENERATOR_VERSION}).
+# ${ANSWERS_MARKER} ${ctx.answers}
+
+load("@rules_cc//cc:defs.bzl", ${ctx.platform === 'posix' ? '"cc_binary", ' : ''}"cc_library")
+
+${library}${ctx.platform === 'posix' ? daemon : ''}
+${renderUserRegion('targets', '', 'python')}
+`;
+}
+
+function renderCommonBuildFile(ctx: TemplateContext): string {
+	return `# Copyright (c) ${COPYRIGHT_YEAR} by TTTech Auto AG. All rights reserved.
+# DMIU magic flag conversion shared by the ECU integrations.
+# ${GENERATED_MARKER} (template version ${GENERATOR_VERSION}).
+# ${ANSWERS_MARKER} ${ctx.answers}
+
+load("@rules_cc//cc:defs.bzl", "cc_library")
+
+${renderLibrary(COMMON_LIBRARY_TARGET, 'dmiu_integration_common', ctx.bazelDependencies)}
+${renderUserRegion('targets', '', 'python')}
+`;
+}
+
+/** `cc_library` of `src/<baseName>.c` and `api/<baseName>.h`, plus further public headers */
+function renderLibrary(name: string, baseName: string, dependencies: string[], headers: string[] = []): string {
+	const deps = dependencies.map(label => `        "${label}",\n`).join('');
+	const hdrs = [`api/${baseName}.h`, ...headers].map(header => `"${header}"`).join(', ');
+	return `cc_library(
+    name = "${name}",
+    srcs = ["src/${baseName}.c"],
+    hdrs = [${hdrs}],
+    strip_include_prefix = "api",
+    visibility = ["//visibility:public"],
+    deps = [
+${deps}${renderUserRegion('deps', '        ', 'python')}
+    ],
+)
+`;
+}
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+
+import { applyAdapterAnswer, classifyType, inferAdapter, renderAdapter, splitArguments } from '../adapters';
+import { CFunctionDeclaration } from '../types';
+
+function declare(returnType: string, ...parameters: [string, string][]): CFunctionDeclaration {
+	return { name: 'UserFn', returnType, parameters: parameters.map(([type, name]) => ({ type, name })), line: 1 };
+}
+
+suite('Adapter Generator Test Suite', () => {
+	test('classifyType recognizes the supported value kinds', () => {
+		assert.strictEqual(classifyType('const char*'), 'string');
+		assert.strictEqual(classifyType('uint32'), 'integer');
+		assert.strictEqual(classifyType('unsigned int'), 'integer');
+		assert.strictEqual(classifyType('boolean'), 'boolean');
+		assert.strictEqual(classifyType('e_Dmiu_Debug_Level'), 'enum');
+		assert.strictEqual(classifyType('MyLevel_t', [{ name: 'MyLevel_t', members: [], line: 1 }]), 'enum');
+		assert.strictEqual(classifyType('void*'), 'pointer');
+		assert.strictEqual(classifyType('Std_ReturnType'), undefined);
+	});
+
+	test('Pointer return values become memory adapters with a MISRA cast', () => {
+		const inference = inferAdapter('UserFn', declare('void*'), {});
+		assert.deepStrictEqual(inference.questions, []);
+		const code = renderAdapter(inference.spec!);
+		assert.ok(code.includes('static Dt_RECORD_DebugUnlockingStruct_DMIU* DmiuInt_GetTargetMemory(void)'));
+		assert.ok(code.includes('MISRA C:2012 Rule 11.5'));
+	});
+
+	test('Memory adapter asks for arguments of input parameters', () => {
+		const declaration = declare('void*', ['const char*', 'name'], ['uint32', 'size']);
+		assert.deepStrictEqual(inferAdapter('UserFn', declaration, {}).questions, ['arguments']);
+		const inference = inferAdapter('UserFn', declaration, { arguments: ['"/dmiu"', '8U'] });
+		assert.ok(renderAdapter(inference.spec!).includes('UserFn("/dmiu", 8U)'));
+	});
+
+	test('Non-pointer functions need a role and cannot be memory', () => {
+		assert.deepStrictEqual(inferAdapter('UserFn', declare('uint8'), {}).questions, ['role']);
+		assert.ok(inferAdapter('UserFn', declare('uint8'), { role: 'memory' }).error);
+	});
+
+	test('Std_ReturnType with out-parameter checks E_OK', () => {
+		const inference = inferAdapter('UserFn', declare('Std_ReturnType', ['uint32*', 'value']), { role: 'dataset' });
+		assert.deepStrictEqual(inference.spec!.outParameter, { index: 0, type: 'uint32*' });
+		const code = renderAdapter(inference.spec!);
+		assert.ok(code.includes('const Std_ReturnType status = UserFn(&value);'));
+		assert.ok(code.includes('if (status == E_OK)'));
+		assert.ok(code.includes('magicFlag = DMIU_INT_MAGIC_FLAG_LEVEL_2;'));
+	});
+
+	test('String return values are compared with strcmp', () => {
+		const inference = inferAdapter('UserFn', declare('const char*'), { role: 'alternative' });
+		const code = renderAdapter(inference.spec!);
+		assert.ok(code.includes('if (value != NULL_PTR)'));
+		assert.ok(code.includes('strcmp(value, "debug_level_2") == 0'));
+		assert.ok(code.includes('level = DMIU_DEBUG_LEVEL_2;'));
+	});
+
+	test('Booleans ask which level TRUE unlocks', () => {
+		assert.deepStrictEqual(inferAdapter('UserFn', declare('boolean'), { role: 'alternative' }).questions, ['booleanLevel']);
+		const code = renderAdapter(inferAdapter('UserFn', declare('boolean'), { role: 'alternative', booleanLevel: 2 }).spec!);
+		assert.ok(code.includes('if (value == TRUE)'));
+		assert.ok(code.includes('level = DMIU_DEBUG_LEVEL_2;'));
+		assert.ok(!code.includes('DMIU_DEBUG_LEVEL_1'));
+	});
+
+	test('Enum members are matched by name', () => {
+		const enums = [{ name: 'MyLevel_t', members: ['MY_LVL_OFF', 'MY_LVL_1', 'MY_LVL_2'], line: 1 }];
+		const inference = inferAdapter('UserFn', declare('MyLevel_t'), { role: 'dataset' }, enums);
+		assert.deepStrictEqual(inference.questions, []);
+		assert.ok(renderAdapter(inference.spec!).includes('if (value == MY_LVL_2)'));
+
+		const unnamed = [{ name: 'Mode_t', members: ['MODE_A', 'MODE_B'], line: 1 }];
+		assert.deepStrictEqual(inferAdapter('UserFn', declare('Mode_t'), { role: 'dataset' }, unnamed).questions, ['enumMapping']);
+	});
+
+	test('applyAdapterAnswer parses replies and rejects unusable ones', () => {
+		assert.deepStrictEqual(applyAdapterAnswer('role', '2', {}), { role: 'dataset' });
+		assert.deepStrictEqual(applyAdapterAnswer('valueKind', 'Integer (0/1/2)', {}), { valueKind: 'integer' });
+		assert.deepStrictEqual(applyAdapterAnswer('enumMapping', 'MODE_A, MODE_B', {}), { enumMembers: ['MODE_A', 'MODE_B'] });
+		assert.strictEqual(applyAdapterAnswer('booleanLevel', 'three', {}), undefined);
+	});
+
+	test('splitArguments keeps nested and quoted commas', () => {
+		assert.deepStrictEqual(splitArguments('NAME, MAX(a, b), 3U'), ['NAME', 'MAX(a, b)', '3U']);
+		assert.deepStrictEqual(splitArguments('"/a,b", F(")")'), ['"/a,b"', 'F(")")']);
+	});
+});
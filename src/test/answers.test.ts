@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+
+import { buildIntegrationState, parseAnswersFile, planBatch } from '../answers';
+import { buildConfigurationRegistry } from '../configurations';
+
+const { configurations } = buildConfigurationRegistry([]);
+
+const YAML_ANSWERS = `
+configuration: cp-rdb2
+memory: ShmM_MapOwner
+dataset: Per_DS_ReadDSElementDMIU
+overrides:
+  sv62:
+    alternative: MyOverride
+`;
+
+suite('Answers File Test Suite', () => {
+	test('YAML and JSON answers files are parsed alike', () => {
+		const fromYaml = parseAnswersFile(YAML_ANSWERS, 'answers.yaml');
+		const fromJson = parseAnswersFile(JSON.stringify(fromYaml), 'answers.json');
+		assert.deepStrictEqual(fromJson, fromYaml);
+		assert.deepStrictEqual(fromYaml.overrides, { sv62: { alternative: 'MyOverride' } });
+	});
+
+	test('Malformed answers files are rejected with the file name', () => {
+		assert.throws(() => parseAnswersFile('memory: [a', 'a.yaml'), /^Error: a\.yaml: /);
+		assert.throws(() => parseAnswersFile('{"memory": "static", "dataSet": "Read"}', 'a.json'), /a\.json: unknown field "dataSet"/);
+		assert.throws(() => parseAnswersFile('platform: qnx', 'a.yml'), /"platform" must be "posix" or "autosar"/);
+		assert.throws(() => parseAnswersFile('overrides:\n  sv62:\n    memory: ""', 'a.yml'), /overrides\.sv62: "memory" must be a non-empty string/);
+	});
+
+	test('buildIntegrationState applies the configuration, an explicit platform wins', () => {
+		assert.deepStrictEqual(buildIntegrationState({ configuration: 'SV62', platform: 'autosar', memoryFunction: 'static', datasetFunction: 'Read' }, configurations), {
+			step: 'complete',
+			platform: 'autosar',
+			motionwiseConfig: 'sv62',
+			integrationPath: '1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu',
+			memoryFunction: 'static',
+			datasetFunction: 'Read',
+			alternativeFunction: 'none'
+		});
+		assert.throws(() => buildIntegrationState({ configuration: 'nope', memoryFunction: 'static', datasetFunction: 'Read' }, configurations), /Unknown MotionWise configuration "nope"/);
+	});
+
+	test('planBatch expands "all" and merges per-configuration overrides', () => {
+		const targets = planBatch(parseAnswersFile(YAML_ANSWERS, 'answers.yaml'), configurations, ['all']);
+		assert.deepStrictEqual(targets.map(t => t.configuration), ['cp-rdb2', 'cp-rdb3', 'sv62', 's324sdv', 'ch63_2']);
+
+		const sv62 = targets.find(t => t.configuration === 'sv62');
+		assert.ok(sv62 && 'state' in sv62);
+		assert.strictEqual(sv62.state.alternativeFunction, 'MyOverride');
+		assert.strictEqual(sv62.integrationPath, '1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu');
+	});
+
+	test('planBatch applies per-ECU answers of multi-ECU configurations', () => {
+		const answers = parseAnswersFile('memory: ShmM_MapOwner\ndataset: Read\necus:\n  ECU2:\n    memory: static\n', 'answers.yaml');
+		const [s324sdv] = planBatch(answers, configurations, ['s324sdv']);
+		assert.ok('state' in s324sdv);
+		assert.deepStrictEqual(s324sdv.state.ecus, [{ name: 'ecu1' }, { name: 'ecu2', memoryFunction: 'static' }]);
+		assert.strictEqual(s324sdv.state.memoryFunction, 'ShmM_MapOwner');
+
+		assert.deepStrictEqual(planBatch({ ...answers, ecus: { ecu3: { memory: 'static' } } }, configurations, ['s324sdv', 'sv62']).map(t => 'error' in t && t.error), [
+			'unknown ECU "ecu3", known: ecu1, ecu2',
+			'ECU answers for "ecu3", but the configuration has a single ECU'
+		]);
+		assert.throws(() => parseAnswersFile('ecus:\n  ecu2:\n    platform: posix', 'a.yml'), /ecus\.ecu2: unknown field "platform"/);
+	});
+
+	test('planBatch reports unknown configurations, missing answers and placeholders', () => {
+		const targets = planBatch({ memory: 'static', overrides: { generic: { dataset: 'Read' } } }, configurations, ['cp-rdb2', 'generic', 'cp-rdb9']);
+		assert.deepStrictEqual(targets.map(t => 'error' in t ? t.error : t.integrationPath), [
+			'missing answer "dataset"',
+			'no value for [PLATFORM] in 1800-EcuIntegration/[PLATFORM]/core/development/dmiu, add it under "placeholders"',
+			`unknown configuration, known: ${configurations.map(c => c.id).join(', ')}`
+		]);
+
+		const generic = planBatch({ memory: 'static', dataset: 'Read', placeholders: { PLATFORM: 'RDB2' } }, configurations)[0];
+		assert.ok('integrationPath' in generic);
+		assert.strictEqual(generic.integrationPath, '1800-EcuIntegration/RDB2/core/development/dmiu');
+		assert.deepStrictEqual(planBatch({ memory: 'static', dataset: 'Read', placeholders: { PLATFORM: '../x' } }, configurations)[0],
+			{ configuration: 'generic', error: 'placeholder [PLATFORM]: Value must not leave the workspace' });
+	});
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+
+import { auditDebugUsage, componentOf, renderAuditTable, summarizeComponents } from '../audit';
+
+const LOGGING = `#include "Debug_Mode.h"
+
+void Log_Write(const char* text)
+{
+    if (Dmiu_IsDebugLevel1Active())
+    {
+        Log_Verbose(text);
+    }
+    if (Dmiu_IsDebugLevel2Active() && Log_TraceEnabled())
+    {
+        Log_Trace(text);
+    }
+}
+
+void Log_Init(void)
+{
+    /* Dmiu_IsDebugLevel2Active() in a comment does not count */
+    if (Dmiu_IsDebugLevel1Active() || g_Log_ForceVerbose)
+    {
+        Log_EnableConsole();
+    }
+}
+`;
+
+const DIAGNOSTICS = `void Diag_Service(void)
+{
+    (void)Dmiu_IsDebugLevel2Active();
+    Diag_EnableRawAccess();
+}
+
+static boolean Diag_Unlocked(const Dt_RECORD_DebugUnlockingStruct_DMIU* memory)
+{
+    return memory->MagicFlagA == 0xDEB00002U;
+}
+`;
+
+const DEBUG_MODE_H = `boolean Dmiu_IsDebugLevel1Active(void);
+boolean Dmiu_IsDebugLevel2Active(void);
+`;
+
+const FILES = [
+	{ path: '2100-Diag/logging/src/log.c', text: LOGGING },
+	{ path: '2100-Diag/diagnostics/src/diag.c', text: DIAGNOSTICS },
+	{ path: '1200-Core/dmiu/api/Debug_Mode.h', text: DEBUG_MODE_H },
+	{ path: '1200-Core/dmiu/src/dmiu.c', text: 'uint32 flag = target->MagicFlagA;\n' },
+	{ path: 'README.c', text: 'int unrelated;\n' }
+];
+
+suite('Client API Audit Test Suite', () => {
+	test('Collects checks per component and function, ignoring comments and prototypes', () => {
+		const report = auditDebugUsage(FILES);
+
+		assert.deepStrictEqual(report.checks.map(c => [c.component, c.feature, c.level, c.line]), [
+			['logging', 'Log_Write', 1, 5],
+			['logging', 'Log_Write', 2, 9],
+			['logging', 'Log_Init', 1, 18],
+			['diagnostics', 'Diag_Service', 2, 3]
+		]);
+		assert.strictEqual(report.checks[0].code, 'if (Dmiu_IsDebugLevel1Active())');
+		assert.strictEqual(report.scannedFiles, 5);
+		assert.strictEqual(report.skippedFiles, 2);
+
+		assert.deepStrictEqual(summarizeComponents(report.checks), [
+			{ component: 'diagnostics', level1: [], level2: ['Diag_Service'] },
+			{ component: 'logging', level1: ['Log_Write', 'Log_Init'], level2: ['Log_Write'] }
+		]);
+	});
+
+	test('Flags Level 2 without Level 1, Safe Level reachability and direct magic flag reads', () => {
+		const findings = auditDebugUsage(FILES).findings.map(f => [f.kind, f.path, f.line]);
+
+		assert.deepStrictEqual(findings, [
+			['safe-level-reachable', '2100-Diag/diagnostics/src/diag.c', 3],
+			['level2-without-level1', '2100-Diag/diagnostics/src/diag.c', 3],
+			['magic-flag-read', '2100-Diag/diagnostics/src/diag.c', 7],
+			['magic-flag-read', '2100-Diag/diagnostics/src/diag.c', 9],
+			['safe-level-reachable', '2100-Diag/logging/src/log.c', 18]
+		]);
+		const orCondition = auditDebugUsage(FILES).findings.find(f => f.path.endsWith('log.c'))!;
+		assert.ok(orCondition.message.includes('g_Log_ForceVerbose'));
+	});
+
+	test('AND-ed conditions and guards are not flagged', () => {
+		const report = auditDebugUsage([{
+			path: 'app/feature.c',
+			text: 'void F(void)\n{\n    if (!Dmiu_IsDebugLevel1Active()) { return; }\n    if ((Dmiu_IsDebugLevel1Active() || Dmiu_IsDebugLevel2Active()) && x) { Dump(); }\n}\n'
+		}]);
+
+		assert.strictEqual(report.checks.length, 3);
+		assert.deepStrictEqual(report.findings, []);
+	});
+
+	test('componentOf skips generic directories', () => {
+		assert.strictEqual(componentOf('2100-Diag/logging/src/log.c'), 'logging');
+		assert.strictEqual(componentOf('app/include/api/app.h'), 'app');
+		assert.strictEqual(componentOf('src/main.c'), 'src');
+		assert.strictEqual(componentOf('main.c'), '(workspace root)');
+	});
+
+	test('renderAuditTable exports checks and direct reads as Markdown and CSV', () => {
+		const report = auditDebugUsage(FILES);
+
+		const markdown = renderAuditTable(report, 'markdown').split('\n');
+		assert.strictEqual(markdown[0], '| Component | Feature | Level | File | Line | Notes |');
+		assert.strictEqual(markdown.length, 2 + 4 + 2 + 1);
+		assert.ok(markdown.some(row => row.startsWith('| diagnostics | Diag_Unlocked | Direct read | 2100-Diag/diagnostics/src/diag.c | 9 |')));
+
+		const csv = renderAuditTable(report, 'csv').split('\n');
+		assert.strictEqual(csv[0], 'Component,Feature,Level,File,Line,Notes');
+		assert.strictEqual(csv[1].split(',').slice(0, 5).join(','), 'diagnostics,Diag_Service,Level 2,2100-Diag/diagnostics/src/diag.c,3');
+		assert.ok(csv[1].includes('"'), 'notes containing commas are quoted');
+	});
+});
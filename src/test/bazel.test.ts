@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+
+import { bazelPackageLabel, integrationTargetLabel, proposeBuildReference, referencesPackage } from '../bazel';
+
+suite('Bazel Test Suite', () => {
+	const integrationPath = '1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu';
+	const label = '@1710-handwritten-config-sv62//core/development/dmiu:dmiu_daemon';
+
+	test('Packages inside a MotionWise repository are addressed through the repository', () => {
+		assert.strictEqual(bazelPackageLabel(integrationPath), '@1710-handwritten-config-sv62//core/development/dmiu');
+		assert.strictEqual(bazelPackageLabel('tools/dmiu/'), '//tools/dmiu');
+		assert.strictEqual(integrationTargetLabel(integrationPath, 'posix'), label);
+		assert.strictEqual(integrationTargetLabel(integrationPath, 'autosar'), '@1710-handwritten-config-sv62//core/development/dmiu:dmiu_integration');
+	});
+
+	test('referencesPackage matches whole package labels', () => {
+		assert.ok(referencesPackage(`deps = ["${label}"]`, integrationPath));
+		assert.ok(referencesPackage('deps = ["//1700-Configuration/RDB2/1710-handwritten-config-sv62/core/development/dmiu"]', integrationPath));
+		assert.ok(!referencesPackage('deps = ["@1710-handwritten-config-sv62//core/development/dmiu_old"]', integrationPath));
+	});
+
+	test('The label is appended to the multi-line deps list of the named target', () => {
+		const build = 'cc_binary(\n    name = "image",\n    deps = [\n        "//a"\n    ],\n)\n';
+		assert.deepStrictEqual(proposeBuildReference(build, integrationPath, label, { target: 'image' }), {
+			text: `cc_binary(\n    name = "image",\n    deps = [\n        "//a",\n        "${label}",\n    ],\n)\n`,
+			line: 5,
+			target: 'image'
+		});
+	});
+
+	test('Single-line deps lists are extended in place', () => {
+		assert.strictEqual(proposeBuildReference('x(name = "image", deps = [])\n', integrationPath, label, { target: 'image' })!.text, `x(name = "image", deps = ["${label}"])\n`);
+		assert.strictEqual(proposeBuildReference('x(name = "image", deps = ["//a"])\n', integrationPath, label, { target: 'image' })!.text, `x(name = "image", deps = ["//a", "${label}"])\n`);
+	});
+
+	test('Only the deployment target of the configuration gets the label', () => {
+		const build = [
+			'cc_library(\n    name = "sv62_utils",\n    deps = ["//utils"],\n)',
+			'cc_test(\n    name = "sv62_image_test",\n    deps = ["//test"],  # name = "x)"\n)',
+			'pkg_tar(\n    name = "sv62_image",\n    deps = ["//app"],\n)',
+			''
+		].join('\n');
+		const edit = proposeBuildReference(build, integrationPath, label, { configuration: 'sv62' })!;
+		assert.strictEqual(edit.target, 'sv62_image');
+		assert.ok(edit.text.includes(`name = "sv62_image",\n    deps = ["//app", "${label}"],`));
+		assert.ok(edit.text.includes('deps = ["//utils"],') && edit.text.includes('deps = ["//test"],'));
+
+		// Unknown targets and targets without a deps list fall back to the alias
+		assert.strictEqual(proposeBuildReference(build, integrationPath, label, { target: 'missing' })!.target, undefined);
+		assert.strictEqual(proposeBuildReference(build, integrationPath, label, { configuration: 'cp-rdb2' })!.target, undefined);
+		assert.strictEqual(proposeBuildReference(build, integrationPath, label)!.target, undefined);
+		assert.strictEqual(proposeBuildReference('cc_binary(name = "cp_rdb2_image")\n', integrationPath, label, { configuration: 'cp-rdb2' })!.target, undefined);
+	});
+
+	test('Files without a deployment target get an alias, referenced files are left alone', () => {
+		const edit = proposeBuildReference('filegroup(name = "all")', integrationPath, label)!;
+		assert.ok(edit.text.startsWith('filegroup(name = "all")\n\n# Generated by the DFU Integration Assistant\nalias(\n'));
+		assert.strictEqual(edit.text.split('\n')[edit.line - 1], `    actual = "${label}",`);
+		assert.strictEqual(proposeBuildReference(edit.text, integrationPath, label), undefined);
+	});
+
+	test('Every ECU gets its own alias', () => {
+		const ecuPath = (ecu: string) => `1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu/${ecu}`;
+		const first = proposeBuildReference('filegroup(name = "all")\n', ecuPath('ecu1'), integrationTargetLabel(ecuPath('ecu1'), 'posix'), { configuration: 's324sdv', ecu: 'ecu1' })!;
+		const second = proposeBuildReference(first.text, ecuPath('ecu2'), integrationTargetLabel(ecuPath('ecu2'), 'posix'), { configuration: 's324sdv', ecu: 'ecu2' })!;
+		assert.deepStrictEqual(second.text.match(/name = "dmiu\w*"/g), ['name = "dmiu_ecu1"', 'name = "dmiu_ecu2"']);
+		assert.strictEqual(second.text.split('\n')[second.line - 1], '    actual = "@1710-handwritten-config-s324sdv//core/development/dmiu/ecu2:dmiu_daemon",');
+	});
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+
+import { findFunctionDeclaration, normalizeType, parseCFile } from '../cParser';
+
+suite('C Parser Test Suite', () => {
+	const header = [
+		'#ifndef PER_H',
+		'#define PER_H',
+		'/* Per_DS_Read(void); is only a comment */',
+		'extern Std_ReturnType Per_DS_ReadDSElementDMIU(uint32 *value);',
+		'FUNC(void*, SHMM_CODE) ShmM_MapOwner(P2CONST(char, AUTOMATIC, SHMM_APPL_DATA) name, uint32 size);',
+		'typedef enum',
+		'{',
+		'    MY_LEVEL_SAFE = 0,',
+		'    MY_LEVEL_1,',
+		'    MY_LEVEL_2',
+		'} MyLevel_t;',
+		'typedef void (*MyCallback)(void);',
+		'static inline int Helper(int a, uint8 buffer[])',
+		'{',
+		'    return Other(a);',
+		'}',
+		'#endif'
+	].join('\n');
+
+	test('Prototypes are parsed with normalized types and lines', () => {
+		const fn = findFunctionDeclaration(header, 'Per_DS_ReadDSElementDMIU', 'per.h')!;
+		assert.deepStrictEqual(fn, {
+			name: 'Per_DS_ReadDSElementDMIU',
+			returnType: 'Std_ReturnType',
+			parameters: [{ type: 'uint32*', name: 'value' }],
+			path: 'per.h',
+			line: 4
+		});
+	});
+
+	test('AUTOSAR compiler abstraction is resolved', () => {
+		const fn = findFunctionDeclaration(header, 'ShmM_MapOwner')!;
+		assert.strictEqual(fn.returnType, 'void*');
+		assert.deepStrictEqual(fn.parameters.map(p => p.type), ['const char*', 'uint32']);
+	});
+
+	test('Definitions are found, calls and function pointer typedefs are not', () => {
+		const names = parseCFile(header).functions.map(fn => fn.name);
+		assert.deepStrictEqual(names, ['Per_DS_ReadDSElementDMIU', 'ShmM_MapOwner', 'Helper']);
+		assert.deepStrictEqual(findFunctionDeclaration(header, 'Helper')!.parameters[1], { type: 'uint8*', name: 'buffer' });
+	});
+
+	test('Typedef enums are parsed with their members', () => {
+		assert.deepStrictEqual(parseCFile(header).enums, [
+			{ name: 'MyLevel_t', members: ['MY_LEVEL_SAFE', 'MY_LEVEL_1', 'MY_LEVEL_2'], path: undefined, line: 11 }
+		]);
+	});
+
+	test('Typedefs of plain and struct types are parsed, function pointer typedefs are not', () => {
+		const parsed = parseCFile([
+			'typedef unsigned long MyCounter_t;',
+			'typedef struct { uint32 flags; } MyRecord_t;',
+			'typedef void (*MyCallback)(void);'
+		].join('\n'));
+		assert.deepStrictEqual(parsed.typedefs.map(t => [t.name, t.type, t.line]), [
+			['MyCounter_t', 'unsigned long', 1],
+			['MyRecord_t', 'struct', 2]
+		]);
+	});
+
+	test('normalizeType attaches pointer stars', () => {
+		assert.strictEqual(normalizeType('  const   char  * '), 'const char*');
+		assert.strictEqual(normalizeType('static uint32'), 'uint32');
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import { runCli } from '../cli';
+import { BASE_SNAPSHOT_FILE, parseBaseSnapshot } from '../regeneration';
+import { GENERATED_MARKER } from '../templates';
+
+const INTEGRATION_PATH = '1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu';
+
+suite('CLI Test Suite', () => {
+	let workspace: string;
+	let lines: string[];
+	const output = { log: (line: string) => lines.push(line), error: (line: string) => lines.push(line) };
+
+	setup(async () => {
+		workspace = await mkdtemp(path.join(tmpdir(), 'dfu-cli-'));
+		lines = [];
+		await writeFile(path.join(workspace, 'answers.json'), JSON.stringify({ configuration: 'cp-rdb2', memory: 'ShmM_MapOwner', dataset: 'Per_DS_ReadDSElementDMIU' }));
+	});
+
+	teardown(async () => {
+		await rm(workspace, { recursive: true, force: true });
+	});
+
+	test('Writes the integration files and regenerates them reproducibly', async () => {
+		const answers = path.join(workspace, 'answers.json');
+		assert.strictEqual(await runCli([answers, '-w', workspace], output), 0);
+		assert.ok(lines.includes(`  created    ${INTEGRATION_PATH}/src/main.c`));
+		const source = await readFile(path.join(workspace, INTEGRATION_PATH, 'src/dmiu_integration.c'), 'utf8');
+		assert.ok(source.includes('ShmM_MapOwner'));
+
+		lines = [];
+		assert.strictEqual(await runCli([answers, '-w', workspace, '--check'], output), 0);
+		assert.ok(lines.includes(`  unchanged  ${INTEGRATION_PATH}/src/dmiu_integration.c`));
+	});
+
+	test('User regions are kept and the output is recorded as upgrade base', async () => {
+		const answers = path.join(workspace, 'answers.json');
+		await runCli([answers, '-w', workspace], output);
+		const snapshot = parseBaseSnapshot(await readFile(path.join(workspace, INTEGRATION_PATH, BASE_SNAPSHOT_FILE), 'utf8'));
+		assert.deepStrictEqual(Object.keys(snapshot!.files), ['BUILD.bazel', 'api/dmiu_integration.h', 'api/dmiu_shm_config.h', 'deploy/dmiu_daemon.service', 'src/dmiu_integration.c', 'src/main.c']);
+
+		const mainFile = path.join(workspace, INTEGRATION_PATH, 'src/main.c');
+		const edited = (await readFile(mainFile, 'utf8')).replace('/* USER CODE BEGIN startup */\n', '/* USER CODE BEGIN startup */\n    openlog("dmiu", 0, 0);\n');
+		await writeFile(mainFile, edited);
+		await writeFile(answers, JSON.stringify({ configuration: 'cp-rdb2', memory: 'ShmM_MapOwner', dataset: 'Per_DS_ReadDSElementDMIU', alternative: 'Ovr_GetLevel' }));
+
+		assert.strictEqual(await runCli([answers, '-w', workspace], output), 0);
+		assert.ok((await readFile(mainFile, 'utf8')).includes('    openlog("dmiu", 0, 0);\n    /* USER CODE END startup */'));
+		assert.ok((await readFile(mainFile, 'utf8')).includes('"alternativeFunction":"Ovr_GetLevel"'));
+	});
+
+	test('Handwritten files are kept unless forced, --check reports differences', async () => {
+		const answers = path.join(workspace, 'answers.json');
+		await runCli([answers, '-w', workspace], output);
+		const mainFile = path.join(workspace, INTEGRATION_PATH, 'src/main.c');
+		await writeFile(mainFile, 'int main(void) { return 0; }\n');
+
+		lines = [];
+		assert.strictEqual(await runCli([answers, '-w', workspace, '--check'], output), 1);
+		assert.strictEqual(await runCli([answers, '-w', workspace], output), 1);
+		assert.ok(lines.includes(`  skipped    ${INTEGRATION_PATH}/src/main.c (handwritten, use --force to overwrite)`));
+		assert.strictEqual(await runCli([answers, '-w', workspace, '--force'], output), 0);
+		assert.ok((await readFile(mainFile, 'utf8')).includes(GENERATED_MARKER));
+	});
+
+	test('Usage errors exit with 2', async () => {
+		assert.strictEqual(await runCli([], output), 2);
+		assert.strictEqual(await runCli(['a.json', '--all', '-c', 'sv62'], output), 2);
+		assert.strictEqual(await runCli(['a.json', '--bogus'], output), 2);
+	});
+});
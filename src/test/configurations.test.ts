@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { applyConfiguration, BUILTIN_CONFIGURATIONS, buildConfigurationRegistry, renderConfigurationTable, selectConfiguration } from '../configurations';
+
+suite('Configuration Registry Test Suite', () => {
+	test('Built-in configurations are the default, generic last', () => {
+		const { configurations, errors } = buildConfigurationRegistry([]);
+		assert.deepStrictEqual(configurations.map(config => config.id), ['cp-rdb2', 'cp-rdb3', 'sv62', 's324sdv', 'ch63_2', 'generic']);
+		assert.deepStrictEqual(errors, []);
+	});
+
+	test('Entries override known ids field by field and add new ones before generic', () => {
+		const { configurations } = buildConfigurationRegistry([
+			{ name: 'settings', entries: [{ id: 'sv62', ecuCount: 3 }] },
+			{ name: 'file', entries: { configurations: [{ id: 'xy77', integrationPath: 'xy/dmiu', detect: ['**/xy77/**'], buildTarget: 'xy77_image' }] } }
+		]);
+		const sv62 = configurations.find(config => config.id === 'sv62')!;
+		assert.strictEqual(sv62.ecuCount, 3);
+		assert.strictEqual(sv62.integrationPath, BUILTIN_CONFIGURATIONS[2].integrationPath);
+		assert.deepStrictEqual(configurations.slice(-2).map(config => config.id), ['xy77', 'generic']);
+		assert.deepStrictEqual(configurations.at(-2), {
+			id: 'xy77', label: 'xy77', integrationPath: 'xy/dmiu', detect: ['**/xy77/**'], buildTarget: 'xy77_image', platform: 'posix', ecuCount: 1
+		});
+		assert.strictEqual(applyConfiguration({ step: 'config' }, configurations.at(-2)!).buildTarget, 'xy77_image');
+		assert.strictEqual(applyConfiguration({ step: 'config', buildTarget: 'xy77_image' }, sv62).buildTarget, undefined);
+	});
+
+	test('Later sources take precedence', () => {
+		const { configurations } = buildConfigurationRegistry([
+			{ name: 'settings', entries: [{ id: 'cp-rdb2', board: 'A' }] },
+			{ name: 'file', entries: [{ id: 'cp-rdb2', board: 'B' }] }
+		]);
+		assert.strictEqual(configurations[0].board, 'B');
+	});
+
+	test('Invalid entries are skipped and reported', () => {
+		const { configurations, errors } = buildConfigurationRegistry([
+			{ name: 'file', entries: [{ id: 'new' }, { id: 'cp-rdb3', platform: 'qnx' }, 'sv62', { id: 'ok', integrationPath: 'ok', color: 'red' }] },
+			{ name: 'broken', entries: { configs: [] } }
+		]);
+		assert.strictEqual(configurations.length, 6);
+		assert.strictEqual(configurations[1].platform, 'posix');
+		assert.deepStrictEqual(errors, [
+			'file: entry 1: new configuration "new" needs an integrationPath',
+			'file: entry 2: "platform" must be "posix" or "autosar"',
+			'file: entry 3: expected an object',
+			'file: entry 4: unknown field "color"',
+			'broken: expected an array of configurations'
+		]);
+	});
+
+	test('selectConfiguration accepts menu numbers and ids', () => {
+		const { configurations } = buildConfigurationRegistry([]);
+		assert.strictEqual(selectConfiguration('2', configurations)?.id, 'cp-rdb3');
+		assert.strictEqual(selectConfiguration(' SV62 ', configurations)?.id, 'sv62');
+		assert.strictEqual(selectConfiguration('7', configurations), undefined);
+		assert.strictEqual(selectConfiguration('unknown', configurations), undefined);
+	});
+
+	test('Configuration table lists paths and multi-ECU configurations', () => {
+		const table = renderConfigurationTable(buildConfigurationRegistry([]).configurations);
+		assert.ok(table.includes('| s324sdv | RDB2 | POSIX | 2 | `1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu` |'));
+		assert.ok(!table.includes('| generic |'));
+		assert.ok(table.includes('**Note:** s324sdv deploys more than one ECU, every ECU gets its own integration below the integration path.'));
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { parseCFile } from '../cParser';
+import { DeclarationIndex } from '../declarationIndex';
+
+suite('Declaration Index Test Suite', () => {
+	const index = new DeclarationIndex();
+	index.setFile('shm.h', parseCFile([
+		'void* ShmM_MapOwner(const char* name, uint32 size);',
+		'Dt_RECORD_DebugUnlockingStruct_DMIU* App_GetDmiuRecord(void);',
+		'uint8* Can_GetBuffer(uint8 channel);',
+		'void Dmiu_Init(const Dmiu_ConfigType* config);'
+	].join('\n'), 'shm.h'));
+	index.setFile('per.h', parseCFile([
+		'typedef uint8 DebugLevel_t;',
+		'typedef enum { APP_DEBUG_SAFE, APP_DEBUG_LEVEL_1, APP_DEBUG_LEVEL_2 } AppDebug_t;',
+		'typedef AppDebug_t AppDebugAlias_t;',
+		'Std_ReturnType Per_DS_ReadDSElementDMIU(uint32* value);',
+		'AppDebugAlias_t App_GetDebugLevelOverride(void);',
+		'DebugLevel_t Diag_GetUnlockLevel(void);',
+		'uint32 Com_GetCounter(void);'
+	].join('\n'), 'per.h'));
+
+	const names = (role: 'memory' | 'dataset' | 'alternative') => index.rankCandidates(role).map(c => c.declaration.name);
+
+	test('Memory candidates return pointers, DMIU records first', () => {
+		assert.deepStrictEqual(names('memory'), ['App_GetDmiuRecord', 'ShmM_MapOwner']);
+	});
+
+	test('Dataset candidates read a level from a dataset element', () => {
+		const [best] = index.rankCandidates('dataset');
+		assert.strictEqual(best.declaration.name, 'Per_DS_ReadDSElementDMIU');
+		assert.ok(best.reasons.includes('reads a dataset element'));
+		assert.strictEqual(best.declaration.path, 'per.h');
+	});
+
+	test('Override candidates return a debug level through typedefs', () => {
+		assert.deepStrictEqual(names('alternative').slice(0, 2), ['App_GetDebugLevelOverride', 'Diag_GetUnlockLevel']);
+		assert.ok(!names('alternative').includes('Com_GetCounter'));
+	});
+
+	test('Typedef chains resolve to their underlying type', () => {
+		assert.strictEqual(index.resolveType('const DebugLevel_t*'), 'const uint8*');
+		assert.strictEqual(index.classify('DebugLevel_t'), 'integer');
+		assert.strictEqual(index.resolveType('AppDebugAlias_t'), 'AppDebug_t');
+	});
+
+	test('enumsFor returns enums under the name used in the declaration', () => {
+		const enums = index.enumsFor(index.findFunction('App_GetDebugLevelOverride')!);
+		assert.deepStrictEqual(enums.map(e => [e.name, e.members.length]), [['AppDebugAlias_t', 3]]);
+	});
+
+	test('Files can be replaced and removed', () => {
+		const copy = new DeclarationIndex();
+		copy.setFile('a.h', parseCFile('void* A_Map(void);'));
+		copy.setFile('a.h', parseCFile('void* B_Map(void);'));
+		assert.deepStrictEqual(copy.functions.map(fn => fn.name), ['B_Map']);
+		copy.deleteFile('a.h');
+		assert.strictEqual(copy.fileCount, 0);
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { buildConfigurationRegistry } from '../configurations';
+import { configurationMarkers, detectConfigurations, DetectionInput } from '../detection';
+
+suite('Configuration Detection Test Suite', () => {
+	const { configurations } = buildConfigurationRegistry([]);
+	const buildFile = {
+		path: '1500-build/BUILD.bazel',
+		text: [
+			'# "@1710-handwritten-config-sv62//core" is no longer built',
+			'filegroup(',
+			'    name = "image",',
+			'    srcs = ["@1710-handwritten-config-s324sdv//core:all"],  # SDV image',
+			')'
+		].join('\n')
+	};
+	const folders = {
+		sv62: '1710-handwritten-config-sv62/README.md',
+		s324sdv: '1710-handwritten-config-s324sdv/README.md'
+	};
+	const detect = (input: Partial<DetectionInput>) => detectConfigurations({ buildFiles: [], sysdefPaths: [], folderMatches: {}, ...input }, configurations);
+
+	test('Markers come from the id and the repository names of the detection globs', () => {
+		assert.deepStrictEqual(configurationMarkers(configurations[0]), ['cp-rdb2', '1800-ecu-int-rdb2-cp-a']);
+	});
+
+	test('The top-level build decides over checked-out folders, comments are ignored', () => {
+		const detected = detect({ buildFiles: [buildFile], folderMatches: folders });
+		assert.deepStrictEqual(detected.map(result => result.configuration.id), ['s324sdv']);
+		assert.deepStrictEqual(detected[0].evidence[0], {
+			source: 'bazel',
+			path: '1500-build/BUILD.bazel',
+			line: 4,
+			text: 'srcs = ["@1710-handwritten-config-s324sdv//core:all"],'
+		});
+		assert.strictEqual(detected[0].evidence[1].source, 'folder');
+	});
+
+	test('1900-sysdef inputs are reported by directory', () => {
+		const detected = detect({ sysdefPaths: ['1900-sysdef/SV62/ecu.yaml', '1900-sysdef/SV62/network.yaml'], folderMatches: folders });
+		assert.deepStrictEqual(detected.map(result => result.configuration.id), ['sv62']);
+		assert.deepStrictEqual(detected[0].evidence[0], { source: 'sysdef', path: '1900-sysdef/SV62', text: '1900-sysdef/SV62/ecu.yaml' });
+	});
+
+	test('Several matching configurations are all returned', () => {
+		assert.deepStrictEqual(detect({ folderMatches: folders }).map(result => result.configuration.id), ['sv62', 's324sdv']);
+	});
+
+	test('Markers only match whole names', () => {
+		assert.deepStrictEqual(detect({ sysdefPaths: ['1900-sysdef/sv620/ecu.yaml', '1900-sysdef/generic/ecu.yaml'] }), []);
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+
+import { documentationGlob, excerpt, extractDoxygen, parseDocumentation, rankPassages, renderPassages, splitMarkdown } from '../documentation';
+
+const GUIDE = [
+	'# DMIU Core',
+	'Overview of the core.',
+	'## Client API',
+	'Call `Dmiu_IsDebugLevel2Active()` before enabling advanced tracing.',
+	'```c',
+	'# not a heading',
+	'```',
+	'## Persistence',
+	'### Dataset',
+	'The dataset holds the magic flag written by the unlocking tool.',
+	'## Build',
+	'Bazel targets of the core live in 1200-Core/dmiu.'
+].join('\n');
+
+const HEADER = [
+	'/**********************************************************************************************************************',
+	' *  banner',
+	' *********************************************************************************************************************/',
+	'/*! \\page dmiu_levels Debug Levels',
+	' * Level 1 unlocks basic, level 2 advanced debugging.',
+	' */',
+	'/**',
+	' * \\brief Checks whether debug level 2 is unlocked.',
+	' * \\return TRUE while level 2 is active',
+	' */',
+	'boolean Dmiu_IsDebugLevel2Active(void);',
+	'typedef struct {',
+	'    uint32 MagicFlagA; /**< First magic flag */',
+	'} Dt_RECORD_DebugUnlockingStruct_DMIU;'
+].join('\n');
+
+suite('Documentation Test Suite', () => {
+	test('Markdown is split into sections titled with their heading trail', () => {
+		const passages = splitMarkdown(GUIDE, 'docs/guide.md', 'docs/guide.md');
+		assert.deepStrictEqual(passages.map(p => [p.title, p.line]), [
+			['DMIU Core', 1],
+			['DMIU Core › Client API', 3],
+			['DMIU Core › Persistence › Dataset', 9],
+			['DMIU Core › Build', 11]
+		]);
+		assert.ok(passages[1].text.includes('# not a heading'));
+		assert.deepStrictEqual(parseDocumentation(GUIDE, 'docs/guide.md'), passages);
+	});
+
+	test('Doxygen comments are titled with their page or the documented symbol', () => {
+		const passages = extractDoxygen(HEADER, 'dmiu/api/Debug_Mode.h');
+		assert.deepStrictEqual(passages.map(p => [p.title, p.line]), [
+			['Debug Levels', 4],
+			['Dmiu_IsDebugLevel2Active', 7],
+			['MagicFlagA', 13]
+		]);
+		assert.strictEqual(passages[1].text, 'Checks whether debug level 2 is unlocked.\nReturns: TRUE while level 2 is active');
+		assert.strictEqual(parseDocumentation(HEADER, 'dmiu/api/Debug_Mode.h').length, 3);
+	});
+
+	test('Passages are ranked by the words of the question, identifiers split into words', () => {
+		const passages = [...splitMarkdown(GUIDE, 'docs/guide.md', 'docs/guide.md'), ...extractDoxygen(HEADER, 'dmiu/api/Debug_Mode.h')];
+
+		const level2 = rankPassages('How do I check for debug level 2?', passages);
+		assert.deepStrictEqual(level2[0].passage.title, 'Dmiu_IsDebugLevel2Active');
+		assert.ok(level2.length <= 5);
+		assert.strictEqual(rankPassages('Where is the magic flag dataset stored?', passages)[0].passage.title, 'DMIU Core › Persistence › Dataset');
+		assert.deepStrictEqual(rankPassages('hello', passages), []);
+		assert.deepStrictEqual(rankPassages('what is it?', passages), []);
+	});
+
+	test('Rendered passages are numbered sections with their source', () => {
+		const ranked = rankPassages('bazel', [
+			...splitMarkdown(GUIDE, 'docs/guide.md', 'docs/guide.md'),
+			...splitMarkdown('## Build\nUse bazel build.', 'built-in DFU knowledge')
+		]);
+		const rendered = renderPassages(ranked);
+		assert.strictEqual(rendered.split(/\n(?=## )/).length, 2);
+		assert.ok(rendered.startsWith('## [1] '));
+		assert.ok(rendered.includes('(docs/guide.md:11)'));
+		assert.ok(rendered.includes('(built-in DFU knowledge)'));
+	});
+
+	test('Long passages are cut with closed code blocks', () => {
+		const text = ['```c', ...Array.from({ length: 60 }, (_, i) => `line${i};`), '```'].join('\n');
+		const cut = excerpt({ title: 'Code', text, line: 1, source: 'x.md' }).split('\n');
+		assert.deepStrictEqual(cut.slice(-2), ['```', '…']);
+		assert.strictEqual(documentationGlob('./docs/dmiu/'), 'docs/dmiu/**/*.{md,markdown,dox,h}');
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+
+import { createEcus, ecuStates, flattenDirectories, generateIntegrationDirectories } from '../ecus';
+import { ConversationState } from '../types';
+
+suite('Multi-ECU Test Suite', () => {
+	const state: ConversationState = {
+		step: 'complete',
+		platform: 'posix',
+		motionwiseConfig: 's324sdv',
+		integrationPath: '1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu',
+		memoryFunction: 'ShmM_MapOwner',
+		datasetFunction: 'Per_DS_ReadDSElementDMIU',
+		alternativeFunction: 'none',
+		ecus: [{ name: 'ecu1' }, { name: 'ecu2', memoryFunction: 'static' }]
+	};
+
+	test('createEcus names the ECUs in order', () => {
+		assert.deepStrictEqual(createEcus(2), [{ name: 'ecu1' }, { name: 'ecu2' }]);
+	});
+
+	test('ecuStates reuses the first ECU\'s answers where an ECU has none', () => {
+		const [ecu1, ecu2] = ecuStates(state);
+		assert.strictEqual(ecu1.memoryFunction, 'ShmM_MapOwner');
+		assert.strictEqual(ecu2.memoryFunction, 'static');
+		assert.strictEqual(ecu2.datasetFunction, 'Per_DS_ReadDSElementDMIU');
+		assert.strictEqual(ecu2.integrationPath, `${state.integrationPath}/ecu2`);
+		assert.strictEqual(ecu2.ecus, undefined);
+		assert.strictEqual(ecu2.commonLibrary, '@1710-handwritten-config-s324sdv//core/development/dmiu/common:dmiu_integration_common');
+	});
+
+	test('Single-ECU states generate the integration path only', () => {
+		const directories = generateIntegrationDirectories({ ...state, ecus: undefined });
+		assert.deepStrictEqual(directories.map(directory => directory.subdirectory), ['']);
+		assert.ok(!flattenDirectories(directories).some(file => file.relativePath.includes('common')));
+	});
+
+	test('Multi-ECU states share the conversion code in common', () => {
+		const files = flattenDirectories(generateIntegrationDirectories(state));
+		const content = (relativePath: string) => files.find(file => file.relativePath === relativePath)!.content;
+
+		const conversion = 'static e_Dmiu_Debug_Level DmiuInt_MagicFlagToLevel(uint32 magicFlag)';
+		assert.ok(content('common/api/dmiu_integration_common.h').includes('0xDEB00001U'));
+		assert.ok(content('common/src/dmiu_integration_common.c').includes(conversion));
+		assert.ok(content('common/BUILD.bazel').includes('name = "dmiu_integration_common"'));
+		for (const ecu of ['ecu1', 'ecu2']) {
+			assert.ok(!content(`${ecu}/src/dmiu_integration.c`).includes(conversion));
+			assert.ok(content(`${ecu}/api/dmiu_integration.h`).includes('#include "dmiu_integration_common.h"'));
+			assert.ok(content(`${ecu}/BUILD.bazel`).includes('"@1710-handwritten-config-s324sdv//core/development/dmiu/common:dmiu_integration_common"'));
+		}
+		assert.ok(content('ecu2/src/dmiu_integration.c').includes('static Dt_RECORD_DebugUnlockingStruct_DMIU'));
+		assert.ok(content('ecu1/src/dmiu_integration.c').includes('ShmM_MapOwner'));
+	});
+
+	test('Every ECU gets its own shared memory segment and systemd unit', () => {
+		const files = flattenDirectories(generateIntegrationDirectories({ ...state, ecus: [{ name: 'ecu1' }, { name: 'ecu2' }] }));
+		const content = (relativePath: string) => files.find(file => file.relativePath === relativePath)!.content;
+
+		for (const ecu of ['ecu1', 'ecu2']) {
+			assert.ok(new RegExp(`#define DMIU_SHM_NAME +"/dmiu_debug_unlocking_${ecu}"`).test(content(`${ecu}/api/dmiu_shm_config.h`)));
+			const unit = content(`${ecu}/deploy/dmiu_daemon_${ecu}.service`);
+			assert.ok(unit.includes(`while [ ! -e /dev/shm/dmiu_debug_unlocking_${ecu} ]`));
+			assert.ok(unit.includes(`After=dmiu_daemon_${ecu}.service`));
+			assert.ok(content(`${ecu}/BUILD.bazel`).includes(`srcs = ["deploy/dmiu_daemon_${ecu}.service"]`));
+		}
+		assert.ok(!files.some(file => file.relativePath.endsWith('/dmiu_daemon.service')));
+	});
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+
+import { ChatModel, describeModelError, fitToBudget, ModelProvider, modelSelectors, requestWithFallback } from '../languageModel';
+
+/** Fake model counting one token per character; `failures` are thrown by the first requests */
+function fakeModel(id: string, options: { maxInputTokens?: number; failures?: unknown[]; reply?: string } = {}) {
+	const failures = [...(options.failures ?? [])];
+	const model: ChatModel & { requests: string[][] } = {
+		id,
+		name: id,
+		vendor: 'test',
+		family: id,
+		maxInputTokens: options.maxInputTokens ?? 100_000,
+		requests: [],
+		countTokens: async text => text.length,
+		sendRequest: async messages => {
+			model.requests.push(messages);
+			const failure = failures.shift();
+			if (failure) {
+				throw failure;
+			}
+			return (async function* () {
+				yield options.reply ?? `reply from ${id}`;
+			})();
+		}
+	};
+	return model;
+}
+
+/** Provider answering each family selector with its models */
+function fakeProvider(models: Record<string, ChatModel[]>): ModelProvider {
+	return async selector => models[selector.family ?? '*'] ?? [];
+}
+
+function modelError(code: string): Error {
+	return Object.assign(new Error(code), { code });
+}
+
+async function collect(text: AsyncIterable<string>): Promise<string> {
+	let result = '';
+	for await (const chunk of text) {
+		result += chunk;
+	}
+	return result;
+}
+
+const REQUEST = { knowledge: '# DFU\n## Flags\nflag details\n## Platforms\nplatform details', prompt: 'Review this.' };
+
+suite('Language Model Test Suite', () => {
+	test('The preferred model answers when available', async () => {
+		const preferred = fakeModel('gpt-4o');
+		const outcome = await requestWithFallback(fakeProvider({ 'gpt-4o': [preferred], '*': [fakeModel('other')] }),
+			[{ family: 'gpt-4o' }, {}], REQUEST);
+
+		assert.ok(outcome.ok);
+		assert.strictEqual(outcome.model.id, 'gpt-4o');
+		assert.strictEqual(await collect(outcome.text), 'reply from gpt-4o');
+		assert.deepStrictEqual(preferred.requests, [[REQUEST.knowledge, REQUEST.prompt]]);
+	});
+
+	test('Missing and blocked models fall back to the next selector', async () => {
+		const blocked = fakeModel('blocked', { failures: [modelError('Blocked')] });
+		const fallback = fakeModel('fallback');
+		const outcome = await requestWithFallback(fakeProvider({ blocked: [blocked], fallback: [fallback] }),
+			[{ family: 'missing' }, { family: 'blocked' }, { family: 'fallback' }], REQUEST);
+
+		assert.ok(outcome.ok);
+		assert.strictEqual(outcome.model.id, 'fallback');
+		assert.strictEqual(blocked.requests.length, 1, 'blocked models are not retried');
+	});
+
+	test('Unknown failures are retried once before falling back', async () => {
+		const flaky = fakeModel('flaky', { failures: [new Error('connection reset')] });
+		const outcome = await requestWithFallback(fakeProvider({ flaky: [flaky] }), [{ family: 'flaky' }], REQUEST);
+
+		assert.ok(outcome.ok);
+		assert.strictEqual(flaky.requests.length, 2);
+	});
+
+	test('A denied permission stops without trying other models', async () => {
+		const denied = fakeModel('denied', { failures: [modelError('NoPermissions')] });
+		const other = fakeModel('other');
+		const outcome = await requestWithFallback(fakeProvider({ denied: [denied], other: [other] }),
+			[{ family: 'denied' }, { family: 'other' }], REQUEST);
+
+		assert.ok(!outcome.ok);
+		assert.ok(outcome.message.includes('not granted'));
+		assert.strictEqual(other.requests.length, 0);
+	});
+
+	test('Failure lists every attempt', async () => {
+		const outcome = await requestWithFallback(fakeProvider({ a: [fakeModel('a', { failures: [modelError('NotFound')] })] }),
+			[{ vendor: 'copilot', family: 'a' }, { vendor: 'copilot', family: 'b' }], REQUEST);
+
+		assert.ok(!outcome.ok);
+		assert.deepStrictEqual(outcome.attempts, [
+			'a: The configured language model is not available. (NotFound)',
+			'copilot/b: no model available'
+		]);
+	});
+
+	test('fitToBudget drops knowledge sections from the end', async () => {
+		const sectionsAndPrompt = REQUEST.prompt.length + REQUEST.knowledge.indexOf('\n## Platforms');
+		const model = fakeModel('small', { maxInputTokens: 1024 + sectionsAndPrompt });
+
+		const budget = await fitToBudget(model, REQUEST);
+		assert.deepStrictEqual(budget, { messages: ['# DFU\n## Flags\nflag details', REQUEST.prompt], droppedSections: 1 });
+	});
+
+	test('Models too small for the prompt are skipped', async () => {
+		const tiny = fakeModel('tiny', { maxInputTokens: 1030 });
+		assert.strictEqual(await fitToBudget(tiny, REQUEST), undefined);
+
+		const outcome = await requestWithFallback(fakeProvider({ tiny: [tiny] }), [{ family: 'tiny' }], REQUEST);
+		assert.ok(!outcome.ok);
+		assert.strictEqual(tiny.requests.length, 0);
+	});
+
+	test('modelSelectors puts the preferred model first without duplicates', () => {
+		assert.deepStrictEqual(
+			modelSelectors({ vendor: 'copilot', family: 'gpt-4o' }, [{ vendor: 'copilot', family: 'gpt-4o' }, { vendor: 'copilot', family: '' }, {}]),
+			[{ vendor: 'copilot', family: 'gpt-4o' }, { vendor: 'copilot' }, {}]
+		);
+	});
+
+	test('describeModelError explains known codes and passes others through', () => {
+		assert.ok(describeModelError(modelError('Blocked')).includes('rate limit or quota'));
+		assert.strictEqual(describeModelError('boom'), 'The language model request failed (boom).');
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { hoverMarkdown } from '../hover';
+import { decodeMagicFlags, parseMagicFlagPair, renderDecoding } from '../magicFlags';
+
+suite('Magic Flag Decoder Test Suite', () => {
+	test('Equal known words decode to their level', () => {
+		assert.strictEqual(decodeMagicFlags(0xDEB00001, 0xDEB00001).level, 'level1');
+		assert.strictEqual(decodeMagicFlags(0xDEB00002, 0xDEB00002).level, 'level2');
+		assert.deepStrictEqual(decodeMagicFlags(0, 0), { magicFlagA: 0, magicFlagB: 0, level: 'safe', effectiveLevel: 'safe', problems: [] });
+	});
+
+	test('Mismatching and unknown pairs are invalid and fall back to the Safe Level', () => {
+		const mismatch = decodeMagicFlags(0xDEB00002, 0xDEB00001);
+		assert.strictEqual(mismatch.level, undefined);
+		assert.strictEqual(mismatch.effectiveLevel, 'safe');
+		assert.deepStrictEqual(mismatch.problems, ['MagicFlagA (0xDEB00002U) and MagicFlagB (0xDEB00001U) differ, which indicates corruption or tampering']);
+
+		assert.deepStrictEqual(decodeMagicFlags(0xDEB00003, 0xDEB00003).problems, ['MagicFlagA/B (0xDEB00003U) matches no debug level']);
+		assert.ok(decodeMagicFlags(0x0100B0DE, 0x0100B0DE).problems[0].includes('DEBUG_LEVEL_1 with swapped byte order'));
+	});
+
+	test('parseMagicFlagPair reads literals, hex words, decimals and little-endian dumps', () => {
+		assert.deepStrictEqual(parseMagicFlagPair('MagicFlagA = 0xDEB00001U, MagicFlagB = 0xdeb00001'), { magicFlagA: 0xDEB00001, magicFlagB: 0xDEB00001 });
+		assert.deepStrictEqual(parseMagicFlagPair('DEB00002 DEB00002'), { magicFlagA: 0xDEB00002, magicFlagB: 0xDEB00002 });
+		assert.deepStrictEqual(parseMagicFlagPair('3736076289 0'), { magicFlagA: 0xDEB00001, magicFlagB: 0 });
+		assert.deepStrictEqual(parseMagicFlagPair('01 00 b0 de 02 00 b0 de'), { magicFlagA: 0xDEB00001, magicFlagB: 0xDEB00002 });
+		assert.deepStrictEqual(parseMagicFlagPair('0xDEB00001'), { error: 'Expected two values (MagicFlagA and MagicFlagB), found 1' });
+	});
+
+	test('renderDecoding lists the problems of invalid pairs', () => {
+		assert.strictEqual(renderDecoding(decodeMagicFlags(0xDEB00002, 0xDEB00002)), '✅ `0xDEB00002U`, `0xDEB00002U` → **DEBUG_LEVEL_2**');
+		const invalid = renderDecoding(decodeMagicFlags(0xDEB00001, 0));
+		assert.ok(invalid.startsWith('❌ `0xDEB00001U`, `0x00000000U` → **invalid**, DMIU falls back to **DEBUG_LEVEL_SAFE**'));
+		assert.ok(invalid.includes('\n- MagicFlagA (0xDEB00001U) and MagicFlagB (0x00000000U) differ'));
+	});
+
+	test('Hovers document DMIU symbols and decode magic flag literals', () => {
+		const call = '    if (Dmiu_IsDebugLevel2Active())';
+		assert.ok(hoverMarkdown(call, call.indexOf('Level2'))!.includes('**Debug Level 2**'));
+		assert.ok(hoverMarkdown('config.dataset_read_func = &Read;', 10)!.includes('persistent storage'));
+		assert.strictEqual(hoverMarkdown(call, 5), undefined);
+		assert.strictEqual(hoverMarkdown('int constructor;', 6), undefined);
+
+		assert.strictEqual(hoverMarkdown('#define FLAG (0xDEB00002U)', 16), '**Magic flag** `0xDEB00002U` → DEBUG_LEVEL_2');
+		const pair = 'Dt_RECORD_DebugUnlockingStruct_DMIU mem = { 0xDEB00001U, 0xDEB00002U };';
+		assert.ok(hoverMarkdown(pair, pair.indexOf('0xDEB00002'))!.includes('**invalid**'));
+
+		assert.strictEqual(hoverMarkdown('uint32 mask = 0x00000000U;', 16), undefined);
+		assert.ok(hoverMarkdown('#define MAGIC_SAFE 0x00000000U', 22)!.includes('DEBUG_LEVEL_SAFE'));
+		assert.strictEqual(hoverMarkdown('x = 0x10;', 5), undefined);
+	});
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+
+import { nvmAnswer, nvmBlockOfAnswer, parseNvmBlocks, rankNvmBlocks } from '../nvm';
+
+function descriptor(name: string, id: number, length?: number): string {
+	const lengthValue = length === undefined ? '' : `
+            <ECUC-NUMERICAL-PARAM-VALUE>
+              <DEFINITION-REF DEST="ECUC-INTEGER-PARAM-DEF">/AUTOSAR/EcucDefs/NvM/NvMBlockDescriptor/NvMNvBlockLength</DEFINITION-REF>
+              <VALUE>${length}</VALUE>
+            </ECUC-NUMERICAL-PARAM-VALUE>`;
+	return `
+        <ECUC-CONTAINER-VALUE UUID="${name}">
+          <SHORT-NAME>${name}</SHORT-NAME>
+          <DEFINITION-REF DEST="ECUC-PARAM-CONF-CONTAINER-DEF">/AUTOSAR/EcucDefs/NvM/NvMBlockDescriptor</DEFINITION-REF>
+          <PARAMETER-VALUES>
+            <ECUC-NUMERICAL-PARAM-VALUE>
+              <DEFINITION-REF DEST="ECUC-INTEGER-PARAM-DEF">/AUTOSAR/EcucDefs/NvM/NvMBlockDescriptor/NvMNvramBlockIdentifier</DEFINITION-REF>
+              <VALUE>${id}</VALUE>
+            </ECUC-NUMERICAL-PARAM-VALUE>${lengthValue}
+          </PARAMETER-VALUES>
+          <REFERENCE-VALUES>
+            <ECUC-REFERENCE-VALUE>
+              <DEFINITION-REF DEST="ECUC-REFERENCE-DEF">/AUTOSAR/EcucDefs/NvM/NvMBlockDescriptor/NvMRamBlockDataAddress</DEFINITION-REF>
+              <VALUE-REF DEST="VARIABLE-DATA-PROTOTYPE">/Ram/${name}_Ram</VALUE-REF>
+            </ECUC-REFERENCE-VALUE>
+          </REFERENCE-VALUES>
+        </ECUC-CONTAINER-VALUE>`;
+}
+
+const ARXML = `<?xml version="1.0" encoding="UTF-8"?>
+<AUTOSAR xmlns="http://autosar.org/schema/r4.0">
+  <!-- <ECUC-CONTAINER-VALUE> in comments is ignored -->
+  <AR-PACKAGES>
+    <AR-PACKAGE>
+      <SHORT-NAME>NvM</SHORT-NAME>
+      <ELEMENTS>
+        <ECUC-MODULE-CONFIGURATION-VALUES>
+          <SHORT-NAME>NvM</SHORT-NAME>
+          <CONTAINERS>
+            <ECUC-CONTAINER-VALUE>
+              <SHORT-NAME>NvMCommon</SHORT-NAME>
+              <DEFINITION-REF DEST="ECUC-PARAM-CONF-CONTAINER-DEF">/AUTOSAR/EcucDefs/NvM/NvMCommon</DEFINITION-REF>
+            </ECUC-CONTAINER-VALUE>${descriptor('NvMBlock_DmiuDataset', 17, 4)}${descriptor('NvMBlock_Calibration', 3, 256)}${descriptor('NvMBlock_DebugUnlock', 18)}${descriptor('NvMBlock_Odometer', 4, 4)}
+          </CONTAINERS>
+        </ECUC-MODULE-CONFIGURATION-VALUES>
+      </ELEMENTS>
+    </AR-PACKAGE>
+  </AR-PACKAGES>
+</AUTOSAR>
+`;
+
+suite('NvM Test Suite', () => {
+	test('parseNvmBlocks reads the block descriptors of an ECU configuration', () => {
+		const blocks = parseNvmBlocks(ARXML, 'config/NvM_ecuc.arxml');
+
+		assert.deepStrictEqual(blocks.map(block => block.name), ['NvMBlock_DmiuDataset', 'NvMBlock_Calibration', 'NvMBlock_DebugUnlock', 'NvMBlock_Odometer']);
+		assert.deepStrictEqual(blocks[0], {
+			name: 'NvMBlock_DmiuDataset',
+			blockId: 17,
+			length: 4,
+			ramBlock: '/Ram/NvMBlock_DmiuDataset_Ram',
+			path: 'config/NvM_ecuc.arxml',
+			line: ARXML.split('\n').findIndex(line => line.includes('UUID="NvMBlock_DmiuDataset"')) + 1
+		});
+		assert.strictEqual(blocks[2].length, undefined);
+	});
+
+	test('rankNvmBlocks prefers DMIU blocks of one magic flag and drops other lengths', () => {
+		const ranked = rankNvmBlocks(parseNvmBlocks(ARXML, 'NvM.arxml'));
+
+		assert.deepStrictEqual(ranked.map(candidate => candidate.block.name), ['NvMBlock_DmiuDataset', 'NvMBlock_DebugUnlock']);
+		assert.deepStrictEqual(ranked[0].reasons, ['name refers to DMIU', '4 bytes, one magic flag']);
+		assert.deepStrictEqual(ranked[1].reasons, ['name refers to debug unlocking', 'no NvMNvBlockLength configured']);
+	});
+
+	test('Dataset answers name the block with the NvM: prefix', () => {
+		const [block] = parseNvmBlocks(ARXML, 'NvM.arxml');
+
+		assert.strictEqual(nvmAnswer(block), 'NvM:NvMBlock_DmiuDataset');
+		assert.strictEqual(nvmBlockOfAnswer(' nvm: NvMBlock_DmiuDataset '), 'NvMBlock_DmiuDataset');
+		assert.strictEqual(nvmBlockOfAnswer('Per_DS_ReadDSElementDMIU'), undefined);
+		assert.strictEqual(nvmBlockOfAnswer(undefined), undefined);
+	});
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+
+import { findPathPlaceholders, resolvePathPlaceholders, validatePlaceholderValue } from '../paths';
+
+suite('Integration Path Test Suite', () => {
+	test('findPathPlaceholders lists each placeholder once', () => {
+		assert.deepStrictEqual(findPathPlaceholders('1800-EcuIntegration/[PLATFORM]/core/[PLATFORM]/[ECU]'), ['PLATFORM', 'ECU']);
+		assert.deepStrictEqual(findPathPlaceholders('1800-EcuIntegration/RDB2/core/development/dmiu'), []);
+	});
+
+	test('resolvePathPlaceholders keeps placeholders without a value', () => {
+		assert.strictEqual(
+			resolvePathPlaceholders('1800-EcuIntegration/[PLATFORM]/core/[ECU]', { PLATFORM: 'RDB2' }),
+			'1800-EcuIntegration/RDB2/core/[ECU]'
+		);
+	});
+
+	test('validatePlaceholderValue rejects paths escaping the workspace', () => {
+		assert.strictEqual(validatePlaceholderValue('RDB2/1800-ecu-int-rdb2-cp-a'), undefined);
+		assert.ok(validatePlaceholderValue(''));
+		assert.ok(validatePlaceholderValue('/etc'));
+		assert.ok(validatePlaceholderValue('../outside'));
+	});
+});
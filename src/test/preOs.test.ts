@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+
+import { closestPreOsFile, describePreOsInsertion, proposePreOsInsertion } from '../preOs';
+
+const PRE_OS = `#include "Os.h"
+#include "EcuM.h"
+
+/* PreOS startup sequence */
+void PreOS_Startup(void)
+{
+    EcuM_Init();
+    StartOS(OSDEFAULTAPPMODE);
+}
+`;
+
+suite('PreOS Test Suite', () => {
+	test('The call goes before StartOS(), the include after the last include', () => {
+		const insertion = proposePreOsInsertion({ path: 'os/PreOS.c', text: PRE_OS })!;
+
+		assert.strictEqual(insertion.functionName, 'PreOS_Startup');
+		assert.deepStrictEqual(insertion.include, { line: 3, text: '#include "dmiu_integration.h"\n' });
+		assert.strictEqual(insertion.call.line, 8);
+		assert.strictEqual(insertion.text, [
+			'#include "Os.h"',
+			'#include "EcuM.h"',
+			'#include "dmiu_integration.h"',
+			'',
+			'/* PreOS startup sequence */',
+			'void PreOS_Startup(void)',
+			'{',
+			'    EcuM_Init();',
+			'    /* DMIU integration: set the debug level before the OS starts and clients can query it */',
+			'    (void)DmiuInt_Initialize();',
+			'    StartOS(OSDEFAULTAPPMODE);',
+			'}',
+			''
+		].join('\n'));
+		assert.ok(describePreOsInsertion(insertion).includes('@@ before line 8 @@\n+    /* DMIU integration'));
+	});
+
+	test('Without StartOS() the call ends the startup function', () => {
+		const text = 'static void Helper(void)\n{\n}\n\nvoid PreOS_Init(void)\n{\n\tHw_Init();\n\n}\n';
+		const insertion = proposePreOsInsertion({ path: 'PreOS.c', text })!;
+
+		assert.strictEqual(insertion.functionName, 'PreOS_Init');
+		assert.deepStrictEqual(insertion.include, { line: 1, text: '#include "dmiu_integration.h"\n' });
+		assert.strictEqual(insertion.call.line, 9);
+		assert.ok(insertion.call.text.endsWith('\t(void)DmiuInt_Initialize();\n'));
+	});
+
+	test('Files that initialize DMIU already get no proposal', () => {
+		assert.strictEqual(proposePreOsInsertion({ path: 'PreOS.c', text: 'void PreOS(void)\n{\n    DMIU_Initialize(&cfg);\n}\n' }), undefined);
+		assert.ok(proposePreOsInsertion({ path: 'PreOS.c', text: 'void PreOS(void)\n{\n    /* DmiuInt_Initialize(); */\n}\n' }));
+	});
+
+	test('closestPreOsFile picks the file sharing most of the integration path', () => {
+		const files = [{ path: 'ecu1/os/PreOS.c' }, { path: 'repo/ecu2/os/PreOS.c' }, { path: 'repo/ecu1/os/PreOS.c' }];
+
+		assert.strictEqual(closestPreOsFile(files, 'repo/ecu1/dmiu')?.path, 'repo/ecu1/os/PreOS.c');
+		assert.strictEqual(closestPreOsFile(files, 'other/dmiu')?.path, 'ecu1/os/PreOS.c');
+		assert.strictEqual(closestPreOsFile([], 'repo'), undefined);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+
+import {
+	applyUserRegions, compareVersions, extractUserRegions, mergeThreeWay, planUpgrade, readGeneratorMarker, updateBaseSnapshot
+} from '../regeneration';
+import { generateIntegrationFiles, GENERATOR_VERSION } from '../templates';
+import { ConversationState } from '../types';
+
+const POSIX: ConversationState = {
+	step: 'complete',
+	platform: 'posix',
+	motionwiseConfig: 'cp-rdb2',
+	integrationPath: '1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu',
+	memoryFunction: 'ShmM_MapOwner',
+	datasetFunction: 'Per_DS_ReadDSElementDMIU (returns 0/1/2) */',
+	alternativeFunction: 'none'
+};
+
+function sourceOf(state: ConversationState): string {
+	return generateIntegrationFiles(state).find(file => file.relativePath === 'src/dmiu_integration.c')!.content;
+}
+
+suite('Regeneration Test Suite', () => {
+	test('Generated files record the template version and the answers', () => {
+		for (const file of generateIntegrationFiles(POSIX)) {
+			const { step, ...answers } = POSIX;
+			assert.deepStrictEqual(readGeneratorMarker(file.content), { version: GENERATOR_VERSION, answers }, file.relativePath);
+		}
+		assert.ok(!sourceOf(POSIX).includes('(returns 0/1/2) */'), 'answers must not close the banner comment');
+		assert.strictEqual(readGeneratorMarker('int main(void);'), undefined);
+	});
+
+	test('Files without an answers marker have no answers', () => {
+		const withoutAnswers = sourceOf(POSIX).replace(/^.*DFU-ANSWERS.*\n/m, '');
+		assert.deepStrictEqual(readGeneratorMarker(withoutAnswers), { version: GENERATOR_VERSION });
+		assert.deepStrictEqual(readGeneratorMarker(sourceOf(POSIX).replace('DFU-ANSWERS: {', 'DFU-ANSWERS: {broken')), { version: GENERATOR_VERSION });
+		assert.ok(compareVersions('1.2.0', '1.10.0') < 0 && compareVersions('1.3', '1.3.0') === 0);
+	});
+
+	test('User regions survive regeneration, regions without a place are reported', () => {
+		const edited = sourceOf(POSIX).replace('/* USER CODE BEGIN includes */\n', '/* USER CODE BEGIN includes */\n#include "Project.h"\n');
+		const regions = extractUserRegions(edited);
+		assert.deepStrictEqual(regions.get('includes'), ['#include "Project.h"']);
+		assert.deepStrictEqual(regions.get('init'), []);
+
+		const regenerated = applyUserRegions(sourceOf({ ...POSIX, alternativeFunction: 'Ovr_GetLevel' }), regions);
+		assert.ok(regenerated.text.includes('#include "dmiu_shm_config.h"\n/* USER CODE BEGIN includes */\n#include "Project.h"\n/* USER CODE END includes */'));
+		assert.deepStrictEqual(regenerated.dropped, []);
+		assert.deepStrictEqual(applyUserRegions('x\n', new Map([['gone', ['int kept;']], ['empty', ['']]])).dropped, ['gone']);
+	});
+
+	test('mergeThreeWay takes one-sided changes and marks conflicting ones', () => {
+		assert.deepStrictEqual(mergeThreeWay('a\nb\nc\nd', 'a\nB\nc\nd', 'a\nb\nc\nD'), { text: 'a\nB\nc\nD', conflicts: 0 });
+		assert.deepStrictEqual(mergeThreeWay('a\nb\nc', 'a\nb\nc\nmine', 'new\na\nb\nc'), { text: 'new\na\nb\nc\nmine', conflicts: 0 });
+		assert.deepStrictEqual(mergeThreeWay('a\nb\nc', 'a\nB\nc', 'a\nX\nc', { ours: 'ours', theirs: 'theirs' }), {
+			text: 'a\n<<<<<<< ours\nB\n=======\nX\n>>>>>>> theirs\nc',
+			conflicts: 1
+		});
+	});
+
+	test('planUpgrade merges edits against the base snapshot', () => {
+		// Base: an older template that had no comment before the pair check
+		const current = generateIntegrationFiles(POSIX);
+		const snapshot = updateBaseSnapshot(undefined, current.map(file => ({
+			...file,
+			content: file.content.replace(`template version ${GENERATOR_VERSION}`, 'template version 1.2.0').replace('    /* Both words must agree, a mismatching pair indicates corruption or tampering */\n', '')
+		})));
+		const existing = Object.fromEntries(Object.entries(snapshot.files).map(([path, content]) => [path, content
+			.replace('/* USER CODE BEGIN data */\n', '/* USER CODE BEGIN data */\nstatic uint32 DmiuInt_BootCount;\n')
+			.replace('    e_Dmiu_Debug_Level level = DMIU_DEBUG_LEVEL_SAFE;\n\n    if (magicFlagA', '    e_Dmiu_Debug_Level level = DMIU_DEBUG_LEVEL_SAFE; /* reviewed */\n\n    if (magicFlagA')]));
+		existing['BUILD.bazel'] = current.find(file => file.relativePath === 'BUILD.bazel')!.content;
+		existing['src/main.c'] = 'int main(void) { return 0; }\n';
+
+		const files = planUpgrade(current, existing, snapshot);
+		assert.deepStrictEqual(files.map(file => [file.relativePath, file.status]), [
+			['api/dmiu_integration.h', 'merged'],
+			['src/dmiu_integration.c', 'merged'],
+			['api/dmiu_shm_config.h', 'merged'],
+			['src/main.c', 'handwritten'],
+			['deploy/dmiu_daemon.service', 'merged'],
+			['BUILD.bazel', 'unchanged']
+		]);
+		const source = files[1].text;
+		assert.ok(source.includes(`template version ${GENERATOR_VERSION}`));
+		assert.ok(source.includes('static uint32 DmiuInt_BootCount;'));
+		assert.ok(source.includes('DMIU_DEBUG_LEVEL_SAFE; /* reviewed */\n\n    /* Both words must agree'));
+
+		const withoutBase = planUpgrade(current, existing)[1];
+		assert.strictEqual(withoutBase.status, 'replaced');
+		assert.ok(withoutBase.text.includes('static uint32 DmiuInt_BootCount;') && !withoutBase.text.includes('/* reviewed */'));
+	});
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+
+import { describeAnswers, editAnswer, isAnswered, isConversationState, nextEcu, previousStep, resolveSuggestion, restoreState, setAnswer } from '../session';
+import { ConversationState } from '../types';
+
+function responseTurn(participant: string, state: unknown) {
+	return { participant, response: [], result: { metadata: { state } } };
+}
+
+suite('Session Test Suite', () => {
+	const answered: ConversationState = {
+		step: 'alternative',
+		platform: 'posix',
+		motionwiseConfig: 'cp-rdb2',
+		integrationPath: 'dmiu',
+		memoryFunction: 'ShmM_MapOwner',
+		datasetFunction: 'Per_DS_ReadDSElementDMIU'
+	};
+
+	test('restoreState uses the latest response of the participant', () => {
+		const history = [
+			{ participant: 'dfu.assistant', prompt: '/integrate posix', command: 'integrate' },
+			responseTurn('dfu.assistant', { step: 'memory', platform: 'posix' }),
+			responseTurn('other.participant', { step: 'complete' }),
+			responseTurn('dfu.assistant', answered),
+			responseTurn('other.participant', { step: 'initial' })
+		];
+		assert.deepStrictEqual(restoreState(history, 'dfu.assistant'), answered);
+	});
+
+	test('restoreState starts fresh without usable metadata', () => {
+		assert.deepStrictEqual(restoreState([], 'dfu.assistant'), { step: 'initial' });
+		assert.deepStrictEqual(restoreState([responseTurn('dfu.assistant', { step: 'bogus' })], 'dfu.assistant'), { step: 'initial' });
+	});
+
+	test('restoreState returns a copy', () => {
+		const restored = restoreState([responseTurn('dfu.assistant', answered)], 'dfu.assistant');
+		restored.memoryFunction = 'changed';
+		assert.strictEqual(answered.memoryFunction, 'ShmM_MapOwner');
+	});
+
+	test('isConversationState rejects malformed values', () => {
+		assert.ok(isConversationState({ step: 'dataset', platform: 'autosar' }));
+		assert.ok(!isConversationState({ step: 'dataset', platform: 'linux' }));
+		assert.ok(!isConversationState({ step: 'dataset', memoryFunction: 42 }));
+		assert.ok(!isConversationState(null));
+	});
+
+	test('previousStep walks back and clears the re-asked answer', () => {
+		const dataset = previousStep(answered)!;
+		assert.strictEqual(dataset.step, 'dataset');
+		assert.strictEqual(dataset.datasetFunction, undefined);
+
+		const config = previousStep(previousStep(dataset)!)!;
+		assert.strictEqual(config.step, 'config');
+		assert.strictEqual(config.motionwiseConfig, undefined);
+		assert.strictEqual(previousStep(config), undefined);
+	});
+
+	test('previousStep stops at memory for non-MotionWise integrations', () => {
+		assert.strictEqual(previousStep({ step: 'memory', platform: 'autosar' }), undefined);
+	});
+
+	test('editAnswer replaces a single answer and keeps the step', () => {
+		const edited = editAnswer(answered, 'memory', 'static');
+		assert.strictEqual(edited.memoryFunction, 'static');
+		assert.strictEqual(edited.step, 'alternative');
+		assert.strictEqual(edited.datasetFunction, answered.datasetFunction);
+	});
+
+	test('describeAnswers lists answers in wizard order', () => {
+		assert.deepStrictEqual(describeAnswers(answered).map(([label]) => label),
+			['Platform', 'Configuration', 'Integration path', 'Memory', 'Dataset']);
+	});
+
+	test('Multi-ECU answers are asked per ECU and reuse the first ECU\'s answers', () => {
+		const state: ConversationState = { ...answered, alternativeFunction: 'none', ecus: [{ name: 'ecu1' }, { name: 'ecu2' }] };
+		assert.strictEqual(nextEcu(state)?.name, 'ecu2');
+		assert.strictEqual(state.currentEcu, 1);
+		state.step = 'dataset';
+		setAnswer(state, 'memory', 'static');
+		assert.strictEqual(state.memoryFunction, 'ShmM_MapOwner');
+		assert.deepStrictEqual(state.ecus![1], { name: 'ecu2', memoryFunction: 'static' });
+		assert.ok(isAnswered(state, 'memory', 1));
+		assert.ok(!isAnswered(state, 'dataset', 1));
+
+		assert.deepStrictEqual(describeAnswers(state).slice(-4), [
+			['Memory (ecu1)', 'ShmM_MapOwner'],
+			['Dataset (ecu1)', 'Per_DS_ReadDSElementDMIU'],
+			['Alternative (ecu1)', 'none'],
+			['Memory (ecu2)', 'static']
+		]);
+		assert.deepStrictEqual(editAnswer(state, 'memory', 'same', 1).ecus![1], { name: 'ecu2' });
+		assert.strictEqual(state.ecus![1].memoryFunction, 'static');
+	});
+
+	test('previousStep goes back from a later ECU to the ECU before', () => {
+		const state: ConversationState = { ...answered, step: 'memory', alternativeFunction: 'none', currentEcu: 1, ecus: [{ name: 'ecu1' }, { name: 'ecu2' }] };
+		const back = previousStep(state)!;
+		assert.strictEqual(back.step, 'alternative');
+		assert.strictEqual(back.currentEcu, undefined);
+		assert.strictEqual(back.alternativeFunction, undefined);
+		assert.strictEqual(state.alternativeFunction, 'none');
+
+		const config = previousStep({ ...back, step: 'memory' })!;
+		assert.strictEqual(config.step, 'config');
+		assert.strictEqual(config.ecus, undefined);
+	});
+
+	test('resolveSuggestion maps numbered replies to suggested functions', () => {
+		const state: ConversationState = { step: 'dataset', suggestions: ['Per_DS_ReadDSElementDMIU', 'NvM_ReadDebugLevel'] };
+		assert.strictEqual(resolveSuggestion(state, '2'), 'NvM_ReadDebugLevel');
+		assert.strictEqual(resolveSuggestion(state, '3'), '3');
+		assert.strictEqual(resolveSuggestion(state, 'MyRead'), 'MyRead');
+		assert.strictEqual(resolveSuggestion({ step: 'dataset' }, '1'), '1');
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+
+import { collectDefines, findShmMappings, isDmiuMapping, mapsSharedMemory, SHM_SEGMENT_NAME, SHM_SEGMENT_SIZE } from '../sharedMemory';
+
+const CONFIG_HEADER = {
+	path: 'dmiu/api/dmiu_shm_config.h',
+	text: [
+		'#define DMIU_SHM_NAME "/dmiu_debug_unlocking" /* segment of the daemon */',
+		'#define DMIU_SHM_SIZE ((uint32)sizeof(Dt_RECORD_DebugUnlockingStruct_DMIU))',
+		'#define DMIU_SHM_NAME_OF(x) x'
+	].join('\n')
+};
+
+suite('Shared Memory Test Suite', () => {
+	test('Object-like defines are collected, function-like macros are not', () => {
+		const defines = collectDefines([CONFIG_HEADER]);
+		assert.deepStrictEqual([...defines.keys()], ['DMIU_SHM_NAME', 'DMIU_SHM_SIZE']);
+		assert.strictEqual(defines.get('DMIU_SHM_NAME'), '"/dmiu_debug_unlocking"');
+	});
+
+	test('Owner and client mappings are evaluated through macros and sizeof', () => {
+		const defines = collectDefines([CONFIG_HEADER]);
+		const file = {
+			path: 'client/src/reader.c',
+			text: [
+				'extern void *ShmM_MapClient(const char *name, uint32 size);',
+				'#define LOCAL_SIZE (4u + 0x4u)',
+				'void Reader_Init(void)',
+				'{',
+				'    owned = ShmM_MapOwner(DMIU_SHM_NAME, DMIU_SHM_SIZE);',
+				'    // ShmM_MapClient("/commented", 1);',
+				'    mapped = ShmM_MapClient("/dmiu_debug_unlocking", (uint32)LOCAL_SIZE);',
+				'    other = ShmM_MapClient(name, sizeof(MyStruct));',
+				'    fd = shm_open("/other", O_CREAT | O_RDWR, 0600);',
+				'}'
+			].join('\n')
+		};
+
+		const mappings = findShmMappings(file, defines);
+		assert.deepStrictEqual(
+			mappings.map(m => [m.functionName, m.owner, m.name, m.size, m.line]),
+			[
+				['ShmM_MapOwner', true, SHM_SEGMENT_NAME, SHM_SEGMENT_SIZE, 5],
+				['ShmM_MapClient', false, SHM_SEGMENT_NAME, 8, 7],
+				['ShmM_MapClient', false, undefined, undefined, 8],
+				['shm_open', true, '/other', undefined, 9]
+			]
+		);
+		assert.ok(mapsSharedMemory(file.text));
+		assert.ok(!mapsSharedMemory('void f(void) { ShmM_Unmap(p); }'));
+	});
+
+	test('Mappings are attributed to DMIU by name or by the size argument', () => {
+		const [byName, bySize, unrelated] = findShmMappings({
+			path: 'client.c',
+			text: 'a = ShmM_MapClient("/dmiu_debug_old", 8);\nb = ShmM_MapClient(name, sizeof(Dt_RECORD_DebugUnlockingStruct_DMIU));\nc = ShmM_MapClient("/radar", 64);\n'
+		});
+		assert.ok(isDmiuMapping(byName, SHM_SEGMENT_NAME));
+		assert.ok(isDmiuMapping(bySize, SHM_SEGMENT_NAME));
+		assert.ok(!isDmiuMapping(unrelated, SHM_SEGMENT_NAME));
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+
+import { extractFunctionName, formatMagicFlag, generateIntegrationFiles, MAGIC_FLAGS } from '../templates';
+
+suite('Template Generator Test Suite', () => {
+	test('extractFunctionName takes the leading identifier of an answer', () => {
+		assert.strictEqual(extractFunctionName('MyCustomReader (returns string "level_1")'), 'MyCustomReader');
+		assert.strictEqual(extractFunctionName('`Per_DS_ReadDSElementDMIU`'), 'Per_DS_ReadDSElementDMIU');
+		assert.strictEqual(extractFunctionName('none'), undefined);
+		assert.strictEqual(extractFunctionName(''), undefined);
+	});
+
+	test('formatMagicFlag renders 8-digit unsigned hex literals', () => {
+		assert.strictEqual(formatMagicFlag(MAGIC_FLAGS.safe), '0x00000000U');
+		assert.strictEqual(formatMagicFlag(MAGIC_FLAGS.level1), '0xDEB00001U');
+		assert.strictEqual(formatMagicFlag(MAGIC_FLAGS.level2), '0xDEB00002U');
+	});
+
+	test('POSIX integration produces header, implementation and main.c', () => {
+		const files = generateIntegrationFiles({
+			step: 'complete',
+			platform: 'posix',
+			memoryFunction: 'ShmM_MapOwner',
+			datasetFunction: 'Per_DS_ReadDSElementDMIU',
+			alternativeFunction: 'none'
+		});
+
+		assert.deepStrictEqual(files.map(f => f.relativePath), [
+			'api/dmiu_integration.h', 'src/dmiu_integration.c', 'api/dmiu_shm_config.h', 'src/main.c', 'deploy/dmiu_daemon.service', 'BUILD.bazel'
+		]);
+		const source = files[1].content;
+		assert.ok(source.includes('#include "ShmM.h"'));
+		assert.ok(source.includes('ShmM_MapOwner(DMIU_SHM_NAME, DMIU_SHM_SIZE)'));
+		assert.ok(source.includes('(uint32)Per_DS_ReadDSElementDMIU()'));
+		assert.ok(source.includes('Alternative adapter stub'));
+		assert.ok(source.includes('MISRA C:2012 Rule 11.5'));
+		assert.ok(/#define DMIU_SHM_NAME +"\/dmiu_debug_unlocking"/.test(files[2].content));
+		assert.ok(files[4].content.includes('ExecStartPost=/bin/sh -c \'while [ ! -e /dev/shm/dmiu_debug_unlocking ]'));
+		assert.ok(files[5].content.includes('name = "dmiu_deployment"'));
+		assert.ok(files[5].content.includes('"api/dmiu_shm_config.h"'));
+	});
+
+	test('AUTOSAR integration omits main.c and uses static memory', () => {
+		const files = generateIntegrationFiles({ step: 'complete', platform: 'autosar', memoryFunction: 'static' });
+
+		assert.deepStrictEqual(files.map(f => f.relativePath), ['api/dmiu_integration.h', 'src/dmiu_integration.c', 'BUILD.bazel']);
+		assert.ok(files[0].content.includes('PreOS.c'));
+		assert.ok(files[1].content.includes('static Dt_RECORD_DebugUnlockingStruct_DMIU DmiuInt_TargetMemory;'));
+	});
+
+	test('AUTOSAR dataset can be read from an NvM block', () => {
+		const source = generateIntegrationFiles({ step: 'complete', platform: 'autosar', memoryFunction: 'static', datasetFunction: 'NvM:NvMBlock_DmiuDataset' })[1].content;
+
+		assert.ok(source.includes('#include "NvM.h"'));
+		assert.ok(source.includes('(DmiuInt_NvMReadIssued == FALSE) && (NvM_ReadBlock(NvMConf_NvMBlockDescriptor_NvMBlock_DmiuDataset, &DmiuInt_NvMDataset) == E_OK)'));
+		assert.ok(source.includes('NvM_GetErrorStatus(NvMConf_NvMBlockDescriptor_NvMBlock_DmiuDataset, &requestResult)'));
+		assert.ok(!source.includes('(uint32)NvM'), 'the answer is not taken for a function name');
+	});
+
+	test('BUILD.bazel defines the library, and the daemon only for POSIX', () => {
+		const posix = generateIntegrationFiles({ step: 'complete', platform: 'posix' }, { bazelDependencies: ['@1200-core//dmiu', '@1200-core//shmm'] }).at(-1)!;
+		assert.ok(posix.content.includes('name = "dmiu_integration"'));
+		assert.ok(posix.content.includes('        "@1200-core//dmiu",\n        "@1200-core//shmm",\n'));
+		assert.ok(posix.content.includes('name = "dmiu_daemon"'));
+		assert.ok(posix.content.includes('Generated by the DFU Integration Assistant'));
+
+		const autosar = generateIntegrationFiles({ step: 'complete', platform: 'autosar' }).at(-1)!;
+		assert.ok(autosar.content.includes('"//1200-Core/dmiu",'));
+		assert.ok(!autosar.content.includes('cc_binary'));
+	});
+
+	test('Output is deterministic', () => {
+		const state = { step: 'complete' as const, platform: 'posix' as const, memoryFunction: 'MyAlloc', datasetFunction: 'MyRead', alternativeFunction: 'MyOverride' };
+		assert.deepStrictEqual(generateIntegrationFiles(state), generateIntegrationFiles({ ...state }));
+	});
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+
+import { runHarness } from '../harnessRunner';
+import { generateIntegrationFiles } from '../templates';
+import { generateTestHarness, parseHarnessOutput, planHarnessBuilds } from '../testHarness';
+import { ConversationState } from '../types';
+
+const POSIX: ConversationState = {
+	step: 'complete',
+	platform: 'posix',
+	memoryFunction: 'ShmM_MapOwner',
+	datasetFunction: 'Per_DS_ReadDSElementDMIU',
+	alternativeFunction: 'MyOverride'
+};
+
+function hasGcc(): boolean {
+	try {
+		execFileSync('gcc', ['--version'], { stdio: 'ignore', timeout: 10_000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+suite('Test Harness Test Suite', () => {
+	test('Harness stubs the configured functions and the DMIU core', () => {
+		const files = generateTestHarness(POSIX);
+		assert.deepStrictEqual(files.map(f => f.relativePath), [
+			'test/dmiu_integration_test.c',
+			'test/stubs/dmiu_test_stubs.h',
+			'test/stubs/Std_Types.h',
+			'test/stubs/Dmiu.h',
+			'test/stubs/ShmM.h'
+		]);
+
+		const source = files[0].content;
+		assert.ok(source.includes('uint32 Per_DS_ReadDSElementDMIU(void)\n{\n    return DmiuTest_DatasetValue;\n}'));
+		assert.ok(source.includes('void* ShmM_MapOwner(const char* name, uint32 size)'));
+		assert.ok(source.includes('{ 0xDEB00001U, 2U, DMIU_DEBUG_LEVEL_2, "dataset LEVEL_1, alternative LEVEL_2" },'));
+		assert.ok(source.includes('{ 0xDEB00003U, 1U, DMIU_DEBUG_LEVEL_1, "dataset corrupted 0xDEB00003, alternative LEVEL_1" },'));
+		assert.ok(source.includes('{ 0xDEB00002U, 0xDEB00001U, DMIU_DEBUG_LEVEL_SAFE, "pair 0xDEB00002U/0xDEB00001U" },'));
+		assert.ok(source.includes('returns FALSE without target memory'));
+		assert.ok(files[1].content.includes('uint32 MyOverride(void);'));
+	});
+
+	test('Unconfigured sources are expected to report the Safe Level', () => {
+		const source = generateTestHarness({ step: 'complete', platform: 'autosar', memoryFunction: 'static' })[0].content;
+		assert.ok(source.includes('{ 0xDEB00002U, 1U, DMIU_DEBUG_LEVEL_SAFE, "dataset LEVEL_2, alternative LEVEL_1" },'));
+		assert.ok(!source.includes('returns FALSE without target memory'), 'static memory is always available');
+		assert.ok(!source.includes('ShmM'));
+	});
+
+	test('parseHarnessOutput counts TAP results', () => {
+		assert.deepStrictEqual(parseHarnessOutput('ok 1 - a\nnot ok 2 - pairs: b (expected X, got Y)\nok 3 - c\n1..3\n# 1 of 3 failed\n'), {
+			passed: 2,
+			failed: 1,
+			failures: ['pairs: b (expected X, got Y)']
+		});
+	});
+
+	test('Generated integration passes its harness with gcc', async function () {
+		if (!hasGcc()) {
+			this.skip();
+		}
+		this.timeout(60_000);
+
+		const lines: string[] = [];
+		const result = await runHarness([...generateIntegrationFiles(POSIX), ...generateTestHarness(POSIX)], {
+			compiler: 'gcc',
+			onOutput: line => lines.push(line)
+		});
+
+		assert.strictEqual(result.status, 'passed', JSON.stringify(result));
+		assert.ok(lines.includes('# 0 of 87 failed'));
+	});
+
+	test('NvM datasets pass their harness with gcc', async function () {
+		if (!hasGcc()) {
+			this.skip();
+		}
+		this.timeout(60_000);
+
+		const state: ConversationState = { step: 'complete', platform: 'autosar', memoryFunction: 'static', datasetFunction: 'NvM:NvMBlock_DmiuDataset' };
+		const harness = generateTestHarness(state);
+		assert.ok(harness.some(file => file.relativePath === 'test/stubs/NvM.h' && file.content.includes('#define NvMConf_NvMBlockDescriptor_NvMBlock_DmiuDataset')));
+
+		const result = await runHarness([...generateIntegrationFiles(state), ...harness], { compiler: 'gcc' });
+		assert.strictEqual(result.status, 'passed', JSON.stringify(result));
+	});
+
+	test('Every ECU of a multi-ECU integration passes its harness with the shared library', async function () {
+		const state: ConversationState = {
+			...POSIX,
+			integrationPath: 'dmiu',
+			ecus: [{ name: 'ecu1' }, { name: 'ecu2', datasetFunction: 'Ecu2_ReadDataset', alternativeFunction: 'none' }]
+		};
+		const builds = planHarnessBuilds(state);
+		assert.deepStrictEqual(builds.map(build => [build.ecu, build.directory]), [['ecu1', 'ecu1'], ['ecu2', 'ecu2']]);
+		assert.ok(builds[1].files.some(file => file.relativePath === 'common/src/dmiu_integration_common.c'));
+		assert.ok(builds[1].files.some(file => file.relativePath === 'ecu2/test/stubs/dmiu_test_stubs.h' && file.content.includes('uint32 Ecu2_ReadDataset(void);')));
+		assert.ok(builds[1].compileArgs.includes('../common/src/dmiu_integration_common.c') && builds[1].compileArgs.includes('-I../common/api'));
+		assert.ok(builds[0].harness[0].content.includes(builds[0].compileArgs.join(' ')));
+		assert.deepStrictEqual(planHarnessBuilds(POSIX).map(build => build.directory), ['']);
+
+		if (!hasGcc()) {
+			this.skip();
+		}
+		this.timeout(120_000);
+		for (const build of builds) {
+			const result = await runHarness(build.files, { compiler: 'gcc', compileArgs: build.compileArgs, directory: build.directory });
+			assert.strictEqual(result.status, 'passed', `${build.ecu}: ${JSON.stringify(result)}`);
+		}
+	});
+
+	test('A missing compiler is reported', async () => {
+		const result = await runHarness(generateTestHarness(POSIX), { compiler: 'dfu-no-such-compiler' });
+		assert.deepStrictEqual(result, { status: 'no-compiler' });
+	});
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+
+import { integrationTargetLabel } from '../bazel';
+import { stripComments } from '../cParser';
+import { flattenDirectories, generateIntegrationDirectories } from '../ecus';
+import { generateIntegrationFiles } from '../templates';
+import { CheckResult, groupIntegrationFiles, validateIntegration } from '../validation';
+
+function statusOf(checks: CheckResult[], id: CheckResult['id']): CheckResult['status'] {
+	return checks.find(check => check.id === id)!.status;
+}
+
+suite('Integration Validation Test Suite', () => {
+	const generated = generateIntegrationFiles({ step: 'complete', platform: 'posix', memoryFunction: 'static', datasetFunction: 'MyRead' })
+		.map(file => ({ path: `dmiu/${file.relativePath}`, text: file.content }));
+
+	test('Generated POSIX integration passes all applicable checks', () => {
+		const checks = validateIntegration({ platform: 'posix', integrationFiles: generated, preOsFiles: [] });
+		assert.deepStrictEqual(checks.map(check => check.status), ['pass', 'pass', 'pass', 'skip', 'pass', 'skip', 'skip']);
+	});
+
+	test('Missing config field is reported on the DMIU_Initialize line', () => {
+		const text = 'void Init(void)\n{\n    cfg.target_memory = &mem;\n    cfg.dataset_read_func = &Read;\n    DMIU_Initialize(&cfg);\n}\n';
+		const checks = validateIntegration({ integrationFiles: [{ path: 'dmiu/src/a.c', text }], preOsFiles: [] });
+		const configCheck = checks.find(check => check.id === 'config-fields')!;
+		assert.strictEqual(configCheck.status, 'fail');
+		assert.strictEqual(configCheck.findings.length, 1);
+		assert.ok(configCheck.findings[0].message.includes('debug_level_override_func'));
+		assert.strictEqual(configCheck.findings[0].line, 5);
+	});
+
+	test('Prototypes and comments do not count as DMIU_Initialize calls', () => {
+		const text = '/* DMIU_Initialize(&cfg); */\nvoid DMIU_Initialize(const Dmiu_ConfigType* config);\n';
+		const checks = validateIntegration({ integrationFiles: [{ path: 'dmiu/api/a.h', text }], preOsFiles: [] });
+		assert.strictEqual(statusOf(checks, 'initialize-call'), 'fail');
+		assert.strictEqual(statusOf(checks, 'config-fields'), 'skip');
+	});
+
+	test('Wrong magic flag constants are flagged', () => {
+		const text = '#define MAGIC_FLAG_LEVEL_1 (0xDEB00002U)\n#define MAGIC_FLAG_SAFE 0U\nuint32 x = 0xDEB00003U;\n';
+		const check = validateIntegration({ integrationFiles: [{ path: 'dmiu/src/a.c', text }], preOsFiles: [] })
+			.find(c => c.id === 'magic-flags')!;
+		assert.strictEqual(check.status, 'fail');
+		assert.deepStrictEqual(check.findings.map(f => [f.severity, f.line]), [['error', 1], ['warning', 3]]);
+	});
+
+	test('AUTOSAR requires the initialization call in PreOS.c', () => {
+		const without = validateIntegration({ platform: 'autosar', integrationFiles: generated, preOsFiles: [{ path: 'os/PreOS.c', text: 'void PreOS(void) {}\n' }] });
+		assert.strictEqual(statusOf(without, 'autosar-preos'), 'fail');
+
+		const withCall = validateIntegration({ platform: 'autosar', integrationFiles: generated, preOsFiles: [{ path: 'os/PreOS.c', text: 'void PreOS(void)\n{\n    (void)DmiuInt_Initialize();\n}\n' }] });
+		assert.strictEqual(statusOf(withCall, 'autosar-preos'), 'pass');
+	});
+
+	test('Each integration is checked against its own PreOS.c', () => {
+		const projectA = generated.map(file => ({ ...file, path: `projectA/${file.path}` }));
+		const preOsFiles = [
+			{ path: 'projectA/os/PreOS.c', text: 'void PreOS(void)\n{\n    StartOS(OSDEFAULTAPPMODE);\n}\n' },
+			{ path: 'projectB/os/PreOS.c', text: 'void PreOS(void)\n{\n    (void)DmiuInt_Initialize();\n}\n' }
+		];
+		const check = validateIntegration({ platform: 'autosar', directory: 'projectA/dmiu', integrationFiles: projectA, preOsFiles })
+			.find(c => c.id === 'autosar-preos')!;
+		assert.strictEqual(check.status, 'fail');
+		assert.deepStrictEqual([check.findings[0].path, check.findings[0].line], ['projectA/os/PreOS.c', 3]);
+
+		assert.strictEqual(statusOf(validateIntegration({ platform: 'autosar', integrationFiles: projectA, preOsFiles: [...preOsFiles].reverse() }), 'autosar-preos'), 'fail');
+		assert.strictEqual(statusOf(validateIntegration({ platform: 'autosar', directory: 'projectB/dmiu', integrationFiles: generated, preOsFiles }), 'autosar-preos'), 'pass');
+	});
+
+	test('POSIX client mappings must match the segment the daemon owns', () => {
+		const shmFiles = generateIntegrationFiles({ step: 'complete', platform: 'posix', memoryFunction: 'ShmM_MapOwner', datasetFunction: 'MyRead' })
+			.map(file => ({ path: `dmiu/${file.relativePath}`, text: file.content }));
+		const check = (client: string) => validateIntegration({
+			platform: 'posix',
+			integrationFiles: shmFiles,
+			preOsFiles: [],
+			shmClientFiles: [...shmFiles, { path: 'client/src/client.c', text: `void Client_Init(void)\n{\n    p = ${client};\n}\n` }]
+		}).find(c => c.id === 'posix-shm')!;
+
+		assert.strictEqual(check('ShmM_MapClient(DMIU_SHM_NAME, DMIU_SHM_SIZE)').status, 'pass');
+		assert.strictEqual(check('ShmM_MapClient("/dmiu_debug_unlocking", 8u)').status, 'pass');
+
+		const renamed = check('ShmM_MapClient("/dmiu_unlocking", DMIU_SHM_SIZE)');
+		assert.strictEqual(renamed.status, 'fail');
+		assert.deepStrictEqual([renamed.findings[0].path, renamed.findings[0].line], ['client/src/client.c', 3]);
+		assert.strictEqual(check('ShmM_MapClient(DMIU_SHM_NAME, 4u)').status, 'fail');
+		assert.strictEqual(check('ShmM_MapOwner(DMIU_SHM_NAME, DMIU_SHM_SIZE)').status, 'fail');
+		assert.strictEqual(check('ShmM_MapClient(DMIU_SHM_NAME, size)').findings[0].severity, 'info');
+
+		const noClient = validateIntegration({ platform: 'posix', integrationFiles: shmFiles, preOsFiles: [], shmClientFiles: shmFiles });
+		assert.strictEqual(noClient.find(c => c.id === 'posix-shm')!.findings[0].severity, 'info');
+		assert.strictEqual(statusOf(validateIntegration({ platform: 'autosar', integrationFiles: shmFiles, preOsFiles: [] }), 'posix-shm'), 'skip');
+	});
+
+	test('Bazel target must exist and be referenced from 1500-build', () => {
+		const buildFile = generateIntegrationFiles({ step: 'complete', platform: 'posix' }).at(-1)!;
+		const integrationBuildFiles = [{ path: '1800-EcuIntegration/RDB2/1800-ecu-int-rdb2-cp-a/core/development/dmiu/BUILD.bazel', text: buildFile.content }];
+		const check = (topLevel: string) => validateIntegration({
+			platform: 'posix',
+			integrationFiles: generated,
+			preOsFiles: [],
+			integrationBuildFiles,
+			topLevelBuildFiles: [{ path: '1500-build/BUILD.bazel', text: topLevel }]
+		}).find(c => c.id === 'bazel-target')!;
+
+		assert.strictEqual(check('deps = ["@1800-ecu-int-rdb2-cp-a//core/development/dmiu:dmiu_daemon"]').status, 'pass');
+		const missing = check('deps = ["@1800-ecu-int-rdb2-cp-a//core/development/dmiu_old:dmiu_daemon"]');
+		assert.strictEqual(missing.status, 'fail');
+		assert.strictEqual(missing.findings[0].path, '1500-build/BUILD.bazel');
+
+		const noBuild = validateIntegration({ platform: 'posix', integrationFiles: generated, preOsFiles: [], topLevelBuildFiles: [{ path: '1500-build/BUILD.bazel', text: '' }] });
+		assert.strictEqual(statusOf(noBuild, 'bazel-target'), 'fail');
+	});
+
+	test('Every ECU of a multi-ECU integration is validated with the shared code', () => {
+		const integrationPath = '1700-Configuration/RDB2/1710-handwritten-config-s324sdv/core/development/dmiu';
+		const files = flattenDirectories(generateIntegrationDirectories({
+			step: 'complete',
+			platform: 'posix',
+			integrationPath,
+			memoryFunction: 'static',
+			datasetFunction: 'MyRead',
+			ecus: [{ name: 'ecu1' }, { name: 'ecu2' }]
+		})).map(file => ({ path: `${integrationPath}/${file.relativePath}`, text: file.content }));
+		const isBuildFile = (file: { path: string }) => file.path.endsWith('BUILD.bazel');
+		const groups = groupIntegrationFiles(files.filter(file => !isBuildFile(file)), files.filter(isBuildFile));
+		assert.deepStrictEqual(groups.map(group => group.ecu), ['ecu1', 'ecu2']);
+		assert.ok(groups[1].integrationFiles.some(file => file.path.endsWith('common/src/dmiu_integration_common.c')));
+		assert.deepStrictEqual(groups[1].integrationBuildFiles.map(file => file.path), [`${integrationPath}/ecu2/BUILD.bazel`]);
+
+		const topLevel = groups.map(group => `"${integrationTargetLabel(group.directory, 'posix')}",`).join('\n');
+		for (const group of groups) {
+			const checks = validateIntegration({ ...group, platform: 'posix', preOsFiles: [], topLevelBuildFiles: [{ path: '1500-build/BUILD.bazel', text: topLevel }] });
+			assert.deepStrictEqual(checks.map(check => check.status), ['pass', 'pass', 'pass', 'skip', 'pass', 'skip', 'pass']);
+		}
+	});
+
+	test('stripComments keeps line numbers', () => {
+		const text = 'a /* x\ny */ b // c\nd';
+		assert.strictEqual(stripComments(text).split('\n').length, 3);
+		assert.ok(!stripComments(text).includes('x'));
+		assert.strictEqual(stripComments('f("/*", x); // "y"', { keepStrings: true }), 'f("/*", x);'.padEnd(18));
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+
+import { FileEvent, IndexCollection, IndexFileSystem, WorkspaceIndex } from '../workspaceIndex';
+
+/** In-memory file system counting searches and reads, with a watcher that tests can fire */
+class FakeFileSystem implements IndexFileSystem {
+	searches = 0;
+	reads: string[] = [];
+	running = 0;
+	maxRunning = 0;
+	listeners: ((event: FileEvent) => void)[] = [];
+
+	constructor(public files: Record<string, string>) {}
+
+	async findFiles(): Promise<string[]> {
+		this.searches++;
+		return Object.keys(this.files).reverse();
+	}
+
+	async readFile(path: string): Promise<string> {
+		this.reads.push(path);
+		this.running++;
+		this.maxRunning = Math.max(this.maxRunning, this.running);
+		await new Promise(resolve => setTimeout(resolve, 1));
+		this.running--;
+		if (!(path in this.files)) {
+			throw new Error(`ENOENT: ${path}`);
+		}
+		return this.files[path];
+	}
+
+	watch(_glob: string, listener: (event: FileEvent) => void) {
+		this.listeners.push(listener);
+		return { dispose: () => this.listeners.splice(this.listeners.indexOf(listener), 1) };
+	}
+
+	fire(kind: FileEvent['kind'], path: string): void {
+		this.listeners.forEach(listener => listener({ kind, path }));
+	}
+}
+
+const LENGTHS: IndexCollection<number> = { glob: '**/*.h', label: 'headers', parse: text => text.length };
+
+function headers(count: number): Record<string, string> {
+	return Object.fromEntries(Array.from({ length: count }, (_, i) => [`inc/h${String(i).padStart(2, '0')}.h`, 'x'.repeat(i)]));
+}
+
+suite('Workspace Index Test Suite', () => {
+	test('Files are searched and read once, values are sorted by path', async () => {
+		const fileSystem = new FakeFileSystem({ 'b.h': 'bb', 'a.h': 'a' });
+		const index = new WorkspaceIndex(fileSystem);
+
+		assert.deepStrictEqual([...await index.files(LENGTHS)], [['a.h', 1], ['b.h', 2]]);
+		assert.deepStrictEqual([...await index.files(LENGTHS)], [['a.h', 1], ['b.h', 2]]);
+		assert.deepStrictEqual(await index.paths(LENGTHS.glob), ['a.h', 'b.h']);
+		assert.strictEqual(fileSystem.searches, 1);
+		assert.strictEqual(fileSystem.reads.length, 2);
+	});
+
+	test('Watcher events update only the affected files', async () => {
+		const fileSystem = new FakeFileSystem({ 'a.h': 'a', 'b.h': 'bb' });
+		const index = new WorkspaceIndex(fileSystem);
+		await index.files(LENGTHS);
+		fileSystem.reads = [];
+
+		fileSystem.files['a.h'] = 'aaa';
+		fileSystem.fire('changed', 'a.h');
+		fileSystem.files['c.h'] = 'c';
+		fileSystem.fire('created', 'c.h');
+		delete fileSystem.files['b.h'];
+		fileSystem.fire('deleted', 'b.h');
+
+		assert.deepStrictEqual([...await index.files(LENGTHS)], [['a.h', 3], ['c.h', 1]]);
+		assert.deepStrictEqual(fileSystem.reads.sort(), ['a.h', 'c.h']);
+		assert.strictEqual(fileSystem.searches, 1);
+
+		index.dispose();
+		assert.strictEqual(fileSystem.listeners.length, 0);
+	});
+
+	test('Reads run in parallel up to the limit and report progress', async () => {
+		const fileSystem = new FakeFileSystem(headers(20));
+		const progress: [number, number][] = [];
+		const files = await new WorkspaceIndex(fileSystem, 4).files(LENGTHS, undefined, (read, total) => progress.push([read, total]));
+
+		assert.strictEqual(files.size, 20);
+		assert.strictEqual(fileSystem.maxRunning, 4);
+		assert.deepStrictEqual(progress[0], [0, 20]);
+		assert.deepStrictEqual(progress.at(-1), [20, 20]);
+	});
+
+	test('Cancellation stops reading, the next query reads the rest', async () => {
+		const fileSystem = new FakeFileSystem(headers(10));
+		const index = new WorkspaceIndex(fileSystem, 2);
+		const token = { isCancellationRequested: false };
+
+		const partial = await index.files(LENGTHS, token, read => {
+			token.isCancellationRequested = read >= 4;
+		});
+		assert.ok(partial.size >= 4 && partial.size < 10, `read ${partial.size} files`);
+
+		assert.strictEqual((await index.files(LENGTHS)).size, 10);
+		assert.strictEqual(fileSystem.reads.length, 10);
+	});
+
+	test('Files that cannot be read are left out', async () => {
+		const fileSystem = new FakeFileSystem({ 'a.h': 'a' });
+		const index = new WorkspaceIndex(fileSystem);
+		await index.paths(LENGTHS.glob);
+		fileSystem.fire('created', 'gone.h');
+		assert.deepStrictEqual([...(await index.files(LENGTHS)).keys()], ['a.h']);
+		assert.deepStrictEqual(await index.paths(LENGTHS.glob), ['a.h']);
+	});
+});
@@ -0,0 +1,528 @@
+import { COMMON_DIRECTORY, flattenDirectories, generateIntegrationDirectories } from './ecus';
+import { DebugLevel } from './magicFlags';
+import { nvmBlockIdSymbol } from './nvm';
+import { buildContext, formatMagicFlag, GeneratorOptions, MAGIC_FLAGS, renderFileBanner, renderSection, TemplateContext } from './templates';
+import { ConversationState, GeneratedFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Value returned by a stubbed project function and the level it stands for (corrupted values count as Safe) */
+interface SourceValue {
+	label: string;
+	literal: string;
+	level: DebugLevel;
+}
+
+/** The harness of one integration with everything it is built from */
+export interface HarnessBuild {
+	/** ECU of a multi-ECU configuration, undefined for single-ECU integrations */
+	ecu?: string;
+	/** Integration directory relative to the integration path, where the harness is compiled and run; empty for single-ECU integrations */
+	directory: string;
+	/** Harness files relative to `directory` */
+	harness: GeneratedFile[];
+	/** Integration, shared library and harness files relative to the integration path */
+	files: GeneratedFile[];
+	compileArgs: string[];
+}
+
+/** Summary of the TAP output printed by the harness */
+export interface HarnessSummary {
+	passed: number;
+	failed: number;
+	/** Descriptions of the failed cases */
+	failures: string[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Directory of the harness, relative to the integration directory */
+export const HARNESS_DIRECTORY = 'test';
+
+/** Compiler arguments, run from the integration directory, that build the harness together with the integration */
+export const HARNESS_COMPILE_ARGS = [
+	'-std=c99', '-Wall', '-Wextra',
+	'-Itest/stubs', '-Iapi', '-include', 'test/stubs/dmiu_test_stubs.h',
+	'src/dmiu_integration.c', 'test/dmiu_integration_test.c',
+	'-o', 'test/dmiu_integration_test'
+];
+
+/** The shared library as seen from an ECU integration directory */
+const COMMON_FROM_ECU = `../${COMMON_DIRECTORY}`;
+
+const LEVEL_ORDER: DebugLevel[] = ['safe', 'level1', 'level2'];
+
+const LEVEL_ENUMS: Record<DebugLevel, string> = {
+	safe: 'DMIU_DEBUG_LEVEL_SAFE',
+	level1: 'DMIU_DEBUG_LEVEL_1',
+	level2: 'DMIU_DEBUG_LEVEL_2'
+};
+
+/** Dataset functions report magic flags */
+const DATASET_VALUES: SourceValue[] = [
+	{ label: 'SAFE', literal: formatMagicFlag(MAGIC_FLAGS.safe), level: 'safe' },
+	{ label: 'LEVEL_1', literal: formatMagicFlag(MAGIC_FLAGS.level1), level: 'level1' },
+	{ label: 'LEVEL_2', literal: formatMagicFlag(MAGIC_FLAGS.level2), level: 'level2' }
+];
+
+/** Alternative functions report plain levels */
+const ALTERNATIVE_VALUES: SourceValue[] = [
+	{ label: 'SAFE', literal: '0U', level: 'safe' },
+	{ label: 'LEVEL_1', literal: '1U', level: 'level1' },
+	{ label: 'LEVEL_2', literal: '2U', level: 'level2' }
+];
+
+/** Corrupted values: unknown DEB0 pattern, byte-swapped Level 1, erased flash and an out-of-range level */
+const CORRUPTED_VALUES: SourceValue[] = [
+	{ label: 'corrupted 0xDEB00003', literal: '0xDEB00003U', level: 'safe' },
+	{ label: 'byte-swapped 0x0100B0DE', literal: '0x0100B0DEU', level: 'safe' },
+	{ label: 'erased 0xFFFFFFFF', literal: '0xFFFFFFFFU', level: 'safe' },
+	{ label: 'out of range 3', literal: '3U', level: 'safe' }
+];
+
+/** MagicFlagA/MagicFlagB pairs and the level DmiuInt_MagicFlagsToLevel() must return */
+const PAIR_CASES: [number, number, DebugLevel][] = [
+	[MAGIC_FLAGS.safe, MAGIC_FLAGS.safe, 'safe'],
+	[MAGIC_FLAGS.level1, MAGIC_FLAGS.level1, 'level1'],
+	[MAGIC_FLAGS.level2, MAGIC_FLAGS.level2, 'level2'],
+	[MAGIC_FLAGS.level1, MAGIC_FLAGS.level2, 'safe'],
+	[MAGIC_FLAGS.level2, MAGIC_FLAGS.level1, 'safe'],
+	[MAGIC_FLAGS.level2, MAGIC_FLAGS.safe, 'safe'],
+	[MAGIC_FLAGS.safe, MAGIC_FLAGS.level2, 'safe'],
+	[0xDEB00003, 0xDEB00003, 'safe'],
+	[0x0100B0DE, 0x0100B0DE, 'safe'],
+	[0xFFFFFFFF, 0xFFFFFFFF, 'safe']
+];
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/**
+ * Renders a host-compilable unit test harness for the integration generated from the same answers.
+ * The project functions behind the memory, dataset and alternative adapters are stubbed with controllable values,
+ * and the DMIU core headers are replaced by minimal host versions. The harness prints TAP and exits non-zero on
+ * failures.
+ */
+export function generateTestHarness(state: ConversationState): GeneratedFile[] {
+	const ctx = buildContext(state);
+	return [
+		{ relativePath: `${HARNESS_DIRECTORY}/dmiu_integration_test.c`, language: 'c', content: renderTestSource(ctx, harnessCompileArgs(state)) },
+		{ relativePath: `${HARNESS_DIRECTORY}/stubs/dmiu_test_stubs.h`, language: 'c', content: renderStubHeader(ctx) },
+		{ relativePath: `${HARNESS_DIRECTORY}/stubs/Std_Types.h`, language: 'c', content: renderStdTypes() },
+		{ relativePath: `${HARNESS_DIRECTORY}/stubs/Dmiu.h`, language: 'c', content: renderDmiuHeader() },
+		...(ctx.memory.kind === 'shm' ? [{ relativePath: `${HARNESS_DIRECTORY}/stubs/ShmM.h`, language: 'c' as const, content: renderShmHeader(ctx.memory.functionName) }] : []),
+		...(ctx.datasetNvmBlock ? [{ relativePath: `${HARNESS_DIRECTORY}/stubs/NvM.h`, language: 'c' as const, content: renderNvmHeader(ctx.datasetNvmBlock) }] : [])
+	];
+}
+
+/**
+ * Compiler arguments for the harness of an integration, run from its directory. ECU integrations also build the
+ * magic flag conversion of the shared library in the sibling `common` directory.
+ */
+export function harnessCompileArgs(state: ConversationState): string[] {
+	if (!state.commonLibrary) {
+		return HARNESS_COMPILE_ARGS;
+	}
+	return HARNESS_COMPILE_ARGS.flatMap(arg => arg === '-Iapi' ? [arg, `-I${COMMON_FROM_ECU}/api`]
+		: arg === 'src/dmiu_integration.c' ? [arg, `${COMMON_FROM_ECU}/src/dmiu_integration_common.c`]
+			: [arg]);
+}
+
+/** One harness build per integration of a completed state: the integration itself, or every ECU of a multi-ECU configuration */
+export function planHarnessBuilds(state: ConversationState, options: GeneratorOptions = {}): HarnessBuild[] {
+	const directories = generateIntegrationDirectories(state, options);
+	const sources = flattenDirectories(directories);
+	return directories.flatMap(directory => {
+		if (!directory.state) {
+			return [];
+		}
+		const harness = generateTestHarness(directory.state);
+		const files = [...sources, ...flattenDirectories([{ ...directory, files: harness }])];
+		return [{ ecu: directory.state.ecu, directory: directory.subdirectory, harness, files, compileArgs: harnessCompileArgs(directory.state) }];
+	});
+}
+
+/** Counts the `ok`/`not ok` lines of the harness output */
+export function parseHarnessOutput(output: string): HarnessSummary {
+	const summary: HarnessSummary = { passed: 0, failed: 0, failures: [] };
+	for (const line of output.split('\n')) {
+		const result = /^(not )?ok \d+ - (.*)$/.exec(line.trim());
+		if (!result) {
+			continue;
+		}
+		if (result[1]) {
+			summary.failed++;
+			summary.failures.push(result[2]);
+		} else {
+			summary.passed++;
+		}
+	}
+	return summary;
+}
+
+/**********************************************************************************************************************
+ *  TEST SOURCE
+ *********************************************************************************************************************/
+
+function renderTestSource(ctx: TemplateContext, compileArgs: string[]): string {
+	const sameSource = ctx.datasetFunction !== undefined && ctx.datasetFunction === ctx.alternativeFunction;
+	const hasDataset = ctx.datasetFunction !== undefined || ctx.datasetNvmBlock !== undefined;
+	const datasetValues = [...DATASET_VALUES, ...CORRUPTED_VALUES];
+	const alternativeValues = [...ALTERNATIVE_VALUES, ...CORRUPTED_VALUES];
+
+	// Unconfigured sources are stubs reporting the Safe Level, whatever the harness feeds them
+	const sourceCases = datasetValues.flatMap(dataset => alternativeValues
+		// A function used for both sources returns one value, so only equal values can be combined
+		.filter(alternative => !sameSource || alternative.literal === dataset.literal)
+		.map(alternative => sourceCaseRow(
+			dataset, alternative,
+			higherLevel(hasDataset ? dataset.level : 'safe', ctx.alternativeFunction ? alternative.level : 'safe')
+		)));
+
+	const resolveCases = datasetValues.flatMap(dataset => LEVEL_ORDER.map(override =>
+		`    { ${dataset.literal}, ${LEVEL_ENUMS[override]}, ${LEVEL_ENUMS[higherLevel(dataset.level, override)]}, "dataset ${dataset.label}, override ${LEVEL_ENUMS[override]}" },`));
+
+	const pairCases = PAIR_CASES.map(([a, b, expected]) =>
+		`    { ${formatMagicFlag(a)}, ${formatMagicFlag(b)}, ${LEVEL_ENUMS[expected]}, "pair ${formatMagicFlag(a)}/${formatMagicFlag(b)}" },`);
+
+	return `${renderFileBanner('dmiu_integration_test.c', 'Host unit tests for the DMIU integration layer (OR logic, magic flags, initialization).')}
+/* Build and run from the integration directory:
+ *   gcc ${compileArgs.join(' ')}
+ *   ./test/dmiu_integration_test
+ */
+${renderSection('INCLUDES')}
+#include <stdio.h>
+#include "dmiu_integration.h"
+${renderSection('LOCAL TYPES')}
+typedef struct
+{
+    uint32 datasetValue;
+    uint32 alternativeValue;
+    e_Dmiu_Debug_Level expected;
+    const char* description;
+} DmiuTest_SourceCase;
+
+typedef struct
+{
+    uint32 datasetMagicFlag;
+    e_Dmiu_Debug_Level overrideLevel;
+    e_Dmiu_Debug_Level expected;
+    const char* description;
+} DmiuTest_ResolveCase;
+
+typedef struct
+{
+    uint32 magicFlagA;
+    uint32 magicFlagB;
+    e_Dmiu_Debug_Level expected;
+    const char* description;
+} DmiuTest_PairCase;
+${renderSection('LOCAL DATA')}
+/** Effective level for every combination of dataset and alternative source values */
+static const DmiuTest_SourceCase DmiuTest_SourceCases[] =
+{
+${sourceCases.join('\n')}
+};
+
+/** OR logic of DmiuInt_ResolveDebugLevel() independent of the configured adapters */
+static const DmiuTest_ResolveCase DmiuTest_ResolveCases[] =
+{
+${resolveCases.join('\n')}
+};
+
+/** Magic flag pairs, mismatching or unknown pairs must yield the Safe Level */
+static const DmiuTest_PairCase DmiuTest_PairCases[] =
+{
+${pairCases.join('\n')}
+};
+
+static unsigned int DmiuTest_Count = 0U;
+static unsigned int DmiuTest_Failures = 0U;
+${renderSection('STUBS')}
+${renderStubs(ctx, sameSource)}${renderSection('LOCAL FUNCTIONS')}
+static const char* DmiuTest_LevelName(e_Dmiu_Debug_Level level)
+{
+    const char* name = "unknown";
+
+    switch (level)
+    {
+        case DMIU_DEBUG_LEVEL_SAFE: name = "DMIU_DEBUG_LEVEL_SAFE"; break;
+        case DMIU_DEBUG_LEVEL_1: name = "DMIU_DEBUG_LEVEL_1"; break;
+        case DMIU_DEBUG_LEVEL_2: name = "DMIU_DEBUG_LEVEL_2"; break;
+        default: break;
+    }
+
+    return name;
+}
+
+static void DmiuTest_ExpectLevel(e_Dmiu_Debug_Level actual, e_Dmiu_Debug_Level expected, const char* group, const char* description)
+{
+    DmiuTest_Count++;
+    if (actual == expected)
+    {
+        (void)printf("ok %u - %s: %s\\n", DmiuTest_Count, group, description);
+    }
+    else
+    {
+        DmiuTest_Failures++;
+        (void)printf("not ok %u - %s: %s (expected %s, got %s)\\n", DmiuTest_Count, group, description,
+                     DmiuTest_LevelName(expected), DmiuTest_LevelName(actual));
+    }
+}
+
+static void DmiuTest_ExpectTrue(boolean condition, const char* group, const char* description)
+{
+    DmiuTest_Count++;
+    if (condition == TRUE)
+    {
+        (void)printf("ok %u - %s: %s\\n", DmiuTest_Count, group, description);
+    }
+    else
+    {
+        DmiuTest_Failures++;
+        (void)printf("not ok %u - %s: %s\\n", DmiuTest_Count, group, description);
+    }
+}
+
+static void DmiuTest_Initialization(void)
+{
+    DmiuTest_MemoryAvailable = TRUE;
+    DmiuTest_InitializedConfig = NULL_PTR;
+    DmiuTest_ExpectTrue(DmiuInt_Initialize(), "initialize", "returns TRUE when the target memory is available");
+    DmiuTest_ExpectTrue((DmiuTest_InitializedConfig != NULL_PTR) ? TRUE : FALSE, "initialize", "calls DMIU_Initialize()");
+    if (DmiuTest_InitializedConfig != NULL_PTR)
+    {
+        DmiuTest_ExpectTrue((DmiuTest_InitializedConfig->target_memory != NULL_PTR) ? TRUE : FALSE, "initialize", "sets target_memory");
+        DmiuTest_ExpectTrue((DmiuTest_InitializedConfig->dataset_read_func != NULL_PTR) ? TRUE : FALSE, "initialize", "sets dataset_read_func");
+        DmiuTest_ExpectTrue((DmiuTest_InitializedConfig->debug_level_override_func != NULL_PTR) ? TRUE : FALSE, "initialize", "sets debug_level_override_func");
+    }
+${ctx.memory.kind === 'static' ? '' : `
+    DmiuTest_MemoryAvailable = FALSE;
+    DmiuTest_InitializedConfig = NULL_PTR;
+    DmiuTest_ExpectTrue((DmiuInt_Initialize() == FALSE) ? TRUE : FALSE, "initialize", "returns FALSE without target memory");
+    DmiuTest_ExpectTrue((DmiuTest_InitializedConfig == NULL_PTR) ? TRUE : FALSE, "initialize", "skips DMIU_Initialize() without target memory");
+    DmiuTest_MemoryAvailable = TRUE;
+`}}
+${ctx.datasetNvmBlock ? `
+/* Runs first: the adapter must issue its own read although the block status is already NVM_REQ_OK */
+static void DmiuTest_NvMAfterReadAll(void)
+{
+    DmiuTest_DatasetValue = ${formatMagicFlag(MAGIC_FLAGS.level1)};
+    DmiuTest_AlternativeValue = ${formatMagicFlag(MAGIC_FLAGS.safe)};
+    DmiuTest_ExpectLevel(DmiuInt_GetEffectiveDebugLevel(), DMIU_DEBUG_LEVEL_1, "nvm", "block read by the adapter after NvM_ReadAll()");
+}
+` : ''}${renderSection('GLOBAL FUNCTIONS')}
+int main(void)
+{
+    unsigned int index;
+${ctx.datasetNvmBlock ? `
+    DmiuTest_NvMAfterReadAll();
+` : ''}
+    for (index = 0U; index < (sizeof(DmiuTest_SourceCases) / sizeof(DmiuTest_SourceCases[0])); index++)
+    {
+        const DmiuTest_SourceCase* const testCase = &DmiuTest_SourceCases[index];
+        DmiuTest_DatasetValue = testCase->datasetValue;
+        DmiuTest_AlternativeValue = testCase->alternativeValue;
+        DmiuTest_ExpectLevel(DmiuInt_GetEffectiveDebugLevel(), testCase->expected, "sources", testCase->description);
+    }
+
+    for (index = 0U; index < (sizeof(DmiuTest_ResolveCases) / sizeof(DmiuTest_ResolveCases[0])); index++)
+    {
+        const DmiuTest_ResolveCase* const testCase = &DmiuTest_ResolveCases[index];
+        DmiuTest_ExpectLevel(DmiuInt_ResolveDebugLevel(testCase->datasetMagicFlag, testCase->overrideLevel), testCase->expected, "resolve", testCase->description);
+    }
+
+    for (index = 0U; index < (sizeof(DmiuTest_PairCases) / sizeof(DmiuTest_PairCases[0])); index++)
+    {
+        const DmiuTest_PairCase* const testCase = &DmiuTest_PairCases[index];
+        DmiuTest_ExpectLevel(DmiuInt_MagicFlagsToLevel(testCase->magicFlagA, testCase->magicFlagB), testCase->expected, "pairs", testCase->description);
+    }
+
+    DmiuTest_Initialization();
+
+    (void)printf("1..%u\\n# %u of %u failed\\n", DmiuTest_Count, DmiuTest_Failures, DmiuTest_Count);
+    return (DmiuTest_Failures == 0U) ? 0 : 1;
+}
+`;
+}
+
+function sourceCaseRow(dataset: SourceValue, alternative: SourceValue, expected: DebugLevel): string {
+	return `    { ${dataset.literal}, ${alternative.literal}, ${LEVEL_ENUMS[expected]}, "dataset ${dataset.label}, alternative ${alternative.label}" },`;
+}
+
+/** Stubs of the project functions the adapters call, plus DMIU_Initialize() capturing the config */
+function renderStubs(ctx: TemplateContext, sameSource: boolean): string {
+	const stubs = [
+		'uint32 DmiuTest_DatasetValue = 0U;',
+		'uint32 DmiuTest_AlternativeValue = 0U;',
+		'boolean DmiuTest_MemoryAvailable = TRUE;',
+		'const Dmiu_ConfigType* DmiuTest_InitializedConfig = NULL_PTR;'
+	];
+	if (ctx.memory.kind !== 'static') {
+		stubs.push('', 'static Dt_RECORD_DebugUnlockingStruct_DMIU DmiuTest_TargetMemory;');
+	}
+
+	stubs.push('', 'void DMIU_Initialize(const Dmiu_ConfigType* config)', '{', '    DmiuTest_InitializedConfig = config;', '}');
+	if (ctx.memory.kind === 'shm') {
+		stubs.push('', `void* ${ctx.memory.functionName}(const char* name, uint32 size)`, '{', '    (void)name;', '    (void)size;',
+			'    return (DmiuTest_MemoryAvailable == TRUE) ? (void*)&DmiuTest_TargetMemory : NULL_PTR;', '}');
+	} else if (ctx.memory.kind === 'custom') {
+		stubs.push('', `void* ${ctx.memory.functionName}(void)`, '{',
+			'    return (DmiuTest_MemoryAvailable == TRUE) ? (void*)&DmiuTest_TargetMemory : NULL_PTR;', '}');
+	}
+	if (ctx.datasetFunction) {
+		stubs.push('', `uint32 ${ctx.datasetFunction}(void)`, '{', '    return DmiuTest_DatasetValue;', '}');
+	}
+	if (ctx.datasetNvmBlock) {
+		stubs.push('', 'static uint32* DmiuTest_NvMDestination = NULL_PTR;',
+			'', 'Std_ReturnType NvM_ReadBlock(NvM_BlockIdType blockId, void* destination)', '{', '    (void)blockId;',
+			'    DmiuTest_NvMDestination = (uint32*)destination;', '    return E_OK;', '}',
+			'', '/* Reads complete at once and the block follows DmiuTest_DatasetValue, so every case sees its own value */',
+			'Std_ReturnType NvM_GetErrorStatus(NvM_BlockIdType blockId, NvM_RequestResultType* requestResult)', '{', '    (void)blockId;',
+			'    if (DmiuTest_NvMDestination != NULL_PTR)', '    {', '        *DmiuTest_NvMDestination = DmiuTest_DatasetValue;', '        *requestResult = NVM_REQ_OK;', '    }',
+			'    else', '    {', '        /* NvM_ReadAll() has restored the block, so its status is OK before the adapter reads it */',
+			'        *requestResult = NVM_REQ_OK;', '    }', '    return E_OK;', '}');
+	}
+	if (ctx.alternativeFunction && !sameSource) {
+		stubs.push('', `uint32 ${ctx.alternativeFunction}(void)`, '{', '    return DmiuTest_AlternativeValue;', '}');
+	}
+	return stubs.join('\n') + '\n';
+}
+
+/**********************************************************************************************************************
+ *  STUB HEADERS
+ *********************************************************************************************************************/
+
+/** Force-included into dmiu_integration.c so the stubbed project functions are declared */
+function renderStubHeader(ctx: TemplateContext): string {
+	const declarations = [
+		'extern uint32 DmiuTest_DatasetValue;',
+		'extern uint32 DmiuTest_AlternativeValue;',
+		'extern boolean DmiuTest_MemoryAvailable;',
+		'extern const Dmiu_ConfigType* DmiuTest_InitializedConfig;'
+	];
+	if (ctx.memory.kind === 'custom') {
+		declarations.push(`void* ${ctx.memory.functionName}(void);`);
+	}
+	const includes = ['#include "Std_Types.h"', '#include "Dmiu.h"'];
+	if (ctx.datasetNvmBlock) {
+		includes.push('#include "NvM.h"');
+	}
+	for (const name of new Set([ctx.datasetFunction, ctx.alternativeFunction])) {
+		if (name) {
+			declarations.push(`uint32 ${name}(void);`);
+		}
+	}
+
+	return `${renderFileBanner('dmiu_test_stubs.h', 'Declarations of the stubbed project functions for the host unit tests.')}
+#ifndef DMIU_TEST_STUBS_H
+#define DMIU_TEST_STUBS_H
+
+${includes.join('\n')}
+
+${declarations.join('\n')}
+
+#endif /* DMIU_TEST_STUBS_H */
+`;
+}
+
+function renderStdTypes(): string {
+	return `${renderFileBanner('Std_Types.h', 'Minimal host replacement of the AUTOSAR standard types for the unit tests.')}
+#ifndef STD_TYPES_H
+#define STD_TYPES_H
+
+#include <stdint.h>
+
+typedef uint8_t uint8;
+typedef uint16_t uint16;
+typedef uint32_t uint32;
+typedef uint8 boolean;
+typedef uint8 Std_ReturnType;
+
+#define TRUE      ((boolean)1)
+#define FALSE     ((boolean)0)
+#define E_OK      ((Std_ReturnType)0)
+#define E_NOT_OK  ((Std_ReturnType)1)
+#define NULL_PTR  ((void*)0)
+
+#endif /* STD_TYPES_H */
+`;
+}
+
+function renderDmiuHeader(): string {
+	return `${renderFileBanner('Dmiu.h', 'Minimal host replacement of the DMIU core interface for the unit tests.')}
+#ifndef DMIU_H
+#define DMIU_H
+
+#include "Std_Types.h"
+
+typedef enum
+{
+    DMIU_DEBUG_LEVEL_SAFE = 0,
+    DMIU_DEBUG_LEVEL_1 = 1,
+    DMIU_DEBUG_LEVEL_2 = 2
+} e_Dmiu_Debug_Level;
+
+typedef struct
+{
+    uint32 MagicFlagA;
+    uint32 MagicFlagB;
+} Dt_RECORD_DebugUnlockingStruct_DMIU;
+
+typedef struct
+{
+    Dt_RECORD_DebugUnlockingStruct_DMIU* target_memory;
+    uint32 (*dataset_read_func)(void);
+    e_Dmiu_Debug_Level (*debug_level_override_func)(void);
+} Dmiu_ConfigType;
+
+void DMIU_Initialize(const Dmiu_ConfigType* config);
+
+#endif /* DMIU_H */
+`;
+}
+
+function renderShmHeader(functionName: string): string {
+	return `${renderFileBanner('ShmM.h', 'Minimal host replacement of the shared memory manager for the unit tests.')}
+#ifndef SHMM_H
+#define SHMM_H
+
+#include "Std_Types.h"
+
+void* ${functionName}(const char* name, uint32 size);
+
+#endif /* SHMM_H */
+`;
+}
+
+function renderNvmHeader(blockName: string): string {
+	return `${renderFileBanner('NvM.h', 'Minimal host replacement of the NvM interface for the unit tests.')}
+#ifndef NVM_H
+#define NVM_H
+
+#include "Std_Types.h"
+
+typedef uint16 NvM_BlockIdType;
+typedef uint8 NvM_RequestResultType;
+
+#define NVM_REQ_OK       ((NvM_RequestResultType)0)
+#define NVM_REQ_NOT_OK   ((NvM_RequestResultType)1)
+#define NVM_REQ_PENDING  ((NvM_RequestResultType)2)
+
+#define ${nvmBlockIdSymbol(blockName)}  ((NvM_BlockIdType)1)
+
+Std_ReturnType NvM_ReadBlock(NvM_BlockIdType blockId, void* destination);
+Std_ReturnType NvM_GetErrorStatus(NvM_BlockIdType blockId, NvM_RequestResultType* requestResult);
+
+#endif /* NVM_H */
+`;
+}
+
+function higherLevel(a: DebugLevel, b: DebugLevel): DebugLevel {
+	return LEVEL_ORDER[Math.max(LEVEL_ORDER.indexOf(a), LEVEL_ORDER.indexOf(b))];
+}
@@ -0,0 +1,120 @@
+import type { AdapterSession } from './adapters';
+
+/**********************************************************************************************************************
+ *  TYPES AND INTERFACES
+ *********************************************************************************************************************/
+
+/** Conversation state for multi-turn interactions */
+export interface ConversationState {
+	step: 'initial' | 'config' | 'memory' | 'dataset' | 'alternative' | 'complete';
+	platform?: 'posix' | 'autosar';
+	motionwiseConfig?: MotionWiseConfig;
+	integrationPath?: string;
+	memoryFunction?: string;
+	datasetFunction?: string;
+	alternativeFunction?: string;
+	/** Functions suggested for the current step, so numbered replies can be resolved */
+	suggestions?: string[];
+	/** Running /adapter request, independent of the integration wizard step */
+	adapter?: AdapterSession;
+	/** ECUs of a multi-ECU configuration; the answers above belong to the first ECU */
+	ecus?: EcuAnswers[];
+	/** Index in `ecus` of the ECU the wizard is asking about, 0 when unset */
+	currentEcu?: number;
+	/** ECU of a multi-ECU configuration this integration is generated for */
+	ecu?: string;
+	/** Bazel label of the library shared by the ECUs, set for integrations generated per ECU */
+	commonLibrary?: string;
+	/** Target in `1500-build` that deploys the configuration, see MotionWiseConfiguration */
+	buildTarget?: string;
+}
+
+/** Answers of one ECU of a multi-ECU configuration, unset answers are those of the first ECU */
+export interface EcuAnswers {
+	/** ECU name, also its directory below the integration path, e.g. `ecu2` */
+	name: string;
+	memoryFunction?: string;
+	datasetFunction?: string;
+	alternativeFunction?: string;
+}
+
+/** Workspace analysis results */
+export interface WorkspaceAnalysis {
+	detectedPlatform?: 'posix' | 'autosar';
+	existingIntegrationFiles: string[];
+}
+
+/** Id of a MotionWise configuration in the configuration registry, e.g. `cp-rdb2` */
+export type MotionWiseConfig = string;
+
+/** A MotionWise project/board combination and where its DMIU integration lives */
+export interface MotionWiseConfiguration {
+	id: MotionWiseConfig;
+	/** Short description shown in menus, e.g. `CP on RDB2 board` */
+	label: string;
+	board?: string;
+	/** Workspace-relative integration directory, may contain placeholders such as `[PLATFORM]` */
+	integrationPath: string;
+	/** Globs whose matches identify this configuration in a workspace */
+	detect: string[];
+	/** Extra names identifying this configuration in Bazel labels and 1900-sysdef paths */
+	markers?: string[];
+	platform: 'posix' | 'autosar';
+	/** Number of ECUs deployed by this configuration */
+	ecuCount: number;
+	/** Target in `1500-build/BUILD.bazel` that deploys this configuration and gets the integration as a dependency */
+	buildTarget?: string;
+}
+
+/** A C source or header file read from the workspace, e.g. for validation or the audit */
+export interface SourceFile {
+	/** Workspace-relative path */
+	path: string;
+	text: string;
+}
+
+/** A single file produced by the integration generator */
+export interface GeneratedFile {
+	/** Path relative to the integration directory (e.g. `src/dmiu_integration.c`) */
+	relativePath: string;
+	/** Markdown code fence language (`python` highlights Starlark BUILD files, `ini` systemd units) */
+	language: 'c' | 'python' | 'ini';
+	content: string;
+}
+
+/** A parameter of a parsed C function declaration */
+export interface CParameter {
+	/** Normalized type, e.g. `const char*` or `uint32*` */
+	type: string;
+	name: string;
+}
+
+/** A C function prototype or definition found in a source file */
+export interface CFunctionDeclaration {
+	name: string;
+	/** Normalized return type, e.g. `void*` or `Std_ReturnType` */
+	returnType: string;
+	parameters: CParameter[];
+	/** Workspace-relative path of the declaring file, if known */
+	path?: string;
+	/** 1-based line of the function name */
+	line: number;
+}
+
+/** A C enum found in a source file */
+export interface CEnumDeclaration {
+	/** Typedef name, or tag for plain `enum Tag` declarations */
+	name: string;
+	members: string[];
+	path?: string;
+	line: number;
+}
+
+/** A C typedef of a non-enum type, e.g. `typedef uint8 DebugLevel_t;` */
+export interface CTypedefDeclaration {
+	name: string;
+	/** Normalized aliased type, `struct` for struct typedefs */
+	type: string;
+	path?: string;
+	line: number;
+}
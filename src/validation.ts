@@ -0,0 +1,448 @@
+import { referencesPackage } from './bazel';
+import { lineAt, stripComments } from './cParser';
+import { COMMON_DIRECTORY } from './ecus';
+import { closestPreOsFile, proposePreOsInsertion } from './preOs';
+import { collectDefines, findShmMappings, isDmiuMapping, ShmMapping } from './sharedMemory';
+import { DAEMON_TARGET, LIBRARY_TARGET, MAGIC_FLAGS } from './templates';
+import { SourceFile } from './types';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** A single problem found by a check */
+export interface ValidationFinding {
+	severity: 'error' | 'warning' | 'info';
+	message: string;
+	path?: string;
+	/** 1-based line number */
+	line?: number;
+}
+
+/** Outcome of one validation check */
+export interface CheckResult {
+	id: 'initialize-call' | 'config-fields' | 'magic-flags' | 'autosar-preos' | 'posix-main' | 'posix-shm' | 'bazel-target';
+	title: string;
+	status: 'pass' | 'warn' | 'fail' | 'skip';
+	findings: ValidationFinding[];
+}
+
+/** Input for a validation run */
+export interface ValidationInput {
+	platform?: 'posix' | 'autosar';
+	/** Workspace-relative integration directory; picks its PreOS.c, defaults to the location of the integration files */
+	directory?: string;
+	/** Files of the DMIU integration directory */
+	integrationFiles: SourceFile[];
+	/** PreOS.c files found anywhere in the workspace, the one closest to the integration is checked (AUTOSAR only) */
+	preOsFiles: SourceFile[];
+	/** BUILD/BUILD.bazel files of the DMIU integration directory */
+	integrationBuildFiles?: SourceFile[];
+	/** Top-level build files (`1500-build/BUILD.bazel`) */
+	topLevelBuildFiles?: SourceFile[];
+	/** Sources anywhere in the workspace that map shared memory, the clients of the daemon (POSIX only) */
+	shmClientFiles?: SourceFile[];
+}
+
+/** Files of one integration directory, validated on their own */
+export interface IntegrationGroup {
+	/** Workspace-relative integration directory */
+	directory: string;
+	/** ECU of a multi-ECU configuration, undefined for single-ECU integrations */
+	ecu?: string;
+	/** Sources of the directory, for an ECU with those of the shared library next to it */
+	integrationFiles: SourceFile[];
+	integrationBuildFiles: SourceFile[];
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Config struct attributes DMIU_Initialize expects, see DFU_KNOWLEDGE */
+const REQUIRED_CONFIG_FIELDS = ['target_memory', 'dataset_read_func', 'debug_level_override_func'];
+
+/** Subdirectories of an integration directory; a directory below `dmiu` laid out the same way belongs to an ECU */
+const INTEGRATION_SUBDIRECTORIES = ['api', 'src', 'test', 'deploy'];
+
+/** Functions whose call counts as initializing DMIU */
+const INITIALIZE_FUNCTIONS = /\b(DMIU_Initialize|DmiuInt_Initialize)\s*\(/g;
+
+/**********************************************************************************************************************
+ *  PUBLIC API
+ *********************************************************************************************************************/
+
+/** Runs all semantic checks against an integration */
+export function validateIntegration(input: ValidationInput): CheckResult[] {
+	const files = input.integrationFiles.map(stripFile);
+	const preOsFile = closestPreOsFile(input.preOsFiles, input.directory ?? input.integrationFiles[0]?.path ?? '');
+
+	return [
+		checkInitializeCall(files),
+		checkConfigFields(files),
+		checkMagicFlags(files),
+		checkAutosarPreOs(input.platform, preOsFile),
+		checkPosixMain(input.platform, files),
+		// Segment names are string literals, which stripFile blanks
+		checkPosixSharedMemory(input.platform, input.integrationFiles, input.shmClientFiles ?? []),
+		checkBazelTarget(input.platform, input.integrationBuildFiles ?? [], input.topLevelBuildFiles ?? [])
+	];
+}
+
+/**
+ * Splits the integration files of a workspace by integration directory, so the ECUs of a multi-ECU configuration
+ * are validated independently. The shared library in the `common` directory counts for every ECU next to it.
+ */
+export function groupIntegrationFiles(integrationFiles: SourceFile[], integrationBuildFiles: SourceFile[] = []): IntegrationGroup[] {
+	const groups = new Map<string, IntegrationGroup>();
+	const common = new Map<string, SourceFile[]>();
+	const groupOf = (directory: string, ecu?: string): IntegrationGroup => {
+		let group = groups.get(directory);
+		if (!group) {
+			group = { directory, ecu, integrationFiles: [], integrationBuildFiles: [] };
+			groups.set(directory, group);
+		}
+		return group;
+	};
+
+	for (const file of integrationFiles) {
+		const location = locateIntegrationFile(file.path);
+		if (location.ecu === COMMON_DIRECTORY) {
+			common.set(location.parent, [...(common.get(location.parent) ?? []), file]);
+		} else {
+			groupOf(location.directory, location.ecu).integrationFiles.push(file);
+		}
+	}
+	for (const file of integrationBuildFiles) {
+		const location = locateIntegrationFile(file.path);
+		if (location.ecu !== COMMON_DIRECTORY) {
+			groupOf(location.directory, location.ecu).integrationBuildFiles.push(file);
+		}
+	}
+
+	for (const [parent, files] of common) {
+		const ecus = [...groups.values()].filter(group => group.ecu && group.directory.startsWith(`${parent}/`));
+		if (ecus.length === 0) {
+			groupOf(`${parent}/${COMMON_DIRECTORY}`).integrationFiles.push(...files);
+		}
+		ecus.forEach(group => group.integrationFiles.push(...files));
+	}
+	return [...groups.values()].sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/**********************************************************************************************************************
+ *  CHECKS
+ *********************************************************************************************************************/
+
+function checkInitializeCall(files: SourceFile[]): CheckResult {
+	const calls = files.flatMap(file => findCalls(file, 'DMIU_Initialize'));
+	if (calls.length === 0) {
+		return fail('initialize-call', 'DMIU_Initialize is called', {
+			severity: 'error',
+			message: 'No call to DMIU_Initialize() found in the integration files'
+		});
+	}
+	return pass('initialize-call', 'DMIU_Initialize is called');
+}
+
+function checkConfigFields(files: SourceFile[]): CheckResult {
+	const title = 'Config carries target_memory, dataset_read_func and debug_level_override_func';
+	const findings: ValidationFinding[] = [];
+
+	for (const file of files) {
+		for (const call of findCalls(file, 'DMIU_Initialize')) {
+			for (const field of REQUIRED_CONFIG_FIELDS) {
+				if (!new RegExp(`\\.\\s*${field}\\b|->\\s*${field}\\b`).test(file.text)) {
+					findings.push({
+						severity: 'error',
+						message: `Config passed to DMIU_Initialize() never sets '${field}'`,
+						path: file.path,
+						line: call.line
+					});
+				}
+			}
+		}
+	}
+
+	if (!files.some(file => findCalls(file, 'DMIU_Initialize').length > 0)) {
+		return { id: 'config-fields', title, status: 'skip', findings: [] };
+	}
+	return result('config-fields', title, findings);
+}
+
+function checkMagicFlags(files: SourceFile[]): CheckResult {
+	const title = 'Magic flag constants match DEBUG_LEVEL_1/2/SAFE';
+	const expected: Record<string, number> = {
+		safe: MAGIC_FLAGS.safe,
+		level1: MAGIC_FLAGS.level1,
+		level2: MAGIC_FLAGS.level2
+	};
+	const findings: ValidationFinding[] = [];
+	const definition = /(?:#\s*define\s+(\w+)|\bconst\s+\w+\s+(\w+)\s*=)\s*\(?\s*(0[xX][0-9A-Fa-f]+|\d+)[uUlL]*\s*\)?/g;
+
+	for (const file of files) {
+		for (const match of file.text.matchAll(definition)) {
+			const name = match[1] ?? match[2];
+			const level = classifyMagicFlagName(name);
+			if (!level) {
+				continue;
+			}
+			const value = Number(match[3]) >>> 0;
+			if (value !== expected[level]) {
+				findings.push({
+					severity: 'error',
+					message: `${name} is ${formatHex(value)} but ${levelLabel(level)} requires ${formatHex(expected[level])}`,
+					path: file.path,
+					line: lineAt(file.text, match.index)
+				});
+			}
+		}
+
+		// Literals in the DEB0xxxx range that are neither Level 1 nor Level 2 are almost certainly typos
+		for (const match of file.text.matchAll(/\b0[xX][dD][eE][bB]0[0-9A-Fa-f]{4}(?![0-9A-Fa-f])/g)) {
+			const value = Number(match[0]) >>> 0;
+			if (value !== MAGIC_FLAGS.level1 && value !== MAGIC_FLAGS.level2) {
+				findings.push({
+					severity: 'warning',
+					message: `${match[0]} looks like a magic flag but matches no debug level`,
+					path: file.path,
+					line: lineAt(file.text, match.index)
+				});
+			}
+		}
+	}
+
+	return result('magic-flags', title, findings);
+}
+
+/**
+ * The integration's own PreOS.c has to initialize DMIU; calls in the startup sequence of another ECU or project of
+ * the workspace do not count.
+ */
+function checkAutosarPreOs(platform: ValidationInput['platform'], preOsFile: SourceFile | undefined): CheckResult {
+	const title = 'AUTOSAR: initialization called from PreOS.c';
+	if (platform !== 'autosar') {
+		return { id: 'autosar-preos', title, status: 'skip', findings: [] };
+	}
+	if (!preOsFile) {
+		return fail('autosar-preos', title, { severity: 'error', message: 'No PreOS.c found in the workspace' });
+	}
+	if (findInitializeCalls(stripFile(preOsFile)).length > 0) {
+		return pass('autosar-preos', title);
+	}
+	const insertion = proposePreOsInsertion(preOsFile);
+	return fail('autosar-preos', title, {
+		severity: 'error',
+		message: insertion
+			? `${preOsFile.path} does not call DmiuInt_Initialize() or DMIU_Initialize(), add the call to ${insertion.functionName}()`
+			: `${preOsFile.path} does not call DmiuInt_Initialize() or DMIU_Initialize()`,
+		path: preOsFile.path,
+		line: insertion?.call.line ?? 1
+	});
+}
+
+function checkPosixMain(platform: ValidationInput['platform'], files: SourceFile[]): CheckResult {
+	const title = 'POSIX: daemon main() initializes DMIU';
+	if (platform !== 'posix') {
+		return { id: 'posix-main', title, status: 'skip', findings: [] };
+	}
+
+	for (const file of files) {
+		const main = /\bint\s+main\s*\([^)]*\)\s*\{/.exec(file.text);
+		if (!main) {
+			continue;
+		}
+		const line = lineAt(file.text, main.index);
+		const body = file.text.slice(main.index);
+		const findings: ValidationFinding[] = [];
+		if (findInitializeCalls({ path: file.path, text: body }).length === 0) {
+			findings.push({ severity: 'error', message: 'main() does not call DmiuInt_Initialize() or DMIU_Initialize()', path: file.path, line });
+		}
+		if (!/\b(while|for)\s*\(|\bpause\s*\(|\bsleep\s*\(/.test(body)) {
+			findings.push({ severity: 'warning', message: 'main() has no service loop, the daemon exits and releases the target memory', path: file.path, line });
+		}
+		return result('posix-main', title, findings);
+	}
+
+	return fail('posix-main', title, { severity: 'error', message: 'No daemon main() found in the integration files' });
+}
+
+/**
+ * The daemon owns the shared memory segment; every client mapping it has to use the same name and size, and no
+ * client may map it as owner as well.
+ */
+function checkPosixSharedMemory(platform: ValidationInput['platform'], integrationFiles: SourceFile[], clientFiles: SourceFile[]): CheckResult {
+	const title = 'POSIX: shared memory segment matches the client mappings';
+	const defines = collectDefines(integrationFiles);
+	const [owner] = integrationFiles.flatMap(file => findShmMappings(file, defines)).filter(mapping => mapping.owner);
+	// Static or custom target memory is not shared through a segment
+	if (platform !== 'posix' || !owner) {
+		return { id: 'posix-shm', title, status: 'skip', findings: [] };
+	}
+	if (owner.name === undefined) {
+		return result('posix-shm', title, [{
+			severity: 'warning',
+			message: `The segment name ${owner.nameArgument} is not a string constant, client mappings cannot be checked`,
+			path: owner.path,
+			line: owner.line
+		}]);
+	}
+
+	const integrationPaths = new Set(integrationFiles.map(file => file.path));
+	const clients = clientFiles
+		.filter(file => !integrationPaths.has(file.path))
+		.flatMap(file => findShmMappings(file, defines))
+		.filter(mapping => isDmiuMapping(mapping, owner.name!));
+	if (clients.length === 0) {
+		return result('posix-shm', title, [{ severity: 'info', message: `No client process in the workspace maps ${owner.name}` }]);
+	}
+	return result('posix-shm', title, clients.flatMap(client => compareMappings(owner, client)));
+}
+
+function checkBazelTarget(platform: ValidationInput['platform'], buildFiles: SourceFile[], topLevelFiles: SourceFile[]): CheckResult {
+	const title = 'Bazel: integration target defined and referenced from 1500-build';
+	// Workspaces without any Bazel build are not MotionWise checkouts
+	if (buildFiles.length === 0 && topLevelFiles.length === 0) {
+		return { id: 'bazel-target', title, status: 'skip', findings: [] };
+	}
+	if (buildFiles.length === 0) {
+		return fail('bazel-target', title, { severity: 'error', message: 'No BUILD.bazel found in the integration directory' });
+	}
+
+	const findings: ValidationFinding[] = [];
+	for (const file of buildFiles) {
+		if (!new RegExp(`\\bcc_library\\s*\\([^)]*name\\s*=\\s*"${LIBRARY_TARGET}"`).test(file.text)) {
+			findings.push({ severity: 'error', message: `${file.path} defines no cc_library "${LIBRARY_TARGET}"`, path: file.path, line: 1 });
+		}
+		if (platform === 'posix' && !new RegExp(`\\bcc_binary\\s*\\([^)]*name\\s*=\\s*"${DAEMON_TARGET}"`).test(file.text)) {
+			findings.push({ severity: 'warning', message: `${file.path} defines no cc_binary "${DAEMON_TARGET}" for the daemon`, path: file.path, line: 1 });
+		}
+
+		const directory = file.path.slice(0, file.path.lastIndexOf('/'));
+		if (topLevelFiles.length === 0) {
+			findings.push({ severity: 'warning', message: 'No 1500-build/BUILD.bazel found, the target reference cannot be checked' });
+		} else if (!topLevelFiles.some(topLevel => referencesPackage(topLevel.text, directory))) {
+			findings.push({
+				severity: 'error',
+				message: `${topLevelFiles[0].path} does not reference the integration package ${directory}`,
+				path: topLevelFiles[0].path,
+				line: 1
+			});
+		}
+	}
+	return result('bazel-target', title, findings);
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+/**
+ * Finds the integration directory of a file below a `dmiu` directory: `dmiu` itself, or the ECU directory below it
+ * (`dmiu/ecu2/src/dmiu_integration.c`).
+ */
+function locateIntegrationFile(path: string): { directory: string; parent: string; ecu?: string } {
+	const segments = path.split('/');
+	const index = segments.lastIndexOf('dmiu');
+	const parent = segments.slice(0, index + 1).join('/');
+	const child = segments[index + 1];
+	// An ECU directory has the layout of an integration directory itself
+	const below = segments.slice(index + 2);
+	const isEcu = index >= 0 && !INTEGRATION_SUBDIRECTORIES.includes(child)
+		&& ((INTEGRATION_SUBDIRECTORIES.includes(below[0]) && below.length > 1) || (below.length === 1 && /^BUILD(\.bazel)?$/.test(below[0])));
+	if (!isEcu) {
+		return { directory: index < 0 ? segments.slice(0, -1).join('/') : parent, parent };
+	}
+	return { directory: `${parent}/${child}`, parent, ecu: child };
+}
+
+/** Differences between the daemon's segment and a client mapping of it */
+function compareMappings(owner: ShmMapping, client: ShmMapping): ValidationFinding[] {
+	const at = { path: client.path, line: client.line };
+	if (client.name === undefined) {
+		return [{ severity: 'warning', message: `${client.functionName}() maps ${client.nameArgument}, which is not a string constant; the daemon owns "${owner.name}"`, ...at }];
+	}
+	if (client.name !== owner.name) {
+		return [{ severity: 'error', message: `${client.functionName}() maps "${client.name}" but the daemon owns "${owner.name}"`, ...at }];
+	}
+
+	const findings: ValidationFinding[] = [];
+	if (client.owner) {
+		findings.push({ severity: 'error', message: `${client.functionName}() maps "${client.name}" as owner, only the daemon may own the segment`, ...at });
+	}
+	if (client.size !== undefined && owner.size !== undefined && client.size !== owner.size) {
+		findings.push({ severity: 'error', message: `${client.functionName}() maps ${client.size} bytes of "${client.name}" but the segment has ${owner.size}`, ...at });
+	} else if (client.sizeArgument !== undefined && client.size === undefined) {
+		findings.push({ severity: 'info', message: `Size ${client.sizeArgument} of the mapping is not a constant, compare it with the segment size (${owner.size ?? owner.sizeArgument})`, ...at });
+	}
+	return findings;
+}
+
+function stripFile(file: SourceFile): SourceFile {
+	return { path: file.path, text: stripComments(file.text) };
+}
+
+/** Finds call sites (not prototypes) of a function, returning 1-based lines */
+function findCalls(file: SourceFile, functionName: string): { line: number }[] {
+	const calls: { line: number }[] = [];
+	for (const match of file.text.matchAll(new RegExp(`\\b${functionName}\\s*\\(`, 'g'))) {
+		const lineStart = file.text.lastIndexOf('\n', match.index) + 1;
+		const before = file.text.slice(lineStart, match.index);
+		// A call stands alone, is cast to void or is on the right-hand side; a prototype is preceded by its type
+		if (/^\s*(\(\s*void\s*\)\s*)?$|[=(!&|,]\s*$|\breturn\s+$|\bif\s*\(\s*$/.test(before)) {
+			calls.push({ line: lineAt(file.text, match.index) });
+		}
+	}
+	return calls;
+}
+
+function findInitializeCalls(file: SourceFile): { line: number }[] {
+	const names = new Set<string>();
+	for (const match of file.text.matchAll(INITIALIZE_FUNCTIONS)) {
+		names.add(match[1]);
+	}
+	return [...names].flatMap(name => findCalls(file, name));
+}
+
+function classifyMagicFlagName(name: string): 'safe' | 'level1' | 'level2' | undefined {
+	const upper = name.toUpperCase();
+	if (!upper.includes('MAGIC') && !upper.includes('FLAG')) {
+		return undefined;
+	}
+	if (/LE?VE?L_?2/.test(upper)) {
+		return 'level2';
+	}
+	if (/LE?VE?L_?1/.test(upper)) {
+		return 'level1';
+	}
+	if (upper.includes('SAFE')) {
+		return 'safe';
+	}
+	return undefined;
+}
+
+function levelLabel(level: 'safe' | 'level1' | 'level2'): string {
+	return { safe: 'DEBUG_LEVEL_SAFE', level1: 'DEBUG_LEVEL_1', level2: 'DEBUG_LEVEL_2' }[level];
+}
+
+function formatHex(value: number): string {
+	return `0x${value.toString(16).toUpperCase().padStart(8, '0')}`;
+}
+
+function pass(id: CheckResult['id'], title: string): CheckResult {
+	return { id, title, status: 'pass', findings: [] };
+}
+
+function fail(id: CheckResult['id'], title: string, finding: ValidationFinding): CheckResult {
+	return { id, title, status: 'fail', findings: [finding] };
+}
+
+function result(id: CheckResult['id'], title: string, findings: ValidationFinding[]): CheckResult {
+	let status: CheckResult['status'] = 'pass';
+	if (findings.some(f => f.severity === 'error')) {
+		status = 'fail';
+	} else if (findings.some(f => f.severity === 'warning')) {
+		status = 'warn';
+	}
+	return { id, title, status, findings };
+}
@@ -0,0 +1,180 @@
+import { CancellationSignal } from './languageModel';
+
+/**********************************************************************************************************************
+ *  TYPES
+ *********************************************************************************************************************/
+
+/** Workspace file access of the index; implemented over vscode.workspace and by fakes in tests */
+export interface IndexFileSystem {
+	/** Workspace-relative paths of the files matching a glob */
+	findFiles(glob: string): PromiseLike<string[]>;
+	readFile(path: string): PromiseLike<string>;
+	/** Reports files matching the glob that are created, changed or deleted, until the returned watcher is disposed */
+	watch(glob: string, listener: (event: FileEvent) => void): Disposable;
+}
+
+export interface FileEvent {
+	kind: 'created' | 'changed' | 'deleted';
+	path: string;
+}
+
+export interface Disposable {
+	dispose(): void;
+}
+
+/** Files matching a glob and the value kept of each file's text */
+export interface IndexCollection<T> {
+	/** Glob of the files, identifies the collection */
+	glob: string;
+	/** What the files are, for progress messages, e.g. `headers` */
+	label: string;
+	parse(text: string, path: string): T;
+}
+
+/** Called while a collection's files are read, with the files read so far and the files to read */
+export type IndexProgress = (read: number, total: number) => void;
+
+/** Known files of one glob, their values and the files whose value is missing or outdated */
+interface CollectionState {
+	paths: Set<string>;
+	values: Map<string, unknown>;
+	stale: Set<string>;
+	/** Reads in flight, by path */
+	reading: Map<string, Promise<void>>;
+	scan: Promise<void>;
+	watcher?: Disposable;
+}
+
+/**********************************************************************************************************************
+ *  CONSTANTS
+ *********************************************************************************************************************/
+
+/** Files read at the same time, enough to hide latency without flooding the file system */
+export const MAX_PARALLEL_READS = 16;
+
+/**********************************************************************************************************************
+ *  WORKSPACE INDEX
+ *********************************************************************************************************************/
+
+/**
+ * Index of the workspace files the commands look at. Each glob is searched once, on first use; watchers then keep the
+ * list of files up to date and mark changed files, which are read again on the next query. Large checkouts are
+ * therefore only read once per session, and queries after that only read what changed.
+ */
+export class WorkspaceIndex {
+	private readonly collections = new Map<string, CollectionState>();
+
+	constructor(private readonly fileSystem: IndexFileSystem, private readonly maxParallelReads = MAX_PARALLEL_READS) {}
+
+	/** Workspace-relative paths of the files matching a glob, sorted */
+	async paths(glob: string): Promise<string[]> {
+		const state = await this.scanned(glob);
+		return [...state.paths].sort();
+	}
+
+	/**
+	 * Values of a collection's files by path, sorted by path. Files not read yet or changed since are read first, at
+	 * most `maxParallelReads` at a time. On cancellation the reading stops and the values known so far are returned;
+	 * the next query reads the rest.
+	 */
+	async files<T>(collection: IndexCollection<T>, token?: CancellationSignal, onProgress?: IndexProgress): Promise<Map<string, T>> {
+		const state = await this.scanned(collection.glob);
+		await this.refresh(state, collection, token, onProgress);
+
+		const result = new Map<string, T>();
+		for (const path of [...state.values.keys()].sort()) {
+			result.set(path, state.values.get(path) as T);
+		}
+		return result;
+	}
+
+	/** Stops all watchers and forgets the indexed files */
+	dispose(): void {
+		for (const state of this.collections.values()) {
+			state.watcher?.dispose();
+		}
+		this.collections.clear();
+	}
+
+	/** State of a glob, searched the first time it is asked for */
+	private async scanned(glob: string): Promise<CollectionState> {
+		let state = this.collections.get(glob);
+		if (!state) {
+			const created: CollectionState = { paths: new Set(), values: new Map(), stale: new Set(), reading: new Map(), scan: Promise.resolve() };
+			// Watching starts before the search, so files created meanwhile are not missed
+			created.watcher = this.fileSystem.watch(glob, event => onFileEvent(created, event));
+			created.scan = Promise.resolve(this.fileSystem.findFiles(glob)).then(paths => {
+				for (const path of paths) {
+					created.paths.add(path);
+					created.stale.add(path);
+				}
+			}, error => {
+				// A failed search is repeated by the next query
+				created.watcher?.dispose();
+				this.collections.delete(glob);
+				throw error;
+			});
+			this.collections.set(glob, created);
+			state = created;
+		}
+		await state.scan;
+		return state;
+	}
+
+	/** Reads the stale files of a collection, sharing files another query is already reading */
+	private async refresh<T>(state: CollectionState, collection: IndexCollection<T>, token?: CancellationSignal, onProgress?: IndexProgress): Promise<void> {
+		const total = state.stale.size;
+		if (total > 0) {
+			let read = 0;
+			onProgress?.(read, total);
+			const worker = async () => {
+				for (let path = first(state.stale); path !== undefined && !token?.isCancellationRequested; path = first(state.stale)) {
+					state.stale.delete(path);
+					const reading = this.readFile(state, collection, path);
+					state.reading.set(path, reading);
+					await reading;
+					if (state.reading.get(path) === reading) {
+						state.reading.delete(path);
+					}
+					onProgress?.(++read, total);
+				}
+			};
+			await Promise.all(Array.from({ length: Math.min(this.maxParallelReads, total) }, worker));
+		}
+		// Files read by an earlier query that has not finished yet belong to the result as well
+		await Promise.all(state.reading.values());
+	}
+
+	private async readFile<T>(state: CollectionState, collection: IndexCollection<T>, path: string): Promise<void> {
+		try {
+			const text = await this.fileSystem.readFile(path);
+			// A file deleted while it was read is not indexed
+			if (state.paths.has(path)) {
+				state.values.set(path, collection.parse(text, path));
+			}
+		} catch {
+			// Files that cannot be read (usually deleted before the watcher reported it) are left out
+			state.paths.delete(path);
+			state.values.delete(path);
+		}
+	}
+}
+
+/**********************************************************************************************************************
+ *  HELPERS
+ *********************************************************************************************************************/
+
+function onFileEvent(state: CollectionState, event: FileEvent): void {
+	if (event.kind === 'deleted') {
+		state.paths.delete(event.path);
+		state.values.delete(event.path);
+		state.stale.delete(event.path);
+	} else {
+		state.paths.add(event.path);
+		state.stale.add(event.path);
+	}
+}
+
+function first(paths: Set<string>): string | undefined {
+	return paths.values().next().value;
+}